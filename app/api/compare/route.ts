@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { buildWeatherReport } from "@/lib/weather";
+import { parseHoles } from "@/lib/bestWindow";
+import { parseProfile } from "@/lib/profile";
+import { parseUnits } from "@/lib/units";
+import { requestLocale } from "@/lib/i18n";
+import { getElevations, parseElevation } from "@/lib/elevation";
+import { haversineKm, parseLatLon, type LatLon } from "@/lib/geo";
+import { getDriveTimes } from "@/lib/routing";
+import { resolvePlace } from "@/lib/places";
+import { QuotaExhaustedError } from "@/lib/quota";
+import { compareResponse, type CompareRow } from "@/lib/contracts";
+import { contractJson } from "@/lib/contracts/respond";
+
+// Enough for a group's shortlist without fanning out into dozens of forecast calls.
+const MAX_LOCATIONS = 6;
+
+type Target = LatLon & {
+  index: number; // position in the request, so callers can match rows back to their list
+  placeId: string | null;
+  name: string | null;
+  address: string | null;
+  elevationM: number | null;
+};
+
+/**
+ * GET /api/compare?places=<id>,<id>&points=<lat>,<lon>[,<elev>];...&date=YYYY-MM-DD&from=<lat>,<lon>
+ * Runs the full forecast + scoring pipeline for each location in parallel and ranks them for
+ * the given local date (default: today). Also takes `holes`, `units`, `lang` and the golfer profile params.
+ * With `from`, each row gets a drive time (`routing` says whose) and the straight-line distance as a fallback.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+
+  const placeIds = (searchParams.get("places") ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  const pointParams = (searchParams.get("points") ?? "").split(";").map((s) => s.trim()).filter(Boolean);
+
+  if (placeIds.length + pointParams.length === 0) {
+    return NextResponse.json({ error: "Missing places or points" }, { status: 400 });
+  }
+  if (placeIds.length + pointParams.length > MAX_LOCATIONS) {
+    return NextResponse.json({ error: `Compare at most ${MAX_LOCATIONS} locations` }, { status: 400 });
+  }
+
+  const date = searchParams.get("date");
+  if (date != null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: "Invalid date (expected YYYY-MM-DD)" }, { status: 400 });
+  }
+
+  const fromRaw = searchParams.get("from");
+  const from = parseLatLon(fromRaw);
+  if (fromRaw && !from) {
+    return NextResponse.json({ error: "Invalid from" }, { status: 400 });
+  }
+
+  const points: Target[] = [];
+  for (const [i, raw] of pointParams.entries()) {
+    const p = parseLatLon(raw);
+    if (!p) {
+      return NextResponse.json({ error: `Invalid point: ${raw}` }, { status: 400 });
+    }
+    const elev = parseElevation(raw.split(",")[2]);
+    points.push({ ...p, index: placeIds.length + i, placeId: null, name: null, address: null, elevationM: elev });
+  }
+
+  let places: (Target | null)[] = [];
+  if (placeIds.length > 0) {
+    const key = process.env.GOOGLE_PLACES_API_KEY;
+    if (!key) {
+      return NextResponse.json({ error: "Missing GOOGLE_PLACES_API_KEY" }, { status: 500 });
+    }
+    try {
+      const resolved = await Promise.all(placeIds.map((id) => resolvePlace(id, key)));
+      places = resolved.map(({ value: r }, i) => (r ? { ...r, index: i, elevationM: null } : null));
+    } catch (e) {
+      if (e instanceof QuotaExhaustedError) {
+        // Coordinates still work; only uncached place IDs need Google.
+        return NextResponse.json(
+          { error: "Place lookups paused for today; compare by points instead" },
+          { status: 503, headers: { "Retry-After": String(e.retryAfterSec) } }
+        );
+      }
+      return NextResponse.json({ error: "Place lookup failed" }, { status: 502 });
+    }
+  }
+
+  // Places don't come with an elevation; look them (and any points without one) up in one batch.
+  const targets = [...places.filter((p): p is Target => p != null), ...points];
+  const missing = targets.filter((t) => t.elevationM == null);
+  const heights = await getElevations(missing);
+  missing.forEach((t, i) => (t.elevationM = heights[i]));
+
+  const holes = parseHoles(searchParams.get("holes"));
+  const profile = parseProfile(searchParams);
+  const units = parseUnits(searchParams.get("units")) ?? undefined;
+  const locale = requestLocale(req, searchParams);
+
+  const drive = from ? await getDriveTimes(from, targets) : null;
+
+  const rows = await Promise.all(
+    targets.map(async (t, i): Promise<Omit<CompareRow, "rank">> => {
+      const base = {
+        index: t.index,
+        placeId: t.placeId,
+        name: t.name,
+        address: t.address,
+        lat: t.lat,
+        lon: t.lon,
+        elevationM: t.elevationM,
+        driveMin: drive?.times[i]?.minutes ?? null,
+        driveKm: drive?.times[i]?.distanceKm ?? null,
+        // Straight-line distance from the golfer, for rows the router found no route to.
+        distanceKm: from ? Math.round(haversineKm(from, t) * 10) / 10 : null,
+      };
+
+      const result = await buildWeatherReport({
+        lat: t.lat,
+        lon: t.lon,
+        holes,
+        profile,
+        units,
+        locale,
+        courseElevationM: t.elevationM,
+      });
+      if (!result.ok) return { ...base, error: result.error, day: null };
+
+      const day = date ? result.report.daily.find((d) => d.dateKey === date) : result.report.daily[0];
+      if (!day) return { ...base, error: "Date outside forecast range", day: null };
+
+      return {
+        ...base,
+        error: null,
+        day: {
+          dateKey: day.dateKey,
+          dayLabel: day.dayLabel,
+          score: day.golf.score,
+          verdict: day.golf.verdict,
+          reason: day.golf.reason,
+          reasonMessage: day.golf.reasonMessage,
+          bestWindow: day.bestWindow,
+          minTemp: day.minTemp,
+          maxTemp: day.maxTemp,
+          windMax: day.windMax,
+          rainChancePct: day.rainChancePct,
+          precipTotalMm: day.precipTotalMm,
+          ground: day.ground,
+          thunder: day.thunder,
+          frostDelay: day.frostDelay,
+        },
+      };
+    })
+  );
+
+  // Best day first; ties go to the better round window, then the shorter drive (or closer course).
+  const ranked = rows
+    .sort(
+      (a, b) =>
+        (b.day?.score ?? -1) - (a.day?.score ?? -1) ||
+        (b.day?.bestWindow?.avgScore ?? -1) - (a.day?.bestWindow?.avgScore ?? -1) ||
+        (a.driveMin ?? Infinity) - (b.driveMin ?? Infinity) ||
+        (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+    )
+    .map((r, i) => ({ rank: r.day ? i + 1 : null, ...r }));
+
+  const unresolved = placeIds.filter((_, i) => places[i] == null);
+
+  return contractJson(compareResponse, {
+    date: date ?? ranked.find((r) => r.day)?.day?.dateKey ?? null,
+    routing: drive?.source ?? null,
+    unresolved,
+    results: ranked,
+  });
+}
@@ -1,10 +1,24 @@
 import { NextResponse } from "next/server";
+import { getElevations } from "@/lib/elevation";
+import { haversineKm, parseLatLon, type LatLon } from "@/lib/geo";
+import { parseHoles, type HolesOption } from "@/lib/bestWindow";
+import { parseProfile, type GolferProfile } from "@/lib/profile";
+import { buildWeatherReport } from "@/lib/weather";
+import { requestLocale, type Locale } from "@/lib/i18n";
+import { estimateReachKm, getDriveTimes, parseDriveMinutes } from "@/lib/routing";
+import { cached, gridCell } from "@/lib/cache";
+import { QuotaExhaustedError, requireQuota, spendQuota } from "@/lib/quota";
+import { coursesResponse, type CourseDay } from "@/lib/contracts";
+import { contractJson } from "@/lib/contracts/respond";
 
 /**
  * Courses API v1.1:
  * 1) Try Nearby Search with type=golf_course (cleanest)
- * 2) If that returns too few, fallback to radius-based keyword search
+ * 2) If that returns too few (within the drive budget), fallback to radius-based keyword search
  * 3) Filter hard to remove sims / ranges / random businesses
+ * 4) Estimate drive time to each, drop the ones past `maxDrive` minutes, nearest first
+ * Places searches are cached per ~1 km grid cell, so a city's visitors share them.
+ * 5) Score each course's area forecast per day (nearby courses share one) so the page can rank by conditions, not just rating
  */
 
 const INCLUDE_TYPE = new Set(["golf_course"]);
@@ -55,6 +69,15 @@ const EXCLUDE_HAYSTACK =
 // Strong “this is a real course” wording (fallback only)
 const STRICT_COURSE_WORDING = /(golf course|golf club|country club|\blinks\b|g&cc|\bgc\b)/i;
 
+// Nearby Search returns 20 results per page, 3 pages at most.
+const MAX_PAGES = 3;
+// A next_page_token only becomes valid a couple of seconds after it's issued.
+const PAGE_TOKEN_DELAY_MS = 2000;
+// Candidates to route to; only the nearest MAX_COURSES get elevation + forecasts.
+const MAX_CANDIDATES = 40;
+const MAX_COURSES = 10;
+const MIN_COURSES = 4;
+
 function normTypes(p: any): string[] {
   return Array.isArray(p?.types) ? p.types.map((t: any) => String(t).toLowerCase()) : [];
 }
@@ -78,12 +101,152 @@ function isRealCourse(p: any) {
   return STRICT_COURSE_WORDING.test(hay);
 }
 
+function toCourse(p: any) {
+  const lat = p.geometry?.location?.lat;
+  const lon = p.geometry?.location?.lng;
+  return {
+    placeId: String(p.place_id ?? ""),
+    name: String(p.name ?? ""),
+    rating: typeof p.rating === "number" ? p.rating : null,
+    userRatingsTotal: typeof p.user_ratings_total === "number" ? p.user_ratings_total : null,
+    address: p.vicinity ?? p.formatted_address ?? null,
+    openNow: typeof p.opening_hours?.open_now === "boolean" ? p.opening_hours.open_now : null,
+    types: Array.isArray(p.types) ? p.types.map(String) : [],
+    lat: Number.isFinite(lat) ? lat : null,
+    lon: Number.isFinite(lon) ? lon : null,
+    mapsUrl: p.place_id
+      ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+          p.name
+        )}&query_place_id=${encodeURIComponent(p.place_id)}`
+      : null,
+  };
+}
+
+// Course elevation (not the city grid cell's) so forecasts and ball flight can be corrected for it.
+async function withElevation<C extends ReturnType<typeof toCourse>>(courses: C[]) {
+  const located = courses.filter((c) => c.lat != null && c.lon != null);
+  const heights = await getElevations(located.map((c) => ({ lat: c.lat, lon: c.lon })));
+  const byId = new Map(located.map((c, i) => [c.placeId, heights[i]]));
+  return courses.map((c) => ({ ...c, elevationM: byId.get(c.placeId) ?? null }));
+}
+
+// Courses this close share one forecast (the models behind it don't resolve finer), so they share one
+// report too, unless they sit at very different heights. Keeps a page of courses to a few reports.
+const CONDITIONS_CELL_DEG = 0.05;
+const CONDITIONS_ELEVATION_STEP_M = 100;
+
+// Each course is scored per local day from its area's forecast, lapse-rate corrected to its elevation band.
+async function withConditions<C extends ReturnType<typeof toCourse> & { elevationM: number | null }>(
+  courses: C[],
+  opts: { origin: LatLon; holes: HolesOption | null; profile: GolferProfile; locale: Locale }
+) {
+  const reports = new Map<string, Promise<CourseDay[] | null>>();
+  const daysAt = (lat: number, lon: number, elevationM: number | null) => {
+    const cell = gridCell(lat, lon, CONDITIONS_CELL_DEG);
+    const band =
+      elevationM != null ? Math.round(elevationM / CONDITIONS_ELEVATION_STEP_M) * CONDITIONS_ELEVATION_STEP_M : null;
+    const key = `${cell.key}:${band ?? "?"}`;
+    if (!reports.has(key)) {
+      reports.set(
+        key,
+        buildWeatherReport({
+          lat: cell.lat,
+          lon: cell.lon,
+          holes: opts.holes,
+          profile: opts.profile,
+          locale: opts.locale,
+          courseElevationM: band,
+        }).then((result) =>
+          result.ok
+            ? result.report.daily.map((d) => ({
+                dateKey: d.dateKey,
+                score: d.golf.score,
+                verdict: d.golf.verdict,
+                reason: d.golf.reason,
+                reasonMessage: d.golf.reasonMessage,
+                bestWindow: d.bestWindow,
+              }))
+            : null
+        )
+      );
+    }
+    return reports.get(key)!;
+  };
+
+  return Promise.all(
+    courses.map(async (c) => {
+      if (c.lat == null || c.lon == null) return { ...c, distanceKm: null, days: null };
+      const distanceKm = Math.round(haversineKm(opts.origin, { lat: c.lat, lon: c.lon }) * 10) / 10;
+      return { ...c, distanceKm, days: await daysAt(c.lat, c.lon, c.elevationM) };
+    })
+  );
+}
+
 async function fetchPlaces(url: string) {
   const res = await fetch(url);
   const data = await res.json();
   return { res, data };
 }
 
+/**
+ * First page plus follow-up pages while `wantMore(results so far)` holds.
+ * Only the first page's status counts as an error; a failed later page just ends the list.
+ * Every page spends Places quota: the first page throws when none is left, later pages just stop.
+ */
+async function fetchPlacePages(url: string, key: string, wantMore: (results: unknown[]) => boolean) {
+  requireQuota("places");
+  const { data } = await fetchPlaces(url);
+  const results = Array.isArray(data?.results) ? [...data.results] : [];
+  let token = data?.next_page_token;
+
+  for (let page = 1; page < MAX_PAGES && token && wantMore(results) && spendQuota("places"); page++) {
+    await new Promise((r) => setTimeout(r, PAGE_TOKEN_DELAY_MS));
+    const { data: next } = await fetchPlaces(
+      `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
+        `?pagetoken=${encodeURIComponent(token)}` +
+        `&key=${encodeURIComponent(key)}`
+    );
+    if (next?.status !== "OK" || !Array.isArray(next.results)) break;
+    results.push(...next.results);
+    token = next.next_page_token;
+  }
+
+  return { data, results };
+}
+
+// Error statuses arrive in a 200 body; those must not be cached.
+const placesOk = ({ data }: { data: { status?: string } }) => data?.status === "OK" || data?.status === "ZERO_RESULTS";
+
+function uniqueByPlaceId<T extends { place_id?: unknown }>(places: T[]) {
+  const seen = new Set<string>();
+  const out: T[] = [];
+  for (const p of places) {
+    const id = String(p?.place_id ?? "");
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    out.push(p);
+  }
+  return out;
+}
+
+// Drive time from the search origin, nearest first; courses past the budget are dropped.
+async function byDriveTime(places: { place_id?: unknown }[], origin: LatLon, maxDrive: number | null) {
+  const courses = uniqueByPlaceId(places).slice(0, MAX_CANDIDATES).map(toCourse);
+  const located = courses.filter((c) => c.lat != null && c.lon != null);
+  const { source, times } = await getDriveTimes(origin, located.map((c) => ({ lat: c.lat, lon: c.lon })));
+  const byId = new Map(located.map((c, i) => [c.placeId, times[i]]));
+
+  const timed = courses
+    .map((c) => {
+      const t = byId.get(c.placeId) ?? null;
+      return { ...c, driveMin: t?.minutes ?? null, driveKm: t?.distanceKm ?? null };
+    })
+    .filter((c) => maxDrive == null || (c.driveMin != null && c.driveMin <= maxDrive))
+    .sort((a, b) => (a.driveMin ?? Infinity) - (b.driveMin ?? Infinity));
+
+  return { source, courses: timed };
+}
+
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const lat = searchParams.get("lat");
@@ -93,21 +256,59 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Missing lat/lon" }, { status: 400 });
   }
 
+  const origin = parseLatLon(`${lat},${lon}`);
+  if (!origin) {
+    return NextResponse.json({ error: "Invalid lat/lon" }, { status: 400 });
+  }
+  const cell = gridCell(origin.lat, origin.lon);
+  const maxDrive = parseDriveMinutes(searchParams.get("maxDrive"));
+  // Straight-line reach of the drive budget: no point paging further out than this.
+  const reachKm = maxDrive != null ? estimateReachKm(maxDrive) : null;
+
+  const conditions = {
+    origin,
+    holes: parseHoles(searchParams.get("holes")),
+    profile: parseProfile(searchParams),
+    locale: requestLocale(req, searchParams),
+  };
+
   const key = process.env.GOOGLE_PLACES_API_KEY;
   if (!key) {
     return NextResponse.json({ error: "Missing GOOGLE_PLACES_API_KEY" }, { status: 500 });
   }
 
+  // Results come nearest to the searched cell first, so keep paging only while the farthest one is still in reach.
+  // Measured from the cell, not the exact origin: the cached pages are shared by everyone in it.
+  const wantMore = (results: unknown[]) => {
+    if (results.filter(isRealCourse).length >= MAX_CANDIDATES) return false;
+    if (reachKm == null) return results.filter(isRealCourse).length < MAX_COURSES;
+    const last = toCourse(results[results.length - 1]);
+    return last.lat == null || haversineKm(cell, { lat: last.lat, lon: last.lon }) < reachKm;
+  };
+
   // 1) Best: nearby search constrained by type=golf_course
   // rankby=distance cannot be combined with radius (Google rule)
   const url1 =
     `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
-    `?location=${encodeURIComponent(`${lat},${lon}`)}` +
+    `?location=${encodeURIComponent(cell.key)}` +
     `&rankby=distance` +
     `&type=${encodeURIComponent("golf_course")}` +
     `&key=${encodeURIComponent(key)}`;
 
-  const { data: data1 } = await fetchPlaces(url1);
+  let page1;
+  try {
+    page1 = await cached(
+      "placesNearby",
+      `courses:${cell.key}:${maxDrive ?? "any"}`,
+      () => fetchPlacePages(url1, key, wantMore),
+      { cacheIf: placesOk }
+    );
+  } catch (e) {
+    // Out of Places budget and nothing cached for this area: an empty (flagged) list, not an error.
+    if (e instanceof QuotaExhaustedError) return contractJson(coursesResponse, { courses: [], maxDriveMin: maxDrive, degraded: true });
+    throw e;
+  }
+  const { data: data1, results: raw1 } = page1.value;
 
   if (data1.status !== "OK" && data1.status !== "ZERO_RESULTS") {
     return NextResponse.json(
@@ -120,41 +321,56 @@ export async function GET(req: Request) {
     );
   }
 
-  const raw1 = Array.isArray(data1?.results) ? data1.results : [];
   const filtered1 = raw1.filter(isRealCourse);
+  const first = await byDriveTime(filtered1, origin, maxDrive);
 
   // If we have enough, ship it
-  if (filtered1.length >= 4) {
-    const courses = filtered1.slice(0, 10).map((p: any) => ({
-      placeId: p.place_id,
-      name: p.name,
-      rating: p.rating ?? null,
-      userRatingsTotal: p.user_ratings_total ?? null,
-      address: p.vicinity ?? p.formatted_address ?? null,
-      openNow: p.opening_hours?.open_now ?? null,
-      types: p.types ?? [],
-      mapsUrl: p.place_id
-        ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
-            p.name
-          )}&query_place_id=${encodeURIComponent(p.place_id)}`
-        : null,
-    }));
-
-    return NextResponse.json({ courses });
+  if (first.courses.length >= MIN_COURSES) {
+    const courses = await withConditions(await withElevation(first.courses.slice(0, MAX_COURSES)), conditions);
+
+    return contractJson(coursesResponse, {
+      courses,
+      routing: first.source,
+      maxDriveMin: maxDrive,
+      cachedAt: page1.cachedAt,
+      stale: page1.stale,
+    });
   }
 
-  // 2) Fallback: radius-based keyword search (wider net)
+  // 2) Fallback: radius-based keyword search (wider net), sized to the drive budget when there is one
   // NOTE: max radius for Nearby Search is 50,000 meters
-  const radius = 20000;
+  const radius = reachKm != null ? Math.round(Math.min(50000, Math.max(20000, reachKm * 1000))) : 20000;
 
   const url2 =
     `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
-    `?location=${encodeURIComponent(`${lat},${lon}`)}` +
+    `?location=${encodeURIComponent(cell.key)}` +
     `&radius=${radius}` +
     `&keyword=${encodeURIComponent("golf course OR golf club OR country club OR links")}` +
     `&key=${encodeURIComponent(key)}`;
 
-  const { data: data2 } = await fetchPlaces(url2);
+  // Keyword results aren't distance-ordered, so take every page we're given.
+  let page2;
+  try {
+    page2 = await cached(
+      "placesNearby",
+      `courses-keyword:${cell.key}:${radius}`,
+      () => fetchPlacePages(url2, key, () => true),
+      { cacheIf: placesOk }
+    );
+  } catch (e) {
+    if (!(e instanceof QuotaExhaustedError)) throw e;
+    // No budget for the wider search: ship what the first search found.
+    const courses = await withConditions(await withElevation(first.courses.slice(0, MAX_COURSES)), conditions);
+    return contractJson(coursesResponse, {
+      courses,
+      routing: first.source,
+      maxDriveMin: maxDrive,
+      cachedAt: page1.cachedAt,
+      stale: page1.stale,
+      degraded: true,
+    });
+  }
+  const { data: data2, results: raw2 } = page2.value;
 
   if (data2.status !== "OK" && data2.status !== "ZERO_RESULTS") {
     return NextResponse.json(
@@ -167,34 +383,18 @@ export async function GET(req: Request) {
     );
   }
 
-  const raw2 = Array.isArray(data2?.results) ? data2.results : [];
   const filtered2 = raw2.filter(isRealCourse);
 
-  // Merge (unique by place_id), keep type=golf_course results first
-  const seen = new Set<string>();
-  const merged: any[] = [];
-
-  for (const p of [...filtered1, ...filtered2]) {
-    const id = String(p?.place_id ?? "");
-    if (!id || seen.has(id)) continue;
-    seen.add(id);
-    merged.push(p);
-  }
+  // Merge (unique by place_id) and re-rank everything by drive time
+  const merged = await byDriveTime([...filtered1, ...filtered2], origin, maxDrive);
 
-  const courses = merged.slice(0, 10).map((p: any) => ({
-    placeId: p.place_id,
-    name: p.name,
-    rating: p.rating ?? null,
-    userRatingsTotal: p.user_ratings_total ?? null,
-    address: p.vicinity ?? p.formatted_address ?? null,
-    openNow: p.opening_hours?.open_now ?? null,
-    types: p.types ?? [],
-    mapsUrl: p.place_id
-      ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
-          p.name
-        )}&query_place_id=${encodeURIComponent(p.place_id)}`
-      : null,
-  }));
+  const courses = await withConditions(await withElevation(merged.courses.slice(0, MAX_COURSES)), conditions);
 
-  return NextResponse.json({ courses });
+  return contractJson(coursesResponse, {
+    courses,
+    routing: merged.source,
+    maxDriveMin: maxDrive,
+    cachedAt: Math.min(page1.cachedAt, page2.cachedAt),
+    stale: page1.stale || page2.stale,
+  });
 }
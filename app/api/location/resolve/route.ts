@@ -1,4 +1,8 @@
 import { NextResponse } from "next/server";
+import { parseGeoPlaceId, resolvePlace } from "@/lib/places";
+import { QuotaExhaustedError } from "@/lib/quota";
+import { resolveResponse } from "@/lib/contracts";
+import { contractJson } from "@/lib/contracts/respond";
 
 export async function GET(req: Request) {
   try {
@@ -12,61 +16,47 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Missing placeId" }, { status: 400 });
     }
 
+    // Open‑Meteo suggestions (served when the Places budget is spent) carry their coordinates.
+    const geo = parseGeoPlaceId(placeId);
+    if (geo) {
+      return contractJson(resolveResponse, { lat: geo.lat, lon: geo.lon, address: null, placeId });
+    }
+
     const key = process.env.GOOGLE_PLACES_API_KEY;
     if (!key) {
       return NextResponse.json({ error: "Missing GOOGLE_PLACES_API_KEY" }, { status: 500 });
     }
 
-    // Place Details API (v1)
+    // Place Details API (v1), cached per place ID
     // NOTE: This is the correct way to resolve an autocomplete place_id to coordinates.
-    const url =
-      "https://places.googleapis.com/v1/places/" +
-      encodeURIComponent(placeId) +
-      "?fields=location,formattedAddress,displayName";
-
-    const r = await fetch(url, {
-      headers: {
-        "X-Goog-Api-Key": key,
-        // (optional) for quota attribution if you have one
-        // "X-Goog-FieldMask": "location,formattedAddress,displayName",
-      },
-      cache: "no-store",
-    });
-
-    const data = await r.json();
-
-    if (!r.ok) {
+    let resolved: Awaited<ReturnType<typeof resolvePlace>>;
+    try {
+      resolved = await resolvePlace(placeId, key);
+    } catch (e) {
+      if (e instanceof QuotaExhaustedError) {
+        return NextResponse.json(
+          { error: "Place lookups paused for today" },
+          { status: 503, headers: { "Retry-After": String(e.retryAfterSec) } }
+        );
+      }
       return NextResponse.json(
-        {
-          error: "Place details lookup failed",
-          status: r.status,
-          google: data,
-        },
+        { error: "Place details lookup failed", detail: e instanceof Error ? e.message : String(e) },
         { status: 502 }
       );
     }
 
-    const lat = data?.location?.latitude;
-    const lon = data?.location?.longitude;
-
-    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
-      return NextResponse.json(
-        { error: "No coordinates returned for placeId", google: data },
-        { status: 502 }
-      );
+    const place = resolved.value;
+    if (!place) {
+      return NextResponse.json({ error: "No coordinates returned for placeId" }, { status: 502 });
     }
 
-    const address =
-      data?.formattedAddress ||
-      data?.displayName?.text ||
-      data?.displayName ||
-      null;
-
-    return NextResponse.json({
-      lat,
-      lon,
-      address,
+    return contractJson(resolveResponse, {
+      lat: place.lat,
+      lon: place.lon,
+      address: place.address || place.name || null,
       placeId,
+      cachedAt: resolved.cachedAt,
+      stale: resolved.stale,
     });
   } catch (e: any) {
     return NextResponse.json(
@@ -1,21 +1,18 @@
 import { NextResponse } from "next/server";
-
-type Kind = "city" | "course";
-
-type Prediction = {
-  kind: Kind;
-  placeId: string;
-  description: string;
-  name?: string | null;
-  address?: string | null;
-};
+import { getElevations } from "@/lib/elevation";
+import { requestLocale } from "@/lib/i18n";
+import { searchOpenMeteoCities } from "@/lib/places";
+import { spendQuota } from "@/lib/quota";
+import { suggestResponse, type Prediction } from "@/lib/contracts";
+import { contractJson } from "@/lib/contracts/respond";
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const input = (searchParams.get("q") || "").trim();
+  const locale = requestLocale(req, searchParams);
 
   if (!input || input.length < 2) {
-    return NextResponse.json({ predictions: [] as Prediction[] });
+    return contractJson(suggestResponse, { predictions: [] });
   }
 
   const key = process.env.GOOGLE_PLACES_API_KEY;
@@ -23,11 +20,20 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "Missing GOOGLE_PLACES_API_KEY" }, { status: 500 });
   }
 
+  // Each suggestion costs two Places calls. Once today's budget is spent, fall back to
+  // Open‑Meteo geocoding: cities only, no course search, but the search box keeps working.
+  if (!spendQuota("places", 2)) {
+    const cities = await searchOpenMeteoCities(input, locale).catch(() => []);
+    const predictions: Prediction[] = cities.map((c) => ({ kind: "city", ...c }));
+    return contractJson(suggestResponse, { predictions, degraded: true });
+  }
+
   // 1) Cities-only autocomplete (legacy Places Autocomplete endpoint)
   const citiesUrl =
     `https://maps.googleapis.com/maps/api/place/autocomplete/json` +
     `?input=${encodeURIComponent(input)}` +
     `&types=(cities)` +
+    `&language=${locale}` +
     `&key=${encodeURIComponent(key)}`;
 
   // 2) Courses (Places Text Search)
@@ -36,6 +42,7 @@ export async function GET(req: Request) {
     `https://maps.googleapis.com/maps/api/place/textsearch/json` +
     `?query=${encodeURIComponent(input)}` +
     `&type=golf_course` +
+    `&language=${locale}` +
     `&key=${encodeURIComponent(key)}`;
 
   const [citiesRes, coursesRes] = await Promise.all([fetch(citiesUrl), fetch(coursesUrl)]);
@@ -78,8 +85,14 @@ export async function GET(req: Request) {
     description: `${r?.name ?? "Course"}${r?.formatted_address ? ` — ${r.formatted_address}` : ""}`,
     name: r?.name ?? null,
     address: r?.formatted_address ?? null,
+    lat: Number.isFinite(r?.geometry?.location?.lat) ? r.geometry.location.lat : null,
+    lon: Number.isFinite(r?.geometry?.location?.lng) ? r.geometry.location.lng : null,
   }));
 
+  const located = coursePreds.filter((p) => p.lat != null && p.lon != null);
+  const heights = await getElevations(located.map((p) => ({ lat: p.lat!, lon: p.lon! })));
+  located.forEach((p, i) => (p.elevationM = heights[i]));
+
   // Merge + dedupe by placeId (and drop any empties)
   const seen = new Set<string>();
   const merged = [...coursePreds, ...cityPreds].filter((p) => {
@@ -89,5 +102,5 @@ export async function GET(req: Request) {
     return true;
   });
 
-  return NextResponse.json({ predictions: merged.slice(0, 8) });
+  return contractJson(suggestResponse, { predictions: merged.slice(0, 8) });
 }
@@ -1,4 +1,9 @@
 import { NextResponse } from "next/server";
+import { cached, gridCell } from "@/lib/cache";
+import { parseLatLon } from "@/lib/geo";
+import { QuotaExhaustedError, requireQuota } from "@/lib/quota";
+import { simulatorsResponse, type Simulator } from "@/lib/contracts";
+import { contractJson } from "@/lib/contracts/respond";
 
 const includeNameRegex = /(simulator|indoor|virtual|golf|trackman|sports bar|golf house|next golf)/i;
 
@@ -10,22 +15,44 @@ export async function GET(req: Request) {
   if (!lat || !lon) {
     return NextResponse.json({ error: "Missing lat/lon" }, { status: 400 });
   }
+  const point = parseLatLon(`${lat},${lon}`);
+  if (!point) {
+    return NextResponse.json({ error: "Invalid lat/lon" }, { status: 400 });
+  }
 
   const key = process.env.GOOGLE_PLACES_API_KEY;
   if (!key) {
     return NextResponse.json({ error: "Missing GOOGLE_PLACES_API_KEY" }, { status: 500 });
   }
 
+  // Searched from the centre of the ~1 km grid cell so nearby visitors share one cached answer
+  const cell = gridCell(point.lat, point.lon);
+
   const url =
     `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
-    `?location=${encodeURIComponent(`${lat},${lon}`)}` +
+    `?location=${encodeURIComponent(cell.key)}` +
     `&rankby=distance` +
     `&type=establishment` +
     `&keyword=${encodeURIComponent("golf simulator indoor golf")}` +
     `&key=${encodeURIComponent(key)}`;
 
-  const res = await fetch(url);
-  const data = await res.json();
+  let result;
+  try {
+    result = await cached(
+      "placesNearby",
+      `simulators:${cell.key}`,
+      async () => {
+        requireQuota("places");
+        return (await fetch(url)).json();
+      },
+      { cacheIf: (d) => d?.status === "OK" || d?.status === "ZERO_RESULTS" }
+    );
+  } catch (e) {
+    // Out of Places budget with nothing cached for this area: no suggestions beats an error.
+    if (e instanceof QuotaExhaustedError) return contractJson(simulatorsResponse, { simulators: [], degraded: true });
+    throw e;
+  }
+  const { value: data, cachedAt, stale } = result;
 
   if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
     return NextResponse.json(
@@ -44,13 +71,13 @@ export async function GET(req: Request) {
   const sims = raw
     .filter((p: any) => includeNameRegex.test(String(p?.name ?? "")))
     .slice(0, 10)
-    .map((p: any) => ({
-      placeId: p.place_id,
-      name: p.name,
-      rating: p.rating ?? null,
-      userRatingsTotal: p.user_ratings_total ?? null,
+    .map((p: any): Simulator => ({
+      placeId: String(p.place_id ?? ""),
+      name: String(p.name ?? ""),
+      rating: typeof p.rating === "number" ? p.rating : null,
+      userRatingsTotal: typeof p.user_ratings_total === "number" ? p.user_ratings_total : null,
       address: p.vicinity ?? p.formatted_address ?? null,
-      openNow: p.opening_hours?.open_now ?? null,
+      openNow: typeof p.opening_hours?.open_now === "boolean" ? p.opening_hours.open_now : null,
       mapsUrl: p.place_id
         ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
             p.name
@@ -58,5 +85,5 @@ export async function GET(req: Request) {
         : null,
     }));
 
-  return NextResponse.json({ simulators: sims });
+  return contractJson(simulatorsResponse, { simulators: sims, cachedAt, stale });
 }
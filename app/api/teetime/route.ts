@@ -0,0 +1,264 @@
+import { NextResponse } from "next/server";
+import {
+  applyElevation,
+  getCachedForecast,
+  getRecentHours,
+  getWeatherProvider,
+  scoreSeries,
+  toHourlySeries,
+  type NormalizedForecast,
+} from "@/lib/weather";
+import { parseHoles } from "@/lib/bestWindow";
+import { projectRound } from "@/lib/teeTime";
+import { verdictForScore } from "@/lib/verdict";
+import { alertBlocks, getActiveAlerts } from "@/lib/alerts";
+import { overlapsStorm, stormTiming } from "@/lib/thunder";
+import { isFrostDelayed, predictFrostDelays } from "@/lib/frost";
+import { rollupBreakdown } from "@/lib/golfability";
+import { parseProfile } from "@/lib/profile";
+import { parseUnits } from "@/lib/units";
+import { TIME_LOCALES, msg, requestLocale, t } from "@/lib/i18n";
+import { parseElevation } from "@/lib/elevation";
+import { parseLatLon } from "@/lib/geo";
+import { solarDay, sunriseFor } from "@/lib/solar";
+import { formatTime, localDateKey, zonedToUnix } from "@/lib/timezone";
+import { holeWindEffect, parseCourseLayout, windAt, type CourseLayout } from "@/lib/course";
+import { teeTimeResponse } from "@/lib/contracts";
+import { contractJson } from "@/lib/contracts/respond";
+
+/**
+ * Tee-time API:
+ * GET /api/teetime?lat&lon&start=ISO&holes=9|18&pace=walk|cart&units=metric|imperial|mixed&lang=en|fr
+ * Projects the round hole by hole from `start` and says how it plays.
+ * `start` without a UTC offset (e.g. 2026-05-02T07:40) is read as local time at the course.
+ */
+
+function parseStart(raw: string, timeZone: string): number | null {
+  const s = raw.trim();
+  if (/(z|[+-]\d{2}:?\d{2})$/i.test(s)) {
+    const ms = Date.parse(s);
+    return Number.isFinite(ms) ? Math.round(ms / 1000) : null;
+  }
+  const dt = zonedToUnix(s, timeZone);
+  return dt != null ? Math.round(dt) : null;
+}
+
+export async function GET(req: Request) {
+  return roundResponse(req, null);
+}
+
+// Same as GET, plus a course layout body ({ layout } or the layout itself, JSON or GeoJSON)
+// for hole-by-hole wind: which holes play long or short at this tee time.
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const raw = body && typeof body === "object" && "layout" in body ? (body as { layout: unknown }).layout : body;
+  const layout = parseCourseLayout(raw);
+  if (!layout) {
+    return NextResponse.json({ error: "Invalid course layout" }, { status: 400 });
+  }
+
+  return roundResponse(req, layout);
+}
+
+async function roundResponse(req: Request, layout: CourseLayout | null) {
+  const { searchParams } = new URL(req.url);
+  const lat = searchParams.get("lat");
+  const lon = searchParams.get("lon");
+  const startRaw = searchParams.get("start");
+
+  if (!lat || !lon) {
+    return NextResponse.json({ error: "Missing lat/lon" }, { status: 400 });
+  }
+  const point = parseLatLon(`${lat},${lon}`);
+  if (!point) {
+    return NextResponse.json({ error: "Invalid lat/lon" }, { status: 400 });
+  }
+  if (!startRaw) {
+    return NextResponse.json({ error: "Missing start" }, { status: 400 });
+  }
+
+  const holes = parseHoles(searchParams.get("holes")) ?? 18;
+  const profile = parseProfile(searchParams);
+  const pace = profile.pace;
+  const units = parseUnits(searchParams.get("units")) ?? undefined;
+  const locale = requestLocale(req, searchParams);
+  const courseElevationM = parseElevation(searchParams.get("elev"));
+
+  const provider = getWeatherProvider();
+  if (!provider) {
+    return NextResponse.json({ error: "Missing API key" }, { status: 500 });
+  }
+
+  const alertsPromise = getActiveAlerts(point.lat, point.lon);
+  const recentPromise = getRecentHours(point.lat, point.lon);
+
+  let fc: NormalizedForecast;
+  let cache: { cachedAt: number; stale: boolean };
+  try {
+    const { value, cachedAt, stale } = await getCachedForecast(provider, point.lat, point.lon);
+    fc = applyElevation(toHourlySeries(value), courseElevationM);
+    cache = { cachedAt, stale };
+  } catch {
+    return NextResponse.json({ error: "Weather fetch failed" }, { status: 502 });
+  }
+
+  const { timeZone } = fc;
+  const timeLocale = TIME_LOCALES[locale];
+  const startDt = parseStart(startRaw, timeZone);
+  if (startDt == null) {
+    return NextResponse.json({ error: "Invalid start" }, { status: 400 });
+  }
+
+  const alerts = await alertsPromise;
+  // Last night's observed hours, so a round this morning still sees the frost that already formed
+  const frostByDay = predictFrostDelays(fc, sunriseFor(point.lat, point.lon, timeZone), await recentPromise);
+  const scored = scoreSeries(fc, { lat: point.lat, alerts, frost: frostByDay, profile, units, locale });
+  const round = projectRound(
+    scored.map((p) => ({ dt: p.dt, score: p.golf.score })),
+    { stepSec: fc.stepSec, startDt, holes, pace }
+  );
+
+  if (!round) {
+    return NextResponse.json({ error: "Tee time outside forecast range" }, { status: 400 });
+  }
+
+  // Sunrise and sunset on the round's local day at the course; null when the sun doesn't rise (or set) that day.
+  const startKey = localDateKey(startDt, timeZone);
+  const { sunrise, sunset } = solarDay(startKey, point.lat, point.lon);
+  const startsAfterSunrise = sunrise != null ? round.startDt >= sunrise : null;
+  const finishesBeforeSunset = sunset != null ? round.endDt <= sunset : null;
+
+  // The forecast step the round tees off in
+  const teeOff = scored.find((p) => p.dt <= round.startDt && round.startDt < p.dt + fc.stepSec) ?? null;
+
+  // Lightning window for the round's local day (30-minute rule on both sides).
+  const storm = stormTiming(
+    scored.filter((p) => localDateKey(p.dt, timeZone) === startKey).map((p) => ({ dt: p.dt, stormProb: p.stormProb })),
+    fc.stepSec
+  );
+  const stormHit = overlapsStorm(storm, round.startDt, round.endDt);
+
+  const frost = frostByDay.get(startKey) ?? null;
+  const frostHit = isFrostDelayed(frost, round.startDt);
+
+  const roundAlerts = alerts.filter((a) => a.start < round.endDt && a.end > round.startDt);
+  const alertHit = alertBlocks(roundAlerts, round.startDt, round.endDt);
+
+  // A round that runs past dark can't be better than YELLOW; one that runs into lightning
+  // (or a blocking alert, or a frost delay) is RED.
+  let verdict = verdictForScore(round.avgScore);
+  if (finishesBeforeSunset === false && verdict === "GREEN") verdict = "YELLOW";
+  if (alertHit || stormHit || frostHit) verdict = "RED";
+
+  const worst = round.worstStretch;
+  const reasonMessage = (() => {
+    if (alertHit) return msg("round.alert");
+    if (frostHit && frost) {
+      return frost.expectedClearDt != null
+        ? msg("round.frostUntil", { dt: frost.expectedClearDt })
+        : msg("round.frostAllDay");
+    }
+    if (stormHit && storm) return msg("round.lightning", { dt: storm.offCourseBy });
+    if (finishesBeforeSunset === false) return msg("round.afterSunset");
+    if (verdict === "GREEN") return msg("round.great");
+    if (worst && verdictForScore(worst.avgScore) === "RED") {
+      return msg("round.roughStretch", { fromHole: worst.fromHole, toHole: worst.toHole });
+    }
+    return verdict === "YELLOW" ? msg("golf.playable") : msg("golf.poor");
+  })();
+
+  return contractJson(teeTimeResponse, {
+    cachedAt: cache.cachedAt,
+    stale: cache.stale,
+    timeZone,
+    locale,
+    startDt: round.startDt,
+    startLabel: formatTime(round.startDt, timeZone, timeLocale),
+    endDt: round.endDt,
+    endLabel: formatTime(round.endDt, timeZone, timeLocale),
+    holes: round.holes,
+    pace: round.pace,
+    minutesPerHole: round.minutesPerHole,
+
+    segments: round.segments.map((s) => {
+      const holeLayout = layout?.holes.find((h) => h.hole === s.hole);
+      const at = holeLayout ? windAt(scored, (s.startDt + s.endDt) / 2) : null;
+      return {
+        ...s,
+        startLabel: formatTime(s.startDt, timeZone, timeLocale),
+        verdict: verdictForScore(s.score),
+        wind: holeLayout && at ? holeWindEffect(holeLayout, at, fc.elevationM) : null,
+      };
+    }),
+
+    layout: layout ? { name: layout.name, holes: layout.holes.length } : null,
+
+    teeOff: teeOff
+      ? {
+          temp: Math.round(teeOff.tempC),
+          windKph: Math.round(teeOff.windKph),
+          rainChancePct: Math.round(teeOff.pop * 100),
+          humidityPct: teeOff.humidityPct != null ? Math.round(teeOff.humidityPct) : null,
+          pressureHpa: teeOff.pressureHpa != null ? Math.round(teeOff.pressureHpa) : null,
+          conditions: teeOff.conditions,
+        }
+      : null,
+
+    worstStretch: worst
+      ? {
+          ...worst,
+          startLabel: formatTime(worst.startDt, timeZone, timeLocale),
+          endLabel: formatTime(worst.endDt, timeZone, timeLocale),
+        }
+      : null,
+
+    sunrise,
+    sunriseLabel: sunrise != null ? formatTime(sunrise, timeZone, timeLocale) : null,
+    startsAfterSunrise,
+    sunset,
+    sunsetLabel: sunset != null ? formatTime(sunset, timeZone, timeLocale) : null,
+    finishesBeforeSunset,
+
+    thunder: storm
+      ? {
+          firstStrikeDt: storm.firstStrikeDt,
+          firstStrikeLabel: formatTime(storm.firstStrikeDt, timeZone, timeLocale),
+          offCourseBy: storm.offCourseBy,
+          offCourseByLabel: formatTime(storm.offCourseBy, timeZone, timeLocale),
+          allClearDt: storm.allClearDt,
+          allClearLabel: formatTime(storm.allClearDt, timeZone, timeLocale),
+          peakProbPct: Math.round(storm.peakProb * 100),
+          affectsRound: stormHit,
+        }
+      : null,
+
+    frostDelay: frost?.likely
+      ? {
+          expectedClearDt: frost.expectedClearDt,
+          expectedClearLabel: frost.expectedClearDt != null ? formatTime(frost.expectedClearDt, timeZone, timeLocale) : null,
+          allDay: frost.allDay,
+          affectsRound: frostHit,
+        }
+      : null,
+
+    alerts: roundAlerts.map((a) => ({ title: a.title, severity: a.severity, start: a.start, end: a.end })),
+
+    golf: {
+      score: round.avgScore,
+      minScore: round.minScore,
+      verdict,
+      reason: t(locale, reasonMessage, { units, timeZone }),
+      reasonMessage,
+      // Deductions over the forecast hours the round overlaps
+      breakdown: rollupBreakdown(
+        scored.filter((p) => p.dt < round.endDt && p.dt + fc.stepSec > round.startDt).map((p) => p.golf)
+      ),
+    },
+  });
+}
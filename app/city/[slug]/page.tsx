@@ -1,7 +1,9 @@
 import type { Metadata } from "next";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
+import { localeFromAcceptLanguage, parseLocale, tm } from "@/lib/i18n";
 
-type Props = { params: Promise<{ slug: string }> };
+type Props = { params: Promise<{ slug: string }>; searchParams: Promise<{ lang?: string | string[] }> };
 
 function slugToName(slug: string): string {
   return slug
@@ -10,27 +12,36 @@ function slugToName(slug: string): string {
     .join(" ");
 }
 
-export async function generateMetadata({ params }: Props): Promise<Metadata> {
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
   const { slug } = await params;
+  const { lang } = await searchParams;
   const name = slugToName(slug);
+  // `?lang=fr` for shared links, else whatever the visitor's browser asks for.
+  const locale =
+    parseLocale(Array.isArray(lang) ? lang[0] : lang) ??
+    localeFromAcceptLanguage((await headers()).get("accept-language"));
+  const title = tm(locale, {}, "city.title", { name });
   return {
-    title: `Golf Weather in ${name}`,
-    description: `Can you golf in ${name} today? Instant conditions score (0–100) and the best 3-hour tee-time window for ${name}.`,
-    alternates: { canonical: `/city/${slug}` },
+    title,
+    description: tm(locale, {}, "city.description", { name }),
+    alternates: { canonical: `/city/${slug}`, languages: { en: `/city/${slug}?lang=en`, fr: `/city/${slug}?lang=fr` } },
     openGraph: {
-      title: `Golf Weather in ${name} | CanIGolfToday.com`,
-      description: `Instant golf forecast for ${name} — conditions scored 0–100 with the best tee-time window.`,
+      title: `${title} | CanIGolfToday.com`,
+      description: tm(locale, {}, "city.ogDescription", { name }),
       url: `/city/${slug}`,
+      locale: locale === "fr" ? "fr_CA" : "en_US",
     },
     twitter: {
-      title: `Golf Weather in ${name}`,
-      description: `Can you golf in ${name} today? Conditions scored 0–100.`,
+      title,
+      description: tm(locale, {}, "city.twitterDescription", { name }),
     },
   };
 }
 
-export default async function CityPage({ params }: Props) {
+export default async function CityPage({ params, searchParams }: Props) {
   const { slug } = await params;
+  const { lang } = await searchParams;
   if (!slug?.trim()) redirect("/");
-  redirect(`/?q=${encodeURIComponent(slug.trim())}`);
+  const locale = parseLocale(Array.isArray(lang) ? lang[0] : lang);
+  redirect(`/?q=${encodeURIComponent(slug.trim())}${locale ? `&lang=${locale}` : ""}`);
 }
@@ -2,10 +2,159 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
+import { VERDICT_THRESHOLDS, verdictForScore } from "@/lib/verdict";
+import type { Deduction, HardStop } from "@/lib/golfability";
+import { DEFAULT_PROFILE, parseTolerance, type GolferProfile } from "@/lib/profile";
+import { parseCourseLayout, type CourseLayout, type HoleWindEffect } from "@/lib/course";
+import { carryChange } from "@/lib/ballFlight";
+import type { RoutingProviderId } from "@/lib/routing";
+import { localHour } from "@/lib/timezone";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  msg,
+  parseLocale,
+  t,
+  tm,
+  type LoadSection,
+  type Locale,
+  type Message,
+} from "@/lib/i18n";
+import {
+  DEFAULT_UNITS,
+  UNIT_SYSTEMS,
+  formatDistance,
+  formatElevation,
+  formatPrecip,
+  formatTemp,
+  formatWind,
+  parseUnits,
+  tempIn,
+  unitsForLocale,
+  windIn,
+  type UnitSystem,
+} from "@/lib/units";
+import {
+  RateLimitedError,
+  compareResponse,
+  coursesResponse,
+  fetchContract,
+  resolveResponse,
+  simulatorsResponse,
+  suggestResponse,
+  teeTimeResponse,
+  weatherV2,
+  type CompareRow,
+  type Course,
+  type CourseDay,
+  type CoursesResponse,
+  type Prediction,
+  type SimulatorsResponse,
+  type TeeTimeResponse,
+  type WeatherV2,
+} from "@/lib/contracts";
+
+type Coords = { lat: number; lon: number; elevationM?: number | null };
+
+// Course elevation rides along with every forecast request so the API can lapse-rate correct it.
+function elevQuery(c: Coords) {
+  return c.elevationM != null ? `&elev=${Math.round(c.elevationM)}` : "";
+}
+
+const PROFILE_STORAGE_KEY = "golfProfile";
+const LAYOUT_STORAGE_KEY = "courseLayout";
+const CLUBS_STORAGE_KEY = "clubCarries";
+const UNITS_STORAGE_KEY = "golfUnits";
+const LOCALE_STORAGE_KEY = "golfLocale";
+
+// "Within N minutes' drive" choices for the course list (null = no limit)
+const DRIVE_OPTIONS = [null, 20, 30, 45, 60] as const;
+
+// /api/compare caps a request at six locations
+const COMPARE_MAX = 6;
+
+type Club = { name: string; carryYds: number };
+
+// Reference carries on a standard 20°C, sea-level, still-air day
+const DEFAULT_CLUBS: Club[] = [
+  { name: "Driver", carryYds: 250 },
+  { name: "7-iron", carryYds: 150 },
+  { name: "PW", carryYds: 120 },
+];
+
+// 16-point compass name for a "wind from" direction
+function compassDir(deg: number | null | undefined): string | null {
+  if (deg == null || !Number.isFinite(deg)) return null;
+  const names = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"];
+  return names[Math.round((((deg % 360) + 360) % 360) / 22.5) % 16];
+}
+
+function readStoredProfile(): GolferProfile | null {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(PROFILE_STORAGE_KEY) ?? "null");
+    if (!raw) return null;
+    return {
+      cold: parseTolerance(raw.cold) ?? DEFAULT_PROFILE.cold,
+      wind: parseTolerance(raw.wind) ?? DEFAULT_PROFILE.wind,
+      rain: parseTolerance(raw.rain) ?? DEFAULT_PROFILE.rain,
+      pace: raw.pace === "cart" ? "cart" : "walk",
+    };
+  } catch {
+    return null;
+  }
+}
+
+function profileQuery(p: GolferProfile) {
+  return `cold=${p.cold}&wind=${p.wind}&rain=${p.rain}&pace=${p.pace}`;
+}
+
+const UNIT_LABELS: Record<UnitSystem, string> = { metric: "°C · km/h", imperial: "°F · mph", mixed: "°C · mph" };
+
+// Saved choice first, else whatever the browser's locale suggests ("en-US" -> imperial).
+function readStoredUnits(): UnitSystem {
+  try {
+    const saved = parseUnits(window.localStorage.getItem(UNITS_STORAGE_KEY));
+    if (saved) return saved;
+  } catch {
+    // private mode etc.
+  }
+  return unitsForLocale(navigator.language);
+}
+
+const LOCALE_LABELS: Record<Locale, string> = { en: "English", fr: "Français" };
+
+// ?lang= (shared links) first, then the saved choice, then the browser's languages.
+function readStoredLocale(): Locale {
+  const fromUrl = parseLocale(new URLSearchParams(window.location.search).get("lang"));
+  if (fromUrl) return fromUrl;
+  try {
+    const saved = parseLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY));
+    if (saved) return saved;
+  } catch {
+    // private mode etc.
+  }
+  for (const l of navigator.languages ?? [navigator.language]) {
+    const parsed = parseLocale(l);
+    if (parsed) return parsed;
+  }
+  return DEFAULT_LOCALE;
+}
 
-type Coords = { lat: number; lon: number };
-type Prediction = { kind: "city" | "course"; placeId: string; description: string };
+// Compact wind for tight spots: "25k" / "16mph"
+function windShort(kph: number, units: UnitSystem) {
+  const w = windIn(kph, units);
+  return units === "metric" ? `${w.value}k` : `${w.value}${w.unit}`;
+}
 
+// Being throttled is the golfer's cue to wait, not a broken page.
+function loadError(section: LoadSection, e: unknown): Message {
+  if (e instanceof RateLimitedError) {
+    return e.retryAfterSec != null
+      ? msg("load.rateLimitedIn", { section, sec: e.retryAfterSec })
+      : msg("load.rateLimited", { section });
+  }
+  return msg("load.failed", { section });
+}
 
 function verdictStyles(verdict?: string) {
   if (verdict === "GREEN") return { dot: "🟢", pill: "bg-emerald-600", ring: "ring-emerald-200" };
@@ -13,32 +162,30 @@ function verdictStyles(verdict?: string) {
   return { dot: "🔴", pill: "bg-rose-600", ring: "ring-rose-200" };
 }
 
-// Semantic color for greens/rollout badges
-// "Quick" / "High" rollout = good for firm, fast conditions = neutral/amber (informational, not bad)
-// "Slow" / "Low" rollout = soft/wet = blue-ish neutral
-function groundBadgeStyle(label: string | null): React.CSSProperties {
-  if (!label) return { background: "rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.7)" };
-  const l = label.toLowerCase();
-  if (l.includes("quick") || l.includes("fast")) 
+// Semantic color for ground badges, keyed on the server's ground key
+// QUICK greens / HIGH rollout / FIRM = firm, fast conditions = amber (informational, not bad)
+// SLOW greens / LOW rollout / SOFT = soft/wet = blue-ish neutral
+// Cart path only: LIKELY = rose (it changes the round), POSSIBLE = amber
+function groundBadgeStyle(key: string | null | undefined): React.CSSProperties {
+  if (key === "LIKELY") return { background: "rgba(244,63,94,0.2)", color: "rgb(253,164,175)" };
+  if (key === "QUICK" || key === "HIGH" || key === "FIRM" || key === "POSSIBLE")
     return { background: "rgba(245,158,11,0.2)", color: "rgb(252,211,77)" };
-  if (l.includes("slow"))  
-    return { background: "rgba(14,165,233,0.2)", color: "rgb(125,211,252)" };
-  if (l.includes("high"))  
-    return { background: "rgba(245,158,11,0.2)", color: "rgb(252,211,77)" };
-  if (l.includes("low"))   
-    return { background: "rgba(14,165,233,0.2)", color: "rgb(125,211,252)" };
+  if (key === "SLOW" || key === "LOW" || key === "SOFT") return { background: "rgba(14,165,233,0.2)", color: "rgb(125,211,252)" };
   return { background: "rgba(255,255,255,0.1)", color: "rgba(255,255,255,0.7)" };
 }
 
-// Extract just the text word from a label like "Quick" stripping any leading emoji/dots
-function cleanGroundLabel(label: string | null): string {
-  if (!label) return "";
-  return label
-    .replace(/^Greens speed:\s*/i, "")
-    .replace(/^Fairway rollout:\s*/i, "")
-    .replace(/\p{Emoji}/gu, "")
-    .replace(/[●•·\s]+/g, " ")
-    .trim();
+// Badge word for a greens/rollout key ("Quick", "Rapides")
+function groundWord(
+  locale: Locale,
+  ground: { greensSpeed?: { key?: string }; fairwayRollout?: { key?: string } } | null | undefined,
+  kind: "greens" | "rollout"
+): string | null {
+  if (kind === "greens") {
+    const key = ground?.greensSpeed?.key;
+    return key === "SLOW" || key === "MEDIUM" || key === "QUICK" ? t(locale, `ground.greens.${key}`) : null;
+  }
+  const key = ground?.fairwayRollout?.key;
+  return key === "LOW" || key === "MEDIUM" || key === "HIGH" ? t(locale, `ground.rollout.${key}`) : null;
 }
 
 function Chip({ children }: { children: React.ReactNode }) {
@@ -49,6 +196,38 @@ function Chip({ children }: { children: React.ReactNode }) {
   );
 }
 
+/* ---------- Score breakdown chips (from the scorer's own deductions) ---------- */
+function deductionLabel(d: Deduction, units: UnitSystem, locale: Locale): string {
+  const ctx = { units };
+  switch (d.factor) {
+    case "rainChance":
+      return tm(locale, ctx, "chip.rainChance", { pct: Math.round(d.input) });
+    case "rainAmount":
+      return tm(locale, ctx, "chip.rainAmount", { mm: d.input });
+    case "storms":
+      return tm(locale, ctx, "chip.storms", { pct: Math.round(d.input) });
+    case "wind":
+      return tm(locale, ctx, "chip.wind", { kph: d.input });
+    case "cold":
+      return tm(locale, ctx, "chip.cold", { c: d.input });
+    case "heat":
+      return d.unit === "WBGT °C"
+        ? tm(locale, ctx, "chip.heatStress", { wbgt: d.input })
+        : tm(locale, ctx, "chip.hot", { c: d.input });
+    case "uv":
+      return tm(locale, ctx, "chip.uv", { uv: Math.round(d.input) });
+    default:
+      return d.band;
+  }
+}
+
+const HARD_STOP_FACTORS = ["alert", "frost", "thunderstorm", "extremeCold", "snow", "winter"] as const;
+
+function hardStopLabel(h: HardStop, locale: Locale): string {
+  const factor = HARD_STOP_FACTORS.find((f) => f === h.factor);
+  return factor ? t(locale, `chip.stop.${factor}`) : h.reason;
+}
+
 /* ---------- Greens firmness (today-only, v1.2-ish signal) ---------- */
 function getNum(v: any): number | null {
   const n = typeof v === "number" ? v : Number(v);
@@ -89,169 +268,74 @@ function asTimeLabel(v: any): string | null {
 }
 
 
-/* ---------- Yardage estimate (carry change) ---------- */
-function estimateCarryChangeYards({
-  tempC,
-  verdict,
-}: {
-  tempC?: number | null;
-  verdict?: "GREEN" | "YELLOW" | "RED" | string | null;
-}): { minYds: number; maxYds: number } | null {
-  // Don't show on RED days
-  if (verdict === "RED") return null;
-
-  const BASE_TEMP_C = 20;
-  if (tempC == null) return null;
-
-  const deltaC = tempC - BASE_TEMP_C;
-
-  // Simple, golfer-friendly rule of thumb:
-  // ~1–2 yards per 5°C change in temperature (carry estimate).
-  const a = (deltaC / 5) * 1;
-  const b = (deltaC / 5) * 2;
+/** v1.1: Courses — curate the list (less is more) */
+function scoreCourse(c: Course) {
+  // Higher is better
+  const rating = c.rating ?? 0;
+  const ratingsCount = c.userRatingsTotal ?? 0;
 
-  const r = (n: number) => Math.round(n);
-  const minYds = r(Math.min(a, b));
-  const maxYds = r(Math.max(a, b));
+  // Prefer open-now slightly
+  const openBoost = c.openNow === true ? 20 : c.openNow === false ? -10 : 0;
 
-  // Hide tiny/noisy changes
-  if (Math.max(Math.abs(minYds), Math.abs(maxYds)) < 2) return null;
+  // Weak signal: more ratings = more trustworthy, capped
+  const countBoost = Math.min(10, Math.floor(ratingsCount / 50)); // caps at +10
 
-  return { minYds, maxYds };
+  return rating * 10 + countBoost + openBoost;
 }
 
-function computeGreensFirmness(weather: any) {
-  const d0 = weather?.daily?.[0] ?? null;
-  const d1 = weather?.daily?.[1] ?? null;
-  const d2 = weather?.daily?.[2] ?? null;
-
-  // --- Wet load (how much water is likely sitting in the surface/upper profile) ---
-  // Providers vary in naming, so we defensively try a few.
-  const p0 =
-    getNum(d0?.precipMm) ??
-    getNum(d0?.precipTotal) ??
-    getNum(d0?.rainMm) ??
-    getNum(d0?.precip) ??
-    0;
-
-  const p1 =
-    getNum(d1?.precipMm) ??
-    getNum(d1?.precipTotal) ??
-    getNum(d1?.rainMm) ??
-    getNum(d1?.precip) ??
-    0;
-
-  const p2 =
-    getNum(d2?.precipMm) ??
-    getNum(d2?.precipTotal) ??
-    getNum(d2?.rainMm) ??
-    getNum(d2?.precip) ??
-    0;
-
-  // Weighted: today matters most, tomorrow matters some (ongoing wetness),
-  // day+2 is a light signal.
-  const wetLoadMm = p0 + 0.5 * p1 + 0.25 * p2;
-
-  // --- Drying power (sun/heat proxy + wind proxy) ---
-  const nightLow =
-    getNum(d0?.minTempC) ??
-    getNum(d0?.tempMinC) ??
-    getNum(d0?.minTemp) ??
-    getNum(d0?.tempMin) ??
-    null;
-
-  const dayHigh =
-    getNum(d0?.maxTempC) ??
-    getNum(d0?.tempMaxC) ??
-    getNum(d0?.maxTemp) ??
-    getNum(d0?.tempMax) ??
-    null;
-
-  const windKph =
-    getNum(weather?.current?.windKph) ??
-    getNum(d0?.windKph) ??
-    getNum(d0?.windMaxKph) ??
-    getNum(d0?.windMax) ??
-    null;
-
-  // Heat drying: 0 at 10C, ramps to ~1 at 20C, ~1.5 at 28C+
-  const heatDry =
-    dayHigh == null ? 0 : Math.max(0, Math.min(1.5, (dayHigh - 10) / 12));
-  // Wind drying: 0 at 5kph, ramps to ~1 at 25kph+
-  const windDry =
-    windKph == null ? 0 : Math.max(0, Math.min(1.0, (windKph - 5) / 20));
-  const dryingPower = heatDry + windDry;
-
-  // Cold/clammy mornings stay softer longer (dew + slow evap)
-  const coldPenalty = nightLow != null && nightLow <= 3 ? 0.5 : 0;
-
-  // Softness index: higher = softer, lower = firmer
-  // Scale wet load so ~10mm feels meaningfully soft unless dryingPower is high.
-  const softnessIndex = wetLoadMm / 6 + coldPenalty - dryingPower;
-
-  // Edge case: near/below freezing tends to be firm/frozen early.
-  if (dayHigh != null && nightLow != null && nightLow <= -1 && dayHigh <= 2) {
-    return {
-      key: "FIRM",
-      label: "Greens: 🔴 Firm",
-      detail: "Cold/frozen surfaces possible early (check for frost delays)",
-    };
-  }
+type CourseRank = "conditions" | "rating";
 
-  if (softnessIndex >= 2.0) {
-    return {
-      key: "SOFT",
-      label: "Greens: 🟢 Soft",
-      detail: "Approaches should hold (more moisture)",
-    };
-  }
-  if (softnessIndex <= 0.4) {
-    return {
-      key: "FIRM",
-      label: "Greens: 🔴 Firm",
-      detail: "Some bounce & rollout — plan for release",
-    };
-  }
-  return {
-    key: "NORMAL",
-    label: "Greens: 🟡 Normal",
-    detail: "Typical bounce & rollout",
-  };
+// The course's own forecast for a day, when /api/courses managed to score it
+function courseDay(c: Course, dateKey: string | null | undefined): CourseDay | null {
+  if (!dateKey || !c.days) return null;
+  return c.days.find((d) => d.dateKey === dateKey) ?? null;
 }
 
-/** v1.1: Courses — curate the list (less is more) */
-function scoreCourse(c: any) {
-  // Higher is better
-  const rating = typeof c?.rating === "number" ? c.rating : 0;
-  const ratingsCount = typeof c?.userRatingsTotal === "number" ? c.userRatingsTotal : 0;
-
-  // Prefer open-now slightly
-  const openBoost = c?.openNow === true ? 20 : c?.openNow === false ? -10 : 0;
+/** Conditions first, then a short drive, then reputation — the course worth playing that day. */
+function conditionsCourseScore(c: Course, dateKey: string | null | undefined) {
+  const weather = courseDay(c, dateKey)?.score ?? 0;
 
-  // Weak signal: more ratings = more trustworthy, capped
-  const countBoost = Math.min(10, Math.floor(ratingsCount / 50)); // caps at +10
+  // −1 per 3 min of driving (or 2 km as the crow flies), capped so a great day an hour away
+  // still beats a washout next door
+  const drive =
+    c.driveMin != null ? Math.min(20, c.driveMin / 3) : c.distanceKm != null ? Math.min(20, c.distanceKm / 2) : 0;
 
-  return rating * 10 + countBoost + openBoost;
+  // Rating/open-now on roughly a 0–25 scale
+  return weather - drive + scoreCourse(c) / 3;
 }
 
-function pickTopCourses(all: any[], limit = 4) {
+function pickTopCourses(all: Course[], limit = 4, mode: CourseRank = "rating", dateKey?: string | null) {
+  const rank = (c: Course) => (mode === "conditions" ? conditionsCourseScore(c, dateKey) : scoreCourse(c));
   return [...all]
-    .filter((c) => c?.mapsUrl) // only actionable
-    .sort((a, b) => scoreCourse(b) - scoreCourse(a))
+    .filter((c) => c.mapsUrl) // only actionable
+    .sort((a, b) => rank(b) - rank(a))
     .slice(0, limit);
 }
 
-function CourseCard({ c }: { c: any }) {
+function CourseCard({
+  c,
+  day,
+  estimated,
+  units,
+  locale,
+}: {
+  c: Course;
+  day?: CourseDay | null;
+  estimated?: boolean;
+  units: UnitSystem;
+  locale: Locale;
+}) {
   const ratingText =
-    typeof c?.rating === "number"
-      ? `⭐ ${c.rating.toFixed(1)}${c?.userRatingsTotal ? ` (${c.userRatingsTotal})` : ""}`
-      : "No rating yet";
+    c.rating != null
+      ? `⭐ ${c.rating.toFixed(1)}${c.userRatingsTotal ? ` (${c.userRatingsTotal})` : ""}`
+      : t(locale, "course.noRating");
 
-  const openText = c?.openNow === true ? "Open now" : c?.openNow === false ? "Closed" : null;
+  const openText =
+    c.openNow === true ? t(locale, "course.openNow") : c.openNow === false ? t(locale, "course.closed") : null;
 
   return (
     <a
-      href={c.mapsUrl || "#"}
+      href={c.mapsUrl ?? "#"}
       target="_blank"
       rel="noreferrer"
       className="group rounded-3xl border border-white/10 bg-white/5 p-5 transition hover:bg-white/10"
@@ -271,16 +355,42 @@ function CourseCard({ c }: { c: any }) {
                   {openText}
                 </span>
               )}
+
+              {day && (
+                <span className="rounded-full bg-white/10 px-2.5 py-1 text-xs text-white/80">
+                  {verdictStyles(day.verdict).dot} {day.score}
+                  {day.bestWindow?.startLabel ? ` · ${tm(locale, {}, "course.best", { time: day.bestWindow.startLabel })}` : ""}
+                </span>
+              )}
+
+              {c.driveMin != null ? (
+                <span className="rounded-full bg-white/10 px-2.5 py-1 text-xs text-white/70">
+                  🚗 {estimated ? "~" : ""}
+                  {tm(locale, {}, "course.driveMin", { min: c.driveMin })}
+                </span>
+              ) : (
+                c.distanceKm != null && (
+                  <span className="rounded-full bg-white/10 px-2.5 py-1 text-xs text-white/70">
+                    {formatDistance(c.distanceKm, units)}
+                  </span>
+                )
+              )}
+
+              {c.elevationM != null && (
+                <span className="rounded-full bg-white/10 px-2.5 py-1 text-xs text-white/70">
+                  ⛰ {formatElevation(c.elevationM, units)}
+                </span>
+              )}
             </div>
           </div>
 
           {c.address && <div className="mt-2 line-clamp-2 text-sm text-white/65">{c.address}</div>}
 
-          <div className="mt-4 text-sm text-white/70">Tap to open directions</div>
+          <div className="mt-4 text-sm text-white/70">{t(locale, "course.tapDirections")}</div>
         </div>
 
         <div className="rounded-2xl bg-white/10 px-3 py-2 text-xs font-semibold text-white/80 group-hover:bg-white/15">
-          Maps →
+          {t(locale, "course.maps")}
         </div>
       </div>
     </a>
@@ -289,12 +399,17 @@ function CourseCard({ c }: { c: any }) {
 
 export default function HomePage() {
   const [coords, setCoords] = useState<Coords | null>(null);
-  const [geoErr, setGeoErr] = useState<string | null>(null);
+  const [geoErr, setGeoErr] = useState<Message | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const [weather, setWeather] = useState<any>(null);
-  const [courses, setCourses] = useState<any>(null);
-  const [simulators, setSimulators] = useState<any>(null);
+  const [weather, setWeather] = useState<WeatherV2 | null>(null);
+  const [courses, setCourses] = useState<CoursesResponse | null>(null);
+  const [simulators, setSimulators] = useState<SimulatorsResponse | null>(null);
+  // Sections that load independently; one failing leaves the others on screen. `location` is the search box.
+  const [loadErrs, setLoadErrs] = useState<Partial<Record<LoadSection, Message>>>({});
+  const loadFailed = (section: LoadSection, e: unknown) =>
+    setLoadErrs((errs) => ({ ...errs, [section]: loadError(section, e) }));
+  const loadOk = (section: LoadSection) => setLoadErrs((errs) => ({ ...errs, [section]: undefined }));
 
   // City search
   const [cityQuery, setCityQuery] = useState("");
@@ -309,9 +424,73 @@ export default function HomePage() {
   // Optional tee time ("HH:MM")
   const [teeTime, setTeeTime] = useState<string>("");
 
+  // Round length for the best-window search (9 holes ≈ 2h, 18 holes ≈ 4.5h)
+  const [holes, setHoles] = useState<9 | 18>(18);
+
+  // Golfer profile (cold / wind / rain tolerance, walking vs riding), kept in local storage
+  const [profile, setProfile] = useState<GolferProfile>(DEFAULT_PROFILE);
+  const pace = profile.pace;
+
+  // Display units (metric / imperial / mixed), from local storage or the browser locale
+  const [units, setUnits] = useState<UnitSystem>(DEFAULT_UNITS);
+
+  // Language for reasons, chips and labels; sent to the API as ?lang= so its strings match
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Reference carry per club for the "plays like" table, kept in local storage
+  const [clubs, setClubs] = useState<Club[]>(DEFAULT_CLUBS);
+  const [editingClubs, setEditingClubs] = useState(false);
+
+  // Optional course layout (tee/green coordinates per hole) for hole-by-hole wind
+  const [courseLayout, setCourseLayout] = useState<CourseLayout | null>(null);
+  const [layoutErr, setLayoutErr] = useState<Message | null>(null);
+
+  useEffect(() => {
+    const stored = readStoredProfile();
+    if (stored) setProfile(stored);
+    setUnits(readStoredUnits());
+    setLocale(readStoredLocale());
+    try {
+      const saved = JSON.parse(window.localStorage.getItem(CLUBS_STORAGE_KEY) ?? "null");
+      if (Array.isArray(saved) && saved.every((c) => typeof c?.name === "string" && Number.isFinite(c?.carryYds))) {
+        setClubs(saved);
+      }
+    } catch {
+      // ignore a corrupt saved bag
+    }
+    try {
+      const layout = parseCourseLayout(JSON.parse(window.localStorage.getItem(LAYOUT_STORAGE_KEY) ?? "null"));
+      if (layout) setCourseLayout(layout);
+    } catch {
+      // ignore a corrupt saved layout
+    }
+  }, []);
+
+  // Server-side projection of the round from the chosen tee time (/api/teetime)
+  const [teeRound, setTeeRound] = useState<TeeTimeResponse | null>(null);
+
   // v1.1: “Show all courses” toggle
   const [showAllCourses, setShowAllCourses] = useState(false);
 
+  // Only list courses within this many minutes' drive (null = nearest, no limit)
+  const [maxDrive, setMaxDrive] = useState<number | null>(null);
+
+  // Rank nearby courses by that day's conditions (+ distance, rating) or by rating alone
+  const [courseRank, setCourseRank] = useState<CourseRank>("conditions");
+
+  // Side-by-side comparison of nearby courses for the selected day (/api/compare)
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{
+    dayLabel: string;
+    routing: RoutingProviderId | null;
+    rows: (CompareRow & { course: Course | null })[];
+  } | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [compareErr, setCompareErr] = useState<Message | null>(null);
+
   // One-time query param bootstrap (supports landing pages like /city/toronto)
   const didBootstrapFromQuery = useRef(false);
 
@@ -329,94 +508,87 @@ export default function HomePage() {
 
     (async () => {
       try {
-        const sres = await fetch(`/api/location/suggest?q=${encodeURIComponent(label)}`);
-        const sdata = await sres.json();
-        const preds = Array.isArray(sdata?.predictions) ? sdata.predictions : [];
-        const first = preds[0];
-        if (!first?.placeId) return;
-
-        const rres = await fetch(`/api/location/resolve?placeId=${encodeURIComponent(first.placeId)}`);
-        const rdata = await rres.json();
-        if (rdata?.coords?.lat && rdata?.coords?.lon) {
-          setCoords({ lat: rdata.coords.lat, lon: rdata.coords.lon });
-          if (rdata?.label) setCityQuery(rdata.label);
-          setSelectedDay(0);
-        }
+        const { predictions } = await fetchContract(
+          `/api/location/suggest?q=${encodeURIComponent(label)}&lang=${locale}`,
+          suggestResponse
+        );
+        const first = predictions[0];
+        if (!first) return;
+
+        const place = await fetchContract(`/api/location/resolve?placeId=${encodeURIComponent(first.placeId)}`, resolveResponse);
+        setCoords({ lat: place.lat, lon: place.lon });
+        if (place.address) setCityQuery(place.address);
+        setSelectedDay(0);
       } catch {
         // silent
       }
     })();
-  }, [cityQuery]);
+  }, [cityQuery, locale]);
 
   const selectedDaily = useMemo(() => weather?.daily?.[selectedDay] ?? null, [weather, selectedDay]);
 
-  const teeTimeResult = useMemo(() => {
-    if (!teeTime || !selectedDaily?.blocks) return null;
-
-    const [hh, mm] = teeTime.split(":").map((n) => Number(n));
-    if (!Number.isFinite(hh) || !Number.isFinite(mm)) return null;
-
-    const targetMinutes = hh * 60 + mm;
-    const blocks = selectedDaily.blocks as any[];
+  // Course IANA zone: tee times, windows and sunsets are all read on the course's clock, not the viewer's.
+  const timeZone = weather?.timeZone ?? "UTC";
 
-    let best: any = null;
-    let bestDelta = Infinity;
+  useEffect(() => {
+    // Drop the last projection as soon as any input changes, so it can't merge into another day or tee time.
+    setTeeRound(null);
+    const dateKey = selectedDaily?.dateKey;
+    if (!teeTime || !coords || !dateKey) return;
 
-    for (const b of blocks) {
-      const d = new Date(b.dt * 1000);
-      const m = d.getHours() * 60 + d.getMinutes();
-      const delta = Math.abs(m - targetMinutes);
-      if (delta < bestDelta) {
-        bestDelta = delta;
-        best = b;
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        // No UTC offset on `start`: the API reads it as local time at the course.
+        const start = `${dateKey}T${teeTime}`;
+        const url = `/api/teetime?lat=${coords.lat}&lon=${coords.lon}${elevQuery(coords)}&start=${encodeURIComponent(start)}&holes=${holes}&${profileQuery(profile)}&units=${units}&lang=${locale}`;
+        const round = await fetchContract(
+          url,
+          teeTimeResponse,
+          courseLayout
+            ? { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ layout: courseLayout }) }
+            : undefined
+        );
+        if (!cancelled) setTeeRound(round);
+      } catch {
+        if (!cancelled) setTeeRound(null);
       }
-    }
+    }, 300);
 
-    if (!best) return null;
-
-    return {
-      ...best,
-      deltaMinutes: bestDelta,
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
     };
-  }, [teeTime, selectedDaily]);
+  }, [teeTime, coords, selectedDaily?.dateKey, holes, profile, units, locale, courseLayout]);
+
+  // Hole-by-hole plays-long/short from the uploaded layout (only when the round came back with it)
+  const holeWinds = useMemo(
+    (): HoleWindEffect[] => (teeRound?.segments ?? []).flatMap((s) => (s.wind ? [s.wind] : [])),
+    [teeRound]
+  );
 
-  // Validate tee time against golfing hours and sunset
+  // Warn when the projected round tees off before sunrise or finishes after sunset
   const teeTimeWarning = useMemo(() => {
-    if (!teeTime) return null;
-    const [hh, mm] = teeTime.split(":").map((n) => Number(n));
-    if (!Number.isFinite(hh) || !Number.isFinite(mm)) return null;
-
-    // Check golfing hours (6am-3pm is typical)
-    if (hh < 6) return "⚠️ Before typical course hours (6am)";
-    if (hh >= 15) return "⚠️ Late tee time — may finish after dark";
-
-    // Check against sunset for today
-    if (selectedDay === 0 && weather?.daylight?.sunset) {
-      const sunsetDate = new Date(weather.daylight.sunset * 1000);
-      const sunsetHour = sunsetDate.getHours();
-      const sunsetMin = sunsetDate.getMinutes();
-      const teeMin = hh * 60 + mm;
-      const sunsetTotalMin = sunsetHour * 60 + sunsetMin;
-      
-      // Warn if tee time is within 3 hours of sunset (typical round length)
-      if (teeMin > sunsetTotalMin - 180) {
-        return `⚠️ Less than 3 hours before sunset (${sunsetDate.toLocaleTimeString([], {hour: 'numeric', minute: '2-digit'})})`;
-      }
+    if (!teeRound) return null;
+    if (teeRound.startsAfterSunrise === false && teeRound.sunrise != null) {
+      return tm(locale, { timeZone }, "teeTime.early", { sunrise: teeRound.sunrise });
+    }
+    if (teeRound.finishesBeforeSunset === false && teeRound.sunset != null) {
+      return tm(locale, { timeZone }, "teeTime.late", { end: teeRound.endDt, sunset: teeRound.sunset });
     }
-
     return null;
-  }, [teeTime, selectedDay, weather?.daylight?.sunset]);
+  }, [teeRound, timeZone, locale]);
 
   const showVerdict =
-    teeTimeResult?.verdict ?? selectedDaily?.golf?.verdict ?? weather?.golf?.verdict ?? null;
+    teeRound?.golf.verdict ?? selectedDaily?.golf?.verdict ?? weather?.golf?.verdict ?? null;
 
   const verdictLabel = useMemo(() => {
     const v = showVerdict;
     if (!v) return null;
-    if (v === "GREEN") return "Green light";
-    if (v === "YELLOW") return "Playable";
-    return "Not golfable";
-  }, [showVerdict]);
+    if (v === "GREEN") return t(locale, "verdict.GREEN");
+    if (v === "YELLOW") return t(locale, "verdict.YELLOW");
+    return t(locale, "verdict.RED");
+  }, [showVerdict, locale]);
 
   // --- Share summary ---
   const [copied, setCopied] = useState(false);
@@ -430,391 +602,100 @@ export default function HomePage() {
     if (selectedDay === 0) {
       const w = weather?.current?.windKph;
       const g = weather?.current?.gustKph;
+      const dir = compassDir(weather?.current?.windDeg);
       if (w == null) return null;
-      return `${w} km/h${g != null ? ` (gust ${g})` : ""}`;
+      return `${dir ? `${dir} ` : ""}${formatWind(w, units)}${g != null ? ` ${tm(locale, { units }, "wind.gust", { kph: g })}` : ""}`;
     }
-    const w = selectedDaily?.windMax ?? selectedDaily?.windKph ?? null;
-    const g = selectedDaily?.gustMax ?? selectedDaily?.gustKph ?? null;
+    const w = selectedDaily?.windMax ?? null;
+    const g = selectedDaily?.gustMax ?? null;
     if (w == null) return null;
-    return `${w} km/h${g != null ? ` (gust ${g})` : ""}`;
-  }, [selectedDay, selectedDaily, weather]);
-
-  const greensBadgeText = useMemo(() => {
-    const g = selectedDay === 0 ? weather?.ground?.greensSpeed?.label : selectedDaily?.ground?.greensSpeed?.label;
-    return g ? String(g).replace(/^Greens speed:\s*/i, "") : null;
-  }, [selectedDay, selectedDaily, weather]);
-
-  const rolloutBadgeText = useMemo(() => {
-    const r = selectedDay === 0 ? weather?.ground?.fairwayRollout?.label : selectedDaily?.ground?.fairwayRollout?.label;
-    return r ? String(r).replace(/^Fairway rollout:\s*/i, "") : null;
-  }, [selectedDay, selectedDaily, weather]);
-
-  // Infer timezone offset — shared by bestWindowText and playOut.
-  // API sometimes omits tzOffsetSec; derive from bestWindow startDt + startLabel when missing.
-  const inferredTzOffsetSec = useMemo(() => {
-    if (typeof weather?.tzOffsetSec === "number") return weather.tzOffsetSec;
-    const bw = weather?.bestTime?.bestWindow ?? weather?.daily?.[0]?.bestWindow ?? null;
-    if (bw?.startDt && bw?.startLabel) {
-      const match = String(bw.startLabel).match(/(\d+):(\d+)\s*(a\.?m\.?|p\.?m\.?)/i);
-      if (match) {
-        let h = parseInt(match[1]);
-        const m = parseInt(match[2]);
-        const ampm = match[3].toLowerCase().replace(/\./g, '');
-        if (ampm === 'pm' && h !== 12) h += 12;
-        if (ampm === 'am' && h === 12) h = 0;
-        const localSecs = h * 3600 + m * 60;
-        const utcSecs = bw.startDt % (24 * 3600);
-        let offset = localSecs - utcSecs;
-        while (offset > 43200) offset -= 86400;
-        while (offset < -43200) offset += 86400;
-        return offset;
-      }
-    }
-    return 0;
-  }, [weather]);
-
-  const bestWindowText = useMemo(() => {
-  const tzOffsetSec = inferredTzOffsetSec;
-
-  // Format a unix dt in the destination/course timezone (not the viewer's browser timezone).
-  const fmt = (dtSec: number) =>
-    new Date((dtSec + tzOffsetSec) * 1000).toLocaleTimeString([], {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-      timeZone: "UTC",
-    });
-
-  const isToday = selectedDay === 0;
-
-  // Resolve blocks for the chosen day.
-  let rawBlocks: any = isToday 
-    ? (weather?.bestTime?.byTime ?? weather?.bestTime?.blocks ?? weather?.bestTime?.byHour ?? weather?.bestTime?.bestBlock ?? null) 
-    : (selectedDaily?.blocks ?? null);
-  if (rawBlocks && !Array.isArray(rawBlocks) && typeof rawBlocks === "object") rawBlocks = Object.values(rawBlocks);
-  const blocks: any[] = Array.isArray(rawBlocks) ? rawBlocks : [];
-
-  // Sunrise/sunset bounds for TODAY (destination).
-  const sunriseDt = isToday && typeof weather?.daylight?.sunrise === "number" ? weather.daylight.sunrise : null;
-  const sunsetDt = isToday && typeof weather?.daylight?.sunset === "number" ? weather.daylight.sunset : null;
-
-  const daylightStart = sunriseDt != null ? sunriseDt + 60 * 60 : null; // 1h after sunrise
-  const latestStart = sunsetDt != null ? sunsetDt - 3 * 60 * 60 : null;   // so 3h window ends by sunset
-
-  // Extract bestWindow from API (schema-tolerant).
-  const apiBw: any = isToday ? (weather?.bestTime?.bestWindow ?? null) : (selectedDaily?.bestWindow ?? null);
-
-  const labelStart: string | null =
-    (typeof apiBw?.startLabel === "string" ? apiBw.startLabel : null) ??
-    (typeof apiBw?.start === "string" ? apiBw.start : null) ??
-    null;
-
-  const labelEnd: string | null =
-    (typeof apiBw?.endLabel === "string" ? apiBw.endLabel : null) ??
-    (typeof apiBw?.end === "string" ? apiBw.end : null) ??
-    null;
-
-  const startDtFromApi: number | null =
-    (typeof apiBw?.startDt === "number" ? apiBw.startDt : null) ??
-    (typeof apiBw?.start === "number" ? apiBw.start : null) ??
-    null;
-
-  const endDtFromApi: number | null =
-    (typeof apiBw?.endDt === "number" ? apiBw.endDt : null) ??
-    (typeof apiBw?.end === "number" ? apiBw.end : null) ??
-    null;
-
-  const avgFromApi: number | null =
-    typeof apiBw?.avgScore === "number" ? apiBw.avgScore : (typeof apiBw?.avg === "number" ? apiBw.avg : null);
-
-  // Helper: validate a candidate start dt against golfing hours + daylight.
-  const isValidStart = (dt: number) => {
-    const hr = new Date((dt + tzOffsetSec) * 1000).getUTCHours();
-    
-    // Apply golfing hours check for ALL days (6am-3pm in destination timezone)
-    if (hr < 6 || hr > 15) {
-      return false;
-    }
-    
-    // Apply daylight and sunset checks only for today (since we have that data)
-    if (isToday) {
-      // Check if dt and the daylight bounds are actually on the same day
-      const dtDayInDestination = Math.floor((dt + tzOffsetSec) / (24 * 60 * 60));
-      const sunsetDayInDestination = sunsetDt != null ? Math.floor((sunsetDt + tzOffsetSec) / (24 * 60 * 60)) : null;
-      
-      // Only apply sunset check if they're on the same day
-      if (sunsetDt != null && sunsetDayInDestination === dtDayInDestination && dt >= sunsetDt) {
-        return false;
-      }
-      
-      if (daylightStart != null) {
-        const daylightStartDay = Math.floor((daylightStart + tzOffsetSec) / (24 * 60 * 60));
-        if (daylightStartDay === dtDayInDestination && dt < daylightStart) {
-          return false;
-        }
-      }
-    }
-    
-    return true;
-  };
-
-  // 1) Try to resolve startDt/endDt from API window.
-  let startDt: number | null = startDtFromApi;
-  if (startDt == null && labelStart && blocks.length > 0) {
-    const b = blocks.find((x: any) => typeof x?.dt === "number" && (x?.label === labelStart));
-    if (typeof b?.dt === "number") startDt = b.dt;
-  }
-
-  let endDt: number | null = endDtFromApi;
-  if (startDt != null && endDt == null) endDt = startDt + 3 * 60 * 60;
-
-  // 2) If missing or invalid, derive from blocks using destination sunrise/sunset + golfing hours.
-  if ((startDt == null || !isValidStart(startDt)) && blocks.length > 0) {
-    const pool = blocks
-      .filter((b: any) => typeof b?.dt === "number" && typeof b?.score === "number")
-      .filter((b: any) => b?.inDaylight !== false)
-      .filter((b: any) => isValidStart(b.dt));
-
-    const best = pool.reduce((acc: any, b: any) => (!acc || b.score > acc.score ? b : acc), null);
-
-    if (best && typeof best.dt === "number") {
-      startDt = best.dt;
-      endDt = best.dt + 3 * 60 * 60;
-    } else {
-      // No valid pool -> nothing to show
-      return null;
-    }
-  }
-  
-  // 3) Final fallback: if we still don't have a window, create a window based on best bucket
-  if (startDt == null) {
-    const nowUtc = Math.floor(Date.now() / 1000);
-
-    // Determine which hour to use based on best bucket from API golf data
-    const golf = isToday ? (weather?.golf ?? weather?.daily?.[0]?.golf) : selectedDaily?.golf;
-    const bestBucket: string | null = golf?.bestBucket ?? golf?.bestPeriod ?? null;
-    
-    // Map bucket to a representative start hour in destination local time
-    let bestHour = 11; // default: midday
-    if (bestBucket === "morning") bestHour = 8;
-    else if (bestBucket === "midday") bestHour = 11;
-    else if (bestBucket === "late" || bestBucket === "afternoon") bestHour = 15;
-
-    // For today use current date, for future days use the daily date if available
-    let dayMidnightUtc: number;
-    if (isToday) {
-      dayMidnightUtc = Math.floor(nowUtc / (24 * 60 * 60)) * (24 * 60 * 60);
-    } else {
-      const dateKey = selectedDaily?.dateKey ?? selectedDaily?.date ?? null;
-      if (dateKey) {
-        const d = new Date(dateKey);
-        dayMidnightUtc = Math.floor(d.getTime() / 1000 / (24 * 60 * 60)) * (24 * 60 * 60);
-      } else {
-        dayMidnightUtc = Math.floor(nowUtc / (24 * 60 * 60)) * (24 * 60 * 60) + selectedDay * 24 * 60 * 60;
-      }
-    }
-
-    // Try best bucket first, then fall back through options
-    const candidates = [bestHour, 11, 8, 15].filter((v, i, a) => a.indexOf(v) === i);
-    for (const hour of candidates) {
-      const candidate = dayMidnightUtc + (hour * 60 * 60) - tzOffsetSec;
-      if (isValidStart(candidate)) {
-        startDt = candidate;
-        endDt = candidate + 3 * 60 * 60;
-        break;
-      }
-    }
-  }
+    return `${formatWind(w, units)}${g != null ? ` ${tm(locale, { units }, "wind.gust", { kph: g })}` : ""}`;
+  }, [selectedDay, selectedDaily, weather, units, locale]);
 
-  if (startDt == null || endDt == null) {
-    return null;
-  }
-
-  // Clamp end to sunset for TODAY (only if sunset is actually today)
-  if (isToday && sunsetDt != null) {
-    const dtDayInDestination = Math.floor((startDt + tzOffsetSec) / (24 * 60 * 60));
-    const sunsetDayInDestination = Math.floor((sunsetDt + tzOffsetSec) / (24 * 60 * 60));
-    
-    if (dtDayInDestination === sunsetDayInDestination) {
-      endDt = Math.min(endDt, sunsetDt);
-      if (startDt >= sunsetDt) {
-        return null;
-      }
-    }
-  }
+  const greensBadgeText = useMemo(
+    () => groundWord(locale, selectedDay === 0 ? weather?.ground : selectedDaily?.ground, "greens"),
+    [selectedDay, selectedDaily, weather, locale]
+  );
 
-  const startStr = fmt(startDt);
-  const endStr = fmt(endDt);
+  const rolloutBadgeText = useMemo(
+    () => groundWord(locale, selectedDay === 0 ? weather?.ground : selectedDaily?.ground, "rollout"),
+    [selectedDay, selectedDaily, weather, locale]
+  );
 
-  // Prefer API avgScore; otherwise use the start block score if available.
-  let avg = avgFromApi;
-  if (avg == null && blocks.length > 0) {
-    const b = blocks.find((x: any) => typeof x?.dt === "number" && x.dt === startDt && typeof x?.score === "number");
-    if (typeof b?.score === "number") avg = b.score;
-  }
+  // The API's window for the chosen day (today's starts from now). Null means storms, frost or daylight
+  // ruled out every start, so there is nothing to show.
+  const bestWindow = selectedDay === 0 ? (weather?.bestTime.bestWindow ?? null) : (selectedDaily?.bestWindow ?? null);
 
-  const avgSuffix = typeof avg === "number" ? ` (avg ${Math.round(avg)}/100)` : "";
-  const result = `${startStr} – ${endStr}${avgSuffix}`;
-  
-  return result;
-}, [selectedDaily, selectedDay, weather, inferredTzOffsetSec]);
+  const bestWindowText = useMemo(() => {
+    if (!bestWindow) return null;
+    const avg = Math.round(bestWindow.avgScore);
+    const score =
+      bestWindow.minScore < avg
+        ? tm(locale, {}, "window.avgLow", { avg, low: bestWindow.minScore })
+        : tm(locale, {}, "window.avg", { avg });
+    return `${bestWindow.startLabel} – ${bestWindow.endLabel} ${score}`;
+  }, [bestWindow, locale]);
 
 const shareText = useMemo(() => {
-    const score = teeTimeResult?.score ?? selectedDaily?.golf?.score ?? weather?.golf?.score ?? null;
-    const verdict = verdictLabel ?? "Golf forecast";
-    const where = cityQuery?.trim() ? cityQuery.trim() : "your area";
+    const score = teeRound?.golf.score ?? selectedDaily?.golf?.score ?? weather?.golf?.score ?? null;
+    const verdict = verdictLabel ?? t(locale, "verdict.none");
+    const where = cityQuery?.trim() ? cityQuery.trim() : t(locale, "share.yourArea");
     const parts = [
       `${verdict}${score != null ? ` (${score}/100)` : ""} — ${where}`,
-      bestWindowText ? `Best window: ${bestWindowText}` : null,
-      windSummaryText ? `Wind: ${windSummaryText}` : null,
-      greensBadgeText ? `Greens: ${greensBadgeText}` : null,
-      rolloutBadgeText ? `Rollout: ${rolloutBadgeText}` : null,
+      bestWindowText ? tm(locale, {}, "share.bestWindow", { text: bestWindowText }) : null,
+      windSummaryText ? tm(locale, {}, "share.wind", { text: windSummaryText }) : null,
+      greensBadgeText ? tm(locale, {}, "share.greens", { text: greensBadgeText }) : null,
+      rolloutBadgeText ? tm(locale, {}, "share.rollout", { text: rolloutBadgeText }) : null,
       `CanIGolfToday.com`,
     ].filter(Boolean);
     return parts.join(" • ");
-  }, [teeTimeResult, selectedDaily, weather, verdictLabel, cityQuery, bestWindowText, windSummaryText, greensBadgeText, rolloutBadgeText]);
+  }, [teeRound, selectedDaily, weather, verdictLabel, cityQuery, bestWindowText, windSummaryText, greensBadgeText, rolloutBadgeText, locale]);
 
 
 
 
-  const carryChange = useMemo(() => {
+  // Air for the ball-flight table: the forecast at tee-off, else right now (today), else the middle of the day.
+  const flightAir = useMemo(() => {
     if (showVerdict === "RED") return null;
 
-    // For today: prefer current temp, fall back to day0 min/max avg
-    // For future days: use average of min/max as a better representative temp than just max
-    const t =
-      selectedDay === 0
-        ? getNum(weather?.current?.temp) ??
-          getNum(weather?.current?.feels) ??
-          getNum(weather?.daily?.[0]?.minTemp) ??
-          null
-        : (() => {
-            const hi = getNum(selectedDaily?.maxTemp) ?? getNum(selectedDaily?.max);
-            const lo = getNum(selectedDaily?.minTemp) ?? getNum(selectedDaily?.min);
-            if (hi != null && lo != null) return (hi + lo) / 2;
-            return hi ?? lo ?? null;
-          })();
-
-    return estimateCarryChangeYards({ tempC: t, verdict: showVerdict });
-  }, [showVerdict, selectedDay, selectedDaily, weather]);
-
-  const carryChangeText = useMemo(() => {
-    if (!carryChange) return null;
-    const min = carryChange.minYds;
-    const max = carryChange.maxYds;
-    const fmt = (n: number) => `${n > 0 ? "+" : ""}${n}`;
-    // If range is the same or within 1 yard, just show single value
-    if (min === max || Math.abs(max - min) <= 1) return `${fmt(max)} yds`;
-    return `${fmt(min)} to ${fmt(max)} yds`;
-  }, [carryChange]);
-  
-  const bestWindowRange = useMemo(() => {
-  const tzOffsetSec = typeof weather?.tzOffsetSec === "number" ? weather.tzOffsetSec : 0;
-  const isToday = selectedDay === 0;
-
-  let rawBlocks: any = isToday ? (weather?.bestTime?.byTime ?? weather?.bestTime?.blocks ?? weather?.bestTime?.byHour ?? null) : (selectedDaily?.blocks ?? null);
-  if (rawBlocks && !Array.isArray(rawBlocks) && typeof rawBlocks === "object") rawBlocks = Object.values(rawBlocks);
-  const blocks: any[] = Array.isArray(rawBlocks) ? rawBlocks : [];
-
-  const sunriseDt = isToday && typeof weather?.daylight?.sunrise === "number" ? weather.daylight.sunrise : null;
-  const sunsetDt = isToday && typeof weather?.daylight?.sunset === "number" ? weather.daylight.sunset : null;
-
-  const daylightStart = sunriseDt != null ? sunriseDt + 60 * 60 : null;
-  const latestStart = sunsetDt != null ? sunsetDt - 3 * 60 * 60 : null;
-
-  const apiBw: any = isToday ? (weather?.bestTime?.bestWindow ?? null) : (selectedDaily?.bestWindow ?? null);
-
-  const labelStart: string | null =
-    (typeof apiBw?.startLabel === "string" ? apiBw.startLabel : null) ??
-    (typeof apiBw?.start === "string" ? apiBw.start : null) ??
-    null;
-
-  const startDtFromApi: number | null =
-    (typeof apiBw?.startDt === "number" ? apiBw.startDt : null) ??
-    (typeof apiBw?.start === "number" ? apiBw.start : null) ??
-    null;
-
-  const endDtFromApi: number | null =
-    (typeof apiBw?.endDt === "number" ? apiBw.endDt : null) ??
-    (typeof apiBw?.end === "number" ? apiBw.end : null) ??
-    null;
-
-  const isValidStart = (dt: number) => {
-    if (isToday) {
-      if (daylightStart != null && dt < daylightStart) return false;
-      if (latestStart != null && dt > latestStart) return false;
-      if (sunsetDt != null && dt >= sunsetDt) return false;
-    }
-    
-    // Apply golfing hours check for ALL days (6am-3pm in destination timezone)
-    const hr = new Date((dt + tzOffsetSec) * 1000).getUTCHours();
-    if (hr < 6 || hr > 15) return false;
-    
-    return true;
-  };
-
-  let startDt: number | null = startDtFromApi;
-  if (startDt == null && labelStart && blocks.length > 0) {
-    const b = blocks.find((x: any) => typeof x?.dt === "number" && x?.label === labelStart);
-    if (typeof b?.dt === "number") startDt = b.dt;
-  }
-
-  let endDt: number | null = endDtFromApi;
-  if (startDt != null && endDt == null) endDt = startDt + 3 * 60 * 60;
-
-  if ((startDt == null || !isValidStart(startDt)) && blocks.length > 0) {
-    const pool = blocks
-      .filter((b: any) => typeof b?.dt === "number" && typeof b?.score === "number")
-      .filter((b: any) => b?.inDaylight !== false)
-      .filter((b: any) => isValidStart(b.dt));
-
-    const best = pool.reduce((acc: any, b: any) => (!acc || b.score > acc.score ? b : acc), null);
-
-    if (best && typeof best.dt === "number") {
-      startDt = best.dt;
-      endDt = best.dt + 3 * 60 * 60;
-    } else {
-      return null;
-    }
-  }
-
-  if (startDt == null || endDt == null) return null;
-
-  if (isToday && sunsetDt != null) {
-    endDt = Math.min(endDt, sunsetDt);
-    if (startDt >= sunsetDt) return null;
-  }
-
-  return { startDt, endDt };
-}, [selectedDaily?.bestWindow, selectedDaily?.blocks, selectedDay, weather?.bestTime?.bestWindow, weather?.bestTime?.byTime, weather?.bestTime?.blocks, weather?.bestTime?.byHour, weather?.daylight?.sunrise, weather?.daylight?.sunset, weather?.tzOffsetSec]);
-
+    const daylight = (selectedDaily?.blocks ?? []).filter((b: { inDaylight?: boolean }) => b.inDaylight);
+    const src =
+      teeRound?.teeOff ??
+      (selectedDay === 0 && weather?.current
+        ? { ...weather.current }
+        : daylight[Math.floor(daylight.length / 2)] ?? null);
 
+    const tempC = getNum(src?.temp);
+    if (tempC == null) return null;
 
+    return {
+      tempC,
+      humidityPct: getNum(src?.humidityPct),
+      seaLevelPressureHpa: getNum(src?.pressureHpa),
+      elevationM: getNum(weather?.elevationM),
+      windKph: getNum(src?.windKph) ?? 0,
+    };
+  }, [showVerdict, teeRound, selectedDay, selectedDaily, weather]);
+
+  // "Plays like" per club: still air (density only), then straight into / down the wind.
+  const clubTable = useMemo(() => {
+    if (!flightAir) return null;
+    const { windKph, ...air } = flightAir;
+    return clubs.map((c) => ({
+      club: c,
+      calm: carryChange(c.carryYds, air),
+      into: carryChange(c.carryYds, { ...air, headwindKph: windKph }),
+      down: carryChange(c.carryYds, { ...air, headwindKph: -windKph }),
+    }));
+  }, [flightAir, clubs]);
 
 const sunriseSunsetText = useMemo(() => {
-  const sunrise =
-    weather?.daylight?.sunriseLabel ??
-    (weather?.daylight?.sunrise
-      ? new Date(weather.daylight.sunrise * 1000).toLocaleTimeString([], {
-          hour: "numeric",
-          minute: "2-digit",
-        })
-      : null);
-
-  const sunset =
-    weather?.daylight?.sunsetLabel ??
-    (weather?.daylight?.sunset
-      ? new Date(weather.daylight.sunset * 1000).toLocaleTimeString([], {
-          hour: "numeric",
-          minute: "2-digit",
-        })
-      : null);
-
-  if (!sunrise && !sunset) return null;
-  if (sunrise && sunset) return `Sunrise ${sunrise} • Sunset ${sunset}`;
-  if (sunrise) return `Sunrise ${sunrise}`;
-  return `Sunset ${sunset}`;
-}, [weather?.daylight]);
+  if (!weather) return null;
+  return tm(locale, {}, "page.sunriseSunset", {
+    sunrise: weather.daylight.sunriseLabel,
+    sunset: weather.daylight.sunsetLabel,
+  });
+}, [weather, locale]);
 
 
 
@@ -823,40 +704,19 @@ const sunriseSunsetText = useMemo(() => {
   const selectedGround = (selectedDay === 0 ? weather?.ground : selectedDaily?.ground) ?? null;
   const greensSpeed = selectedGround?.greensSpeed ?? null;
   const fairwayRollout = selectedGround?.fairwayRollout ?? null;
+  const firmness = selectedGround?.firmness ?? null;
+  const cartPathOnly = selectedGround?.cartPathOnly ?? null;
 
 // How the day plays out (golfer-first): Morning vs Midday vs Late.
-// IMPORTANT: "today" data sometimes lives under weather.bestTime.byTime rather than daily[0].blocks,
-// so we fall back to those sources.
 const playOut = useMemo(() => {
-  const WINDOW_SEC = 3 * 60 * 60;
-
-  // 1) Get blocks from the selected day; for today, fall back to bestTime blocks/byTime.
-  let raw: any = selectedDaily?.blocks ?? null;
-
-  if ((!Array.isArray(raw) || raw.length === 0) && selectedDay === 0) {
-    raw = weather?.bestTime?.byTime ?? weather?.bestTime?.blocks ?? weather?.bestTime?.byHour ?? null;
-    // If API returns an object-map, normalize to array
-    if (raw && !Array.isArray(raw) && typeof raw === "object") raw = Object.values(raw);
-  }
-
-  if (!Array.isArray(raw) || raw.length === 0) return null as null | any;
-
-  const sorted = [...raw]
-    .filter((b: any) => typeof b?.dt === "number" && typeof b?.score === "number")
-    .sort((a: any, b: any) => (a?.dt ?? 0) - (b?.dt ?? 0));
+  // 1) Blocks for the selected day (today's are daily[0].blocks).
+  const sorted = [...(selectedDaily?.blocks ?? [])].sort((a, b) => a.dt - b.dt);
 
   if (sorted.length === 0) return null;
 
-  // 2) For today, clamp to daylight explicitly (no after-sunset blocks).
-  const sunriseDt =
-    selectedDay === 0 && typeof weather?.daylight?.sunrise === "number"
-      ? weather.daylight.sunrise
-      : null;
-
-  const sunsetDt =
-    selectedDay === 0 && typeof weather?.daylight?.sunset === "number"
-      ? weather.daylight.sunset
-      : null;
+  // 2) Clamp to the day's daylight explicitly (no after-sunset blocks).
+  const sunriseDt = selectedDaily?.daylight.sunrise ?? null;
+  const sunsetDt = selectedDaily?.daylight.sunset ?? null;
 
   const daylight = (sunriseDt != null || sunsetDt != null)
     ? sorted.filter((b: any) => {
@@ -892,8 +752,7 @@ const playOut = useMemo(() => {
 
   // 5) Bucket boundaries (local-time hours):
   // Morning: 6–11, Midday: 11–15, Late: 15–sunset (daylight filtered when available).
-  const tzOffsetSec = inferredTzOffsetSec;
-  const localHour = (dt: number) => new Date((dt + tzOffsetSec) * 1000).getUTCHours();
+  const hourAt = (dt: number) => localHour(dt, timeZone);
 
   const daylightForBuckets = (() => {
     const xs = pool.filter((b: any) => b?.inDaylight !== false);
@@ -904,7 +763,7 @@ const playOut = useMemo(() => {
     const xs = daylightForBuckets
       .filter((b: any) => {
         if (typeof b?.dt !== "number") return false;
-        const h = localHour(b.dt);
+        const h = hourAt(b.dt);
         return h >= hStart && h < hEnd;
       })
       .map((b: any) => b.score);
@@ -922,18 +781,12 @@ const playOut = useMemo(() => {
   const mds = middayScore ?? allAvg;
   const ls = lateScore ?? allAvg;
 
-  const toVerdict = (score: number) => {
-    if (score >= 80) return "GREEN";
-    if (score >= 60) return "YELLOW";
-    return "RED";
-  };
-
   // 6) Decide which bucket contains the best tee-time window start (authoritative).
   let bestBucket: "morning" | "midday" | "late" | null = null;
-  const bwStart = bestWindowRange?.startDt ?? null;
+  const bwStart = bestWindow?.startDt ?? null;
 
   if (typeof bwStart === "number") {
-    const h = localHour(bwStart);
+    const h = hourAt(bwStart);
     if (h < 11) bestBucket = "morning";
     else if (h < 15) bestBucket = "midday";
     else bestBucket = "late";
@@ -949,214 +802,189 @@ const playOut = useMemo(() => {
 return {
     bestBucket,
     segments: [
-      { key: "morning", label: "Morning", score: ms, verdict: toVerdict(ms) },
-      { key: "midday", label: "Midday", score: mds, verdict: toVerdict(mds) },
-      { key: "late", label: "Late", score: ls, verdict: toVerdict(ls) },
+      { key: "morning", score: ms, verdict: verdictForScore(ms) },
+      { key: "midday", score: mds, verdict: verdictForScore(mds) },
+      { key: "late", score: ls, verdict: verdictForScore(ls) },
     ],
     range: { startDt: dayStart, endDt: dayEnd },
   };
 }, [
   selectedDaily?.blocks,
-  selectedDay,
-  weather?.bestTime,
-  weather?.daylight?.sunrise,
-  weather?.daylight?.sunset,
-  bestWindowRange?.startDt,
-  bestWindowRange?.endDt,
-  inferredTzOffsetSec,
+  selectedDaily?.daylight,
+  bestWindow?.startDt,
+  timeZone,
 ]);
 
 
-  const showScore = teeTimeResult?.score ?? selectedDaily?.golf?.score ?? weather?.golf?.score;
-  const showReason = teeTimeResult?.reason ?? selectedDaily?.golf?.reason ?? weather?.golf?.reason;
+  const showScore = teeRound?.golf.score ?? selectedDaily?.golf?.score ?? weather?.golf?.score;
+  // Rendered from the reason code when the API sent one, so it follows the page's language and units
+  const showReason = useMemo(() => {
+    const g = teeRound?.golf ?? selectedDaily?.golf ?? weather?.golf;
+    if (!g) return undefined;
+    return g.reasonMessage ? t(locale, g.reasonMessage, { units, timeZone }) : g.reason;
+  }, [teeRound, selectedDaily, weather, locale, units, timeZone]);
 
   const style = verdictStyles(showVerdict || "RED");
 
   const confidenceLine = useMemo(() => {
     const v = showVerdict;
-    if (v === "GREEN") return "Book it with confidence.";
-    if (v === "YELLOW") return "Playable if you catch the window.";
-    if (v === "RED") return "Courses are likely closed or unpleasant.";
+    if (v === "GREEN") return t(locale, "confidence.GREEN");
+    if (v === "YELLOW") return t(locale, "confidence.YELLOW");
+    if (v === "RED") return t(locale, "confidence.RED");
     return null;
-  }, [showVerdict]);
+  }, [showVerdict, locale]);
+
+  // What the scorer actually took points off for: the projected round when a tee time is set,
+  // else the selected day (or the best block today before the daily data lands).
+  const scoreBreakdown = useMemo(() => {
+    const single = (g?: { deductions?: Deduction[]; hardStop?: HardStop | null } | null) =>
+      g ? { deductions: g.deductions ?? [], hardStops: g.hardStop ? [{ ...g.hardStop, hours: 1 }] : [] } : null;
+
+    if (teeRound) return teeRound.golf.breakdown;
+    return selectedDaily?.breakdown ?? single(weather?.golf) ?? { deductions: [], hardStops: [] };
+  }, [teeRound, selectedDaily, weather]);
+
+  const breakdownChips = useMemo(() => {
+    const chips: { factor: string; label: string; weight: number }[] = [];
+    for (const h of scoreBreakdown?.hardStops ?? []) {
+      chips.push({ factor: h.factor, label: hardStopLabel(h, locale), weight: 100 + h.hours });
+    }
+    for (const d of scoreBreakdown?.deductions ?? []) {
+      chips.push({ factor: d.factor, label: deductionLabel(d, units, locale), weight: d.points });
+    }
+    return chips;
+  }, [scoreBreakdown, units, locale]);
 
   const redReasonChips = useMemo(() => {
     if (showVerdict !== "RED") return [];
 
-    const chips: { label: string; weight: number }[] = [];
-
-    const tempC =
-      (typeof teeTimeResult?.temp === "number" ? teeTimeResult.temp : null) ??
-      (selectedDay === 0 ? weather?.current?.temp : null) ??
-      null;
-
-    const windKph =
-      (typeof teeTimeResult?.windKph === "number" ? teeTimeResult.windKph : null) ??
-      (selectedDay === 0 ? weather?.current?.windKph : null) ??
-      (typeof selectedDaily?.windMax === "number" ? selectedDaily.windMax : null) ??
-      null;
-
-    const conditions =
-      teeTimeResult?.conditions ??
-      (selectedDay === 0 ? weather?.current?.conditions : selectedDaily?.conditions) ??
-      null;
-
-    const precipMm =
-      (typeof teeTimeResult?.precipMm === "number" ? teeTimeResult.precipMm : null) ?? null;
-
-    if (typeof tempC === "number") {
-      if (tempC <= 2) chips.push({ label: "❄️ Too cold", weight: 100 });
-      else if (tempC <= 6) chips.push({ label: "🥶 Cold", weight: 70 });
-    }
+    // Timed storm / frost chips say more than the generic hard-stop ones
+    const thunder = selectedDaily?.thunder ?? null;
+    const frost = selectedDaily?.frostDelay ?? null;
+    const chips = breakdownChips.filter(
+      (c) => !(c.factor === "thunderstorm" && thunder) && !(c.factor === "frost" && frost?.likely)
+    );
+    const ctx = { units, timeZone };
 
-    if (typeof windKph === "number") {
-      if (windKph >= 35) chips.push({ label: "🌬 Very windy", weight: 90 });
-      else if (windKph >= 25) chips.push({ label: "🌬 Windy", weight: 65 });
+    if (thunder) {
+      chips.push({ factor: "thunderstorm", label: tm(locale, ctx, "chip.stormsFrom", { dt: thunder.firstStrikeDt }), weight: 105 });
     }
 
-    const cond = typeof conditions === "string" ? conditions.toLowerCase() : "";
-    const precipy =
-      (typeof precipMm === "number" && precipMm > 0) ||
-      cond.includes("rain") ||
-      cond.includes("drizzle") ||
-      cond.includes("thunder") ||
-      cond.includes("snow");
-
-    if (precipy) {
-      if (cond.includes("snow")) chips.push({ label: "🌨 Snow", weight: 95 });
-      else chips.push({ label: "🌧 Wet", weight: 80 });
+    if (frost?.likely) {
+      chips.push({
+        factor: "frost",
+        label:
+          frost.expectedClearDt != null
+            ? tm(locale, ctx, "chip.frostUntil", { dt: frost.expectedClearDt })
+            : t(locale, "chip.frostAllDay"),
+        weight: 102,
+      });
     }
 
-    if (teeTime && teeTimeResult && teeTimeResult.inDaylight === false) {
-      chips.push({ label: "🌙 Low light", weight: 60 });
+    if (teeRound && (teeRound.startsAfterSunrise === false || teeRound.finishesBeforeSunset === false)) {
+      chips.push({ factor: "light", label: t(locale, "chip.lowLight"), weight: 60 });
     }
 
-    if (chips.length === 0) chips.push({ label: "🚫 Poor conditions", weight: 50 });
+    if (chips.length === 0) chips.push({ factor: "none", label: t(locale, "chip.poorConditions"), weight: 0 });
 
     return chips
       .sort((a, b) => b.weight - a.weight)
       .slice(0, 3)
       .map((c) => c.label);
-  }, [showVerdict, teeTime, teeTimeResult, selectedDay, selectedDaily, weather]);
+  }, [showVerdict, teeRound, selectedDaily, breakdownChips, locale, units, timeZone]);
 
   const yellowReasonChips = useMemo(() => {
     if (showVerdict !== "YELLOW") return [];
 
-    const chips: { label: string; weight: number }[] = [];
-
-    const tempC =
-      (typeof teeTimeResult?.temp === "number" ? teeTimeResult.temp : null) ??
-      (selectedDay === 0 ? weather?.current?.temp : null) ??
-      null;
-
-    const windKph =
-      (typeof teeTimeResult?.windKph === "number" ? teeTimeResult.windKph : null) ??
-      (selectedDay === 0 ? weather?.current?.windKph : null) ??
-      (typeof selectedDaily?.windMax === "number" ? selectedDaily.windMax : null) ??
-      null;
-
-    const conditions =
-      teeTimeResult?.conditions ??
-      (selectedDay === 0 ? weather?.current?.conditions : selectedDaily?.conditions) ??
-      null;
-
-    if (typeof tempC === "number") {
-      if (tempC >= 30) chips.push({ label: "🌡 Hot", weight: 70 });
-      else if (tempC <= 8) chips.push({ label: "🧊 Chilly", weight: 75 });
-    }
-
-    if (typeof windKph === "number") {
-      if (windKph >= 20) chips.push({ label: "💨 Breezy", weight: 80 });
-    }
+    const chips = breakdownChips.filter((c) => c.factor !== "frost" && c.factor !== "thunderstorm");
 
-    const cond = typeof conditions === "string" ? conditions.toLowerCase() : "";
-    if (cond.includes("cloud") || cond.includes("overcast")) {
-      chips.push({ label: "☁️ Cloudy", weight: 40 });
+    const ctx = { units, timeZone };
+    const frost = selectedDaily?.frostDelay ?? null;
+    if (frost?.likely && frost.expectedClearDt != null) {
+      chips.push({ factor: "frost", label: tm(locale, ctx, "chip.frostDelayUntil", { dt: frost.expectedClearDt }), weight: 82 });
     }
 
-    if (cond.includes("fog") || cond.includes("mist")) {
-      chips.push({ label: "🌫 Foggy", weight: 60 });
+    // Lightning window: 30-minute rule applied server-side
+    const thunder = selectedDaily?.thunder ?? null;
+    if (thunder) {
+      const playsAfter =
+        typeof selectedDaily?.bestWindow?.startDt === "number" && selectedDaily.bestWindow.startDt >= thunder.allClearDt;
+      chips.push({
+        factor: "thunderstorm",
+        label: playsAfter
+          ? tm(locale, ctx, "chip.stormsClear", { dt: thunder.allClearDt })
+          : tm(locale, ctx, "chip.offCourseBy", { dt: thunder.offCourseBy }),
+        weight: 85,
+      });
     }
 
     // Analyze playOut to see if specific time blocks are problematic
     if (playOut?.segments) {
-      const morning = playOut.segments.find((s: any) => s.key === "morning");
-      const midday = playOut.segments.find((s: any) => s.key === "midday");
-      const late = playOut.segments.find((s: any) => s.key === "late");
+      const [morning, midday, late] = playOut.segments;
 
-      if (morning && morning.score < 60) chips.push({ label: "⏰ Better later", weight: 65 });
-      else if (late && late.score < 60) chips.push({ label: "⏰ Go early", weight: 65 });
+      if (morning && morning.score < VERDICT_THRESHOLDS.yellow) chips.push({ factor: "timing", label: t(locale, "chip.betterLater"), weight: 9 });
+      else if (late && late.score < VERDICT_THRESHOLDS.yellow) chips.push({ factor: "timing", label: t(locale, "chip.goEarly"), weight: 9 });
       else if (midday && midday.score >= 70 && (morning.score < 65 || late.score < 65)) {
-        chips.push({ label: "⏰ Catch midday window", weight: 70 });
+        chips.push({ factor: "timing", label: t(locale, "chip.middayWindow"), weight: 10 });
       }
     }
 
-    if (chips.length === 0) chips.push({ label: "✓ Playable", weight: 50 });
+    if (chips.length === 0) chips.push({ factor: "none", label: t(locale, "chip.playable"), weight: 0 });
 
     return chips
       .sort((a, b) => b.weight - a.weight)
       .slice(0, 3)
       .map((c) => c.label);
-  }, [showVerdict, teeTime, teeTimeResult, selectedDay, selectedDaily, weather, playOut]);
+  }, [showVerdict, selectedDaily, breakdownChips, playOut, locale, units, timeZone]);
 
   // Limiting factor hint for YELLOW days - explains what's keeping it from green
   const yellowLimitingFactor = useMemo(() => {
-    if (showVerdict !== "YELLOW" || showScore == null || showScore >= 80) return null;
-
-    const tempC =
-      (typeof teeTimeResult?.temp === "number" ? teeTimeResult.temp : null) ??
-      (selectedDay === 0 ? weather?.current?.temp : null) ??
-      null;
-
-    const windKph =
-      (typeof teeTimeResult?.windKph === "number" ? teeTimeResult.windKph : null) ??
-      (selectedDay === 0 ? weather?.current?.windKph : null) ??
-      (typeof selectedDaily?.windMax === "number" ? selectedDaily.windMax : null) ??
-      null;
-
-    const conditions =
-      teeTimeResult?.conditions ??
-      (selectedDay === 0 ? weather?.current?.conditions : selectedDaily?.conditions) ??
-      null;
-
-    // Find the main factor keeping it from 80+
-    const gap = 80 - showScore;
-    
-    if (typeof windKph === "number" && windKph >= 20) {
-      return `💨 Wind ${windKph}km/h is pushing you below 80. Otherwise solid day.`;
-    }
+    if (showVerdict !== "YELLOW" || showScore == null || showScore >= VERDICT_THRESHOLDS.green) return null;
 
-    if (typeof tempC === "number") {
-      if (tempC <= 8) {
-        return `🧊 Temp ${tempC}°C is a bit chilly for green-light status. Otherwise decent.`;
-      }
-      if (tempC >= 30) {
-        return `🌡 Temp ${tempC}°C is keeping it from green. Otherwise playable.`;
-      }
+    const gap = VERDICT_THRESHOLDS.green - showScore;
+    const top = scoreBreakdown?.deductions?.[0] ?? null;
+
+    const factor = top ? deductionLabel(top, units, locale) : "";
+
+    if (top && top.points >= gap) {
+      return tm(locale, {}, "limit.alone", { factor, points: Math.round(top.points), green: VERDICT_THRESHOLDS.green });
     }
 
-    const cond = typeof conditions === "string" ? conditions.toLowerCase() : "";
-    if (cond.includes("cloud") || cond.includes("overcast")) {
-      return `☁️ Cloudy conditions are the main factor. Otherwise a good day.`;
+    if (top) {
+      return tm(locale, {}, "limit.biggest", { factor, points: Math.round(top.points), gap });
     }
 
     if (gap <= 5) {
-      return `Just ${gap} points from green — marginal conditions.`;
+      return tm(locale, {}, "limit.marginal", { gap });
     }
 
     return null;
-  }, [showVerdict, showScore, teeTimeResult, selectedDay, selectedDaily, weather]);
+  }, [showVerdict, showScore, scoreBreakdown, units, locale]);
+
+  const weatherUrl = (c: Coords, h: 9 | 18, p: GolferProfile, u: UnitSystem = units, l: Locale = locale) =>
+    `/api/weather?v=2&lat=${c.lat}&lon=${c.lon}${elevQuery(c)}&holes=${h}&${profileQuery(p)}&units=${u}&lang=${l}`;
+
+  const coursesUrl = (c: Coords, m: number | null) =>
+    `/api/courses?lat=${c.lat}&lon=${c.lon}&holes=${holes}&${profileQuery(profile)}${m != null ? `&maxDrive=${m}` : ""}&lang=${locale}`;
 
   async function loadAll(c: Coords) {
     setLoading(true);
     setGeoErr(null);
     setWeather(null);
     setCourses(null);
+    setLoadErrs({});
     setSelectedDay(0);
 
+    // Either list failing (or coming back off-contract) leaves that section empty, with the reason.
     const [w, cs] = await Promise.all([
-      fetch(`/api/weather?lat=${c.lat}&lon=${c.lon}`).then((r) => r.json()),
-      fetch(`/api/courses?lat=${c.lat}&lon=${c.lon}`).then((r) => r.json()),
+      fetchContract(weatherUrl(c, holes, profile), weatherV2).catch((e) => {
+        loadFailed("weather", e);
+        return null;
+      }),
+      fetchContract(coursesUrl(c, maxDrive), coursesResponse).catch((e) => {
+        loadFailed("courses", e);
+        return null;
+      }),
     ]);
 
     setWeather(w);
@@ -1165,9 +993,12 @@ return {
     setTeeTime("");
     setShowAllCourses(false);
 
-    const day0Verdict = w?.daily?.[0]?.golf?.verdict ?? w?.golf?.verdict;
+    const day0Verdict = w?.daily[0]?.golf.verdict ?? w?.golf?.verdict;
     if (day0Verdict === "RED") {
-      const sims = await fetch(`/api/simulators?lat=${c.lat}&lon=${c.lon}`).then((r) => r.json());
+      const sims = await fetchContract(`/api/simulators?lat=${c.lat}&lon=${c.lon}`, simulatorsResponse).catch((e) => {
+        loadFailed("simulators", e);
+        return null;
+      });
       setSimulators(sims);
     } else {
       setSimulators(null);
@@ -1180,14 +1011,123 @@ return {
     setTeeTime("");
   }, [selectedDay]);
 
+  async function refetchWeather(h: 9 | 18, p: GolferProfile, u: UnitSystem = units, l: Locale = locale) {
+    if (!coords) return;
+    try {
+      setWeather(await fetchContract(weatherUrl(coords, h, p, u, l), weatherV2));
+      loadOk("weather");
+    } catch (e) {
+      // keep the previous forecast, but say it didn't update
+      loadFailed("weather", e);
+    }
+  }
+
+  async function changeMaxDrive(m: number | null) {
+    if (m === maxDrive) return;
+    setMaxDrive(m);
+    if (!coords) return;
+    try {
+      setCourses(await fetchContract(coursesUrl(coords, m), coursesResponse));
+      setShowAllCourses(false);
+      loadOk("courses");
+    } catch (e) {
+      // keep the previous list, but say it didn't update
+      loadFailed("courses", e);
+    }
+  }
+
+  async function changeHoles(h: 9 | 18) {
+    if (h === holes) return;
+    setHoles(h);
+    await refetchWeather(h, profile);
+  }
+
+  async function uploadLayout(file: File | null | undefined) {
+    if (!file) return;
+    setLayoutErr(null);
+    try {
+      const layout = parseCourseLayout(JSON.parse(await file.text()));
+      if (!layout) {
+        setLayoutErr(msg("layout.noCoords"));
+        return;
+      }
+      setCourseLayout(layout);
+      try {
+        window.localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+      } catch {
+        // too big for local storage — keep it for this visit
+      }
+    } catch {
+      setLayoutErr(msg("layout.badJson"));
+    }
+  }
+
+  function saveClubs(next: Club[]) {
+    setClubs(next);
+    try {
+      window.localStorage.setItem(CLUBS_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // private mode etc.
+    }
+  }
+
+  function clearLayout() {
+    setCourseLayout(null);
+    setLayoutErr(null);
+    try {
+      window.localStorage.removeItem(LAYOUT_STORAGE_KEY);
+    } catch {
+      // nothing saved
+    }
+  }
+
+  async function changeProfile(patch: Partial<GolferProfile>) {
+    const next = { ...profile, ...patch };
+    setProfile(next);
+    try {
+      window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // private mode etc. — the profile still applies for this visit
+    }
+    await refetchWeather(holes, next);
+  }
+
+  // The server words its bands and ground details in these units, so a change refetches.
+  async function changeUnits(u: UnitSystem) {
+    if (u === units) return;
+    setUnits(u);
+    try {
+      window.localStorage.setItem(UNITS_STORAGE_KEY, u);
+    } catch {
+      // private mode etc. — still applies for this visit
+    }
+    await refetchWeather(holes, profile, u);
+  }
+
+  // Reasons and chips re-render from their codes; the refetch brings time and day labels along.
+  async function changeLocale(l: Locale) {
+    if (l === locale) return;
+    setLocale(l);
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, l);
+    } catch {
+      // private mode etc. — still applies for this visit
+    }
+    await refetchWeather(holes, profile, units, l);
+  }
+
   useEffect(() => {
     async function maybeLoadSims() {
-      if (!coords || !weather?.daily) return;
-      const v = weather?.daily?.[selectedDay]?.golf?.verdict;
+      if (!coords || !weather) return;
+      const v = weather.daily[selectedDay]?.golf.verdict;
       if (v === "RED") {
-        const sims = await fetch(`/api/simulators?lat=${coords.lat}&lon=${coords.lon}`).then((r) =>
-          r.json()
+        const sims = await fetchContract(`/api/simulators?lat=${coords.lat}&lon=${coords.lon}`, simulatorsResponse).catch(
+          (e) => {
+            loadFailed("simulators", e);
+            return null;
+          }
         );
+        if (sims) loadOk("simulators");
         setSimulators(sims);
       } else {
         setSimulators(null);
@@ -1199,7 +1139,7 @@ return {
 
   function useMyLocation() {
     if (!navigator.geolocation) {
-      setGeoErr("Geolocation not supported in this browser.");
+      setGeoErr(msg("geo.unsupported"));
       return;
     }
 
@@ -1209,7 +1149,7 @@ return {
         setCoords(c);
         loadAll(c);
       },
-      (err) => setGeoErr(err.message || "Couldn’t get your location."),
+      (err) => setGeoErr(msg(err.code === err.PERMISSION_DENIED ? "geo.denied" : "geo.failed")),
       { enableHighAccuracy: true, timeout: 10000 }
     );
   }
@@ -1227,18 +1167,21 @@ return {
     const t = setTimeout(async () => {
       try {
         setSearching(true);
-        const res = await fetch(`/api/location/suggest?q=${encodeURIComponent(q)}`);
-        const data = await res.json();
-        setPredictions(Array.isArray(data?.predictions) ? data.predictions : []);
-      } catch {
+        const { predictions } = await fetchContract(
+          `/api/location/suggest?q=${encodeURIComponent(q)}&lang=${locale}`,
+          suggestResponse
+        );
+        setPredictions(predictions);
+      } catch (e) {
         setPredictions([]);
+        if (e instanceof RateLimitedError) setGeoErr(loadError("location", e));
       } finally {
         setSearching(false);
       }
     }, 250);
 
     return () => clearTimeout(t);
-  }, [cityQuery]);
+  }, [cityQuery, locale]);
 
   useEffect(() => {
     function onClick(e: MouseEvent) {
@@ -1255,22 +1198,16 @@ return {
       setGeoErr(null);
       setLoading(true);
 
-      const res = await fetch(`/api/location/resolve?placeId=${encodeURIComponent(p.placeId)}`);
-      const data = await res.json();
-
-      if (!res.ok || !Number.isFinite(data?.lat) || !Number.isFinite(data?.lon)) {
-        setGeoErr(data?.error || "Couldn’t resolve that city.");
-        setLoading(false);
-        return;
-      }
+      const place = await fetchContract(`/api/location/resolve?placeId=${encodeURIComponent(p.placeId)}`, resolveResponse);
 
-      setCityQuery(data?.address || p.description);
+      setCityQuery(place.address || p.description);
 
-      const c = { lat: Number(data.lat), lon: Number(data.lon) };
+      // A picked course knows its own elevation; a city uses the forecast point's.
+      const c = { lat: place.lat, lon: place.lon, elevationM: p.kind === "course" ? p.elevationM : null };
       setCoords(c);
       await loadAll(c);
-    } catch {
-      setGeoErr("Couldn’t resolve that city.");
+    } catch (e) {
+      setGeoErr(e instanceof RateLimitedError ? loadError("location", e) : msg("geo.resolveFailed"));
       setLoading(false);
     }
   }
@@ -1281,51 +1218,98 @@ return {
       setLoading(true);
       setPredictions([]); // prevent dropdown from showing
 
-      const sres = await fetch(`/api/location/suggest?q=${encodeURIComponent(label)}`);
-      const sdata = await sres.json();
-      const first = Array.isArray(sdata?.predictions) ? sdata.predictions[0] : null;
+      const { predictions } = await fetchContract(
+        `/api/location/suggest?q=${encodeURIComponent(label)}&lang=${locale}`,
+        suggestResponse
+      );
+      const first = predictions[0];
 
-      if (!first?.placeId) {
-        setGeoErr("Couldn't find that location.");
+      if (!first) {
+        setGeoErr(msg("geo.notFound"));
         setLoading(false);
         return;
       }
 
-      const rres = await fetch(`/api/location/resolve?placeId=${encodeURIComponent(first.placeId)}`);
-      const rdata = await rres.json();
-
-      if (!rres.ok || !Number.isFinite(rdata?.lat) || !Number.isFinite(rdata?.lon)) {
-        setGeoErr(rdata?.error || "Couldn't resolve that city.");
-        setLoading(false);
-        return;
-      }
+      const place = await fetchContract(`/api/location/resolve?placeId=${encodeURIComponent(first.placeId)}`, resolveResponse);
 
       // Set city query AFTER resolving to the final address, then clear dropdown
       suppressAutocomplete.current = true;
-      setCityQuery(rdata?.address || label);
+      setCityQuery(place.address || label);
       setPredictions([]);
-      const c = { lat: Number(rdata.lat), lon: Number(rdata.lon) };
+      const c = { lat: place.lat, lon: place.lon };
       setCoords(c);
       await loadAll(c);
-    } catch {
-      setGeoErr("Couldn't load that city.");
+    } catch (e) {
+      setGeoErr(e instanceof RateLimitedError ? loadError("location", e) : msg("geo.loadFailed"));
       setLoading(false);
     }
   }
 
   /** v1.1: curated courses */
-  const allCourses = Array.isArray(courses?.courses) ? courses.courses : [];
-  const topCourses = useMemo(() => pickTopCourses(allCourses, 2), [allCourses]);
+  const allCourses = useMemo(() => courses?.courses ?? [], [courses]);
+  const topCourses = useMemo(
+    () => pickTopCourses(allCourses, 2, courseRank, selectedDaily?.dateKey),
+    [allCourses, courseRank, selectedDaily?.dateKey]
+  );
 
   const showSims = Array.isArray(simulators?.simulators) ? simulators.simulators : [];
 
   const restCourses = useMemo(() => {
     if (!allCourses.length) return [];
     if (!topCourses.length) return allCourses;
-    const topIds = new Set(topCourses.map((t: any) => t.placeId));
-    return allCourses.filter((c: any) => !topIds.has(c.placeId));
+    const topIds = new Set(topCourses.map((t) => t.placeId));
+    return allCourses.filter((c) => !topIds.has(c.placeId));
   }, [allCourses, topCourses]);
 
+  // Seed the comparison with the best-rated picks whenever the course list changes.
+  useEffect(() => {
+    const list = Array.isArray(courses?.courses) ? courses.courses : [];
+    setCompareIds(
+      pickTopCourses(list, 4)
+        .filter((c) => Number.isFinite(c?.lat) && Number.isFinite(c?.lon))
+        .map((c) => c.placeId)
+    );
+    setComparison(null);
+    setCompareErr(null);
+  }, [courses]);
+
+  function toggleCompare(placeId: string) {
+    setCompareIds((ids) =>
+      ids.includes(placeId) ? ids.filter((id) => id !== placeId) : ids.length < COMPARE_MAX ? [...ids, placeId] : ids
+    );
+  }
+
+  async function runCompare() {
+    const picked = allCourses.filter((c) => compareIds.includes(c.placeId));
+    const dateKey = selectedDaily?.dateKey;
+    if (picked.length < 2 || !dateKey) return;
+
+    // Courses already carry coordinates + elevation, so send points rather than re-resolving place IDs.
+    const points = picked
+      .map((c) => (c.elevationM != null ? `${c.lat},${c.lon},${Math.round(c.elevationM)}` : `${c.lat},${c.lon}`))
+      .join(";");
+    const from = coords ? `&from=${coords.lat},${coords.lon}` : "";
+
+    setComparing(true);
+    setCompareErr(null);
+    try {
+      const data = await fetchContract(
+        `/api/compare?points=${encodeURIComponent(points)}&date=${dateKey}${from}&holes=${holes}&${profileQuery(profile)}&units=${units}&lang=${locale}`,
+        compareResponse
+      );
+      setComparison({
+        dayLabel: selectedDaily?.dayLabel ?? dateKey,
+        routing: data.routing,
+        rows: data.results.map((r) => ({ ...r, course: picked[r.index] ?? null })),
+      });
+    } catch (e) {
+      setComparison(null);
+      setCompareErr(e instanceof RateLimitedError ? loadError("compare", e) : msg("compare.failed"));
+    } finally {
+      setComparing(false);
+    }
+  }
+
   return (
     <main className="min-h-screen bg-[#0b0f14] text-white">
       <div className="relative">
@@ -1342,10 +1326,10 @@ return {
 		{/* About button – safe, non-intrusive */}
   <div className="absolute right-4 top-4 z-50 md:right-6 md:top-6">
     <Link
-      href="/about"
+      href={`/about?lang=${locale}`}
       className="rounded-2xl bg-white/10 px-4 py-2 text-sm font-semibold text-white/90 ring-1 ring-white/10 hover:bg-white/15 transition"
     >
-      About
+      {t(locale, "page.about")}
     </Link>
   </div>
           <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
@@ -1355,10 +1339,10 @@ return {
               </div>
 
               <h1 className="mt-3 text-3xl font-semibold tracking-tight sm:text-4xl md:mt-4 md:text-5xl">
-                Your tee-time forecast.
+                {t(locale, "page.headline")}
               </h1>
               <p className="mt-2 text-sm text-white/75 md:mt-3 md:text-base">
-                Search a city or course — we’ll score the conditions and find the best 3‑hour daylight window.
+                {t(locale, "page.tagline")}
               </p>
             </div>
 
@@ -1367,7 +1351,7 @@ return {
                 onClick={useMyLocation}
                 className="rounded-2xl bg-white px-4 py-2 text-sm font-semibold text-black hover:opacity-90"
               >
-                Use my location
+                {t(locale, "page.useMyLocation")}
               </button>
               {coords && cityQuery && (
                 <div className="rounded-2xl bg-white/10 px-4 py-2 text-sm text-white/80">
@@ -1382,7 +1366,7 @@ return {
               <input
                 value={cityQuery}
                 onChange={(e) => setCityQuery(e.target.value)}
-                placeholder="Search city or course: Guelph, Toronto, Glen Abbey…"
+                placeholder={t(locale, "page.searchPlaceholder")}
                 className="w-full rounded-2xl border border-white/10 bg-white/10 px-4 py-3 text-sm text-white placeholder:text-white/50 outline-none focus:border-white/25"
               />
 
@@ -1400,12 +1384,12 @@ return {
                 </div>
               )}
 
-              {searching && <div className="mt-2 text-xs text-white/60">Searching…</div>}
+              {searching && <div className="mt-2 text-xs text-white/60">{t(locale, "page.searching")}</div>}
             </div>
 
             {geoErr && (
               <div className="mt-3 rounded-2xl bg-rose-500/15 p-3 text-sm text-rose-200">
-                {geoErr}
+                {t(locale, geoErr)}
               </div>
             )}
           </section>
@@ -1415,7 +1399,7 @@ return {
       <div className="mx-auto max-w-5xl px-4 pb-12 pt-6 md:px-6 md:pb-16 md:pt-8">
         {!loading && !(weather?.golf || selectedDaily?.golf) && (
           <section>
-            <div className="text-sm font-semibold text-white/50 uppercase tracking-wider mb-4">Popular destinations</div>
+            <div className="text-sm font-semibold text-white/50 uppercase tracking-wider mb-4">{t(locale, "page.popular")}</div>
             <div className="grid gap-2 grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
               {[
                 { label: "Scottsdale, AZ", slug: "scottsdale", emoji: "☀️" },
@@ -1475,6 +1459,27 @@ return {
           </section>
         )}
 
+        {loadErrs.weather && (
+          <section className="mb-4 rounded-3xl bg-rose-500/15 p-4 text-sm text-rose-200">{t(locale, loadErrs.weather)}</section>
+        )}
+
+        {Array.isArray(weather?.alerts) && weather.alerts.length > 0 && (
+          <section className="mb-4 rounded-3xl border border-rose-500/30 bg-rose-500/15 p-4 text-sm text-rose-100">
+            <div className="font-semibold">{tm(locale, {}, "alerts.heading", { count: weather.alerts.length })}</div>
+            <ul className="mt-2 space-y-1">
+              {weather.alerts.map((a, i) => (
+                <li key={`${a.title}-${a.start}-${i}`}>
+                  <span className="font-semibold">{a.title}</span>
+                  <span className="text-rose-200/80">
+                    {" "}· {a.startDayLabel} {a.startLabel} – {a.endDayLabel} {a.endLabel}
+                    {a.severity && a.severity !== "unknown" ? ` · ${t(locale, `alerts.severity.${a.severity}`)}` : ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {(weather?.golf || selectedDaily?.golf) && (
           <section className={`rounded-3xl bg-white/5 p-4 shadow-sm ring-1 md:p-6 ${style.ring}`}>
             <div className="flex flex-col gap-6 md:flex-row md:items-start md:justify-between">
@@ -1489,11 +1494,11 @@ return {
                     <div className="flex items-center gap-2">
                       <div className="text-2xl font-semibold">{verdictLabel}</div>
                       <div className="rounded-full bg-white/10 px-2.5 py-0.5 text-sm text-white/60">
-                        {selectedDay === 0 ? "Today" : selectedDaily?.dayLabel ?? ""}
+                        {selectedDay === 0 ? t(locale, "page.today") : selectedDaily?.dayLabel ?? ""}
                       </div>
                     </div>
                     <div className="mt-1 text-sm text-white/70">
-                      Score: <span className="font-semibold text-white">{showScore}</span>/100 —{" "}
+                      {t(locale, "page.score")}: <span className="font-semibold text-white">{showScore}</span>/100 —{" "}
                       {showReason}
                     </div>
 
@@ -1507,9 +1512,84 @@ return {
                       <div className="mt-2 text-sm text-white/80">{confidenceLine}</div>
                     )}
 
-                    {carryChangeText && (
-                      <div className="mt-3">
-                        <Chip>🏌️ Ball flight: {carryChangeText} vs typical</Chip>
+                    {clubTable && (
+                      <div className="mt-3 rounded-2xl bg-white/5 p-3 text-xs text-white/70">
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold text-white/80">{t(locale, "clubs.playsLike")}</span>
+                          <button
+                            onClick={() => setEditingClubs((v) => !v)}
+                            className="text-white/50 underline decoration-white/30 hover:text-white"
+                          >
+                            {editingClubs ? t(locale, "clubs.done") : t(locale, "clubs.edit")}
+                          </button>
+                        </div>
+
+                        {editingClubs ? (
+                          <div className="mt-2 space-y-1.5">
+                            {clubs.map((c, i) => (
+                              <div key={i} className="flex items-center gap-2">
+                                <input
+                                  value={c.name}
+                                  onChange={(e) => saveClubs(clubs.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)))}
+                                  className="w-24 rounded-lg bg-white/10 px-2 py-1 text-white outline-none"
+                                />
+                                <input
+                                  type="number"
+                                  min={10}
+                                  max={400}
+                                  value={c.carryYds}
+                                  onChange={(e) => {
+                                    const n = Number(e.target.value);
+                                    if (Number.isFinite(n)) saveClubs(clubs.map((x, j) => (j === i ? { ...x, carryYds: n } : x)));
+                                  }}
+                                  className="w-20 rounded-lg bg-white/10 px-2 py-1 text-white outline-none"
+                                />
+                                <span className="text-white/40">{t(locale, "clubs.carry")}</span>
+                                <button
+                                  onClick={() => saveClubs(clubs.filter((_, j) => j !== i))}
+                                  className="text-white/40 hover:text-white"
+                                >
+                                  ✕
+                                </button>
+                              </div>
+                            ))}
+                            <button
+                              onClick={() => saveClubs([...clubs, { name: t(locale, "clubs.newClub"), carryYds: 150 }])}
+                              className="text-white/50 underline decoration-white/30 hover:text-white"
+                            >
+                              {t(locale, "clubs.add")}
+                            </button>
+                          </div>
+                        ) : (
+                          <table className="mt-2 w-full text-left">
+                            <thead className="text-white/40">
+                              <tr>
+                                <th className="font-normal">{t(locale, "clubs.club")}</th>
+                                <th className="font-normal">{t(locale, "clubs.carries")}</th>
+                                <th className="font-normal">{t(locale, "clubs.intoWind")}</th>
+                                <th className="font-normal">{t(locale, "clubs.downwind")}</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {clubTable.map((r, i) => (
+                                <tr key={i}>
+                                  <td className="text-white/60">
+                                    {r.club.name} <span className="text-white/30">{r.club.carryYds}</span>
+                                  </td>
+                                  <td className="text-white">
+                                    {r.calm.carryYds}{" "}
+                                    <span className="text-white/40">
+                                      ({r.calm.totalPct > 0 ? "+" : ""}
+                                      {r.calm.totalPct}%)
+                                    </span>
+                                  </td>
+                                  <td>{r.into.carryYds}</td>
+                                  <td>{r.down.carryYds}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
                       </div>
                     )}
 
@@ -1536,7 +1616,7 @@ return {
   <div className="mt-4 inline-flex flex-wrap items-center gap-x-3 gap-y-1 rounded-2xl bg-white/10 px-4 py-2 text-sm text-white/85">
     {bestWindowText && (
       <>
-        <span className="text-white/70">Best tee-time window</span>
+        <span className="text-white/70">{t(locale, "window.title")}</span>
         <span className="font-semibold">{bestWindowText}</span>
       </>
     )}
@@ -1555,9 +1635,9 @@ return {
     }
   }}
   className="ml-1 inline-flex items-center rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs font-semibold text-white/80 hover:bg-white/10"
-  title="Copy a shareable summary"
+  title={t(locale, "share.hint")}
 >
-  {copied ? "Copied" : "Share"}
+  {copied ? t(locale, "share.copied") : t(locale, "share.button")}
 </button>
 
   </div>
@@ -1566,42 +1646,42 @@ return {
                 
                 {showVerdict !== "RED" && (
                   <div className="mt-4 rounded-2xl bg-white/5 p-4 ring-1 ring-white/10">
-                    <div className="text-sm font-semibold text-white/90">How the day plays out</div>
+                    <div className="text-sm font-semibold text-white/90">{t(locale, "playOut.title")}</div>
 
                     <ul className="mt-3 space-y-2 text-sm text-white/80">
                       <li>
-                        <span className="font-semibold text-white/90">Morning</span> —{" "}
+                        <span className="font-semibold text-white/90">{t(locale, "playOut.morning")}</span> —{" "}
                         {(() => {
                           const s = playOut?.segments?.find((x: any) => x.key === "morning")?.score;
                           if (playOut?.bestBucket === "morning") {
-                            return <span className="font-semibold text-emerald-300">Best window</span>;
+                            return <span className="font-semibold text-emerald-300">{t(locale, "playOut.best")}</span>;
                           }
                           if (s == null) return "—";
-                          return s >= 80 ? "Excellent" : s >= 60 ? "Decent" : "Challenging";
+                          return t(locale, `playOut.${verdictForScore(s)}`);
                         })()}
                       </li>
 
                       <li>
-                        <span className="font-semibold text-white/90">Midday</span> —{" "}
+                        <span className="font-semibold text-white/90">{t(locale, "playOut.midday")}</span> —{" "}
                         {(() => {
                           const s = playOut?.segments?.find((x: any) => x.key === "midday")?.score;
                           if (playOut?.bestBucket === "midday") {
-                            return <span className="font-semibold text-emerald-300">Best window</span>;
+                            return <span className="font-semibold text-emerald-300">{t(locale, "playOut.best")}</span>;
                           }
                           if (s == null) return "—";
-                          return s >= 80 ? "Excellent" : s >= 60 ? "Decent" : "Challenging";
+                          return t(locale, `playOut.${verdictForScore(s)}`);
                         })()}
                       </li>
 
                       <li>
-                        <span className="font-semibold text-white/90">Late</span> —{" "}
+                        <span className="font-semibold text-white/90">{t(locale, "playOut.late")}</span> —{" "}
                         {(() => {
                           const s = playOut?.segments?.find((x: any) => x.key === "late")?.score;
                           if (playOut?.bestBucket === "late") {
-                            return <span className="font-semibold text-emerald-300">Best window</span>;
+                            return <span className="font-semibold text-emerald-300">{t(locale, "playOut.best")}</span>;
                           }
                           if (s == null) return "—";
-                          return s >= 65 ? "Holds up" : "Falls off";
+                          return t(locale, s >= 65 ? "playOut.holdsUp" : "playOut.fallsOff");
                         })()}
                       </li>
                     </ul>
@@ -1613,36 +1693,72 @@ return {
                     {greensSpeed && (
                       <div className="rounded-2xl bg-white/10 p-4 ring-1 ring-white/10">
                         <div className="flex items-start justify-between gap-3">
-                          <div className="text-sm font-semibold text-white/90">Greens speed</div>
-                          <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold" style={groundBadgeStyle(cleanGroundLabel(greensSpeed.label))}>
-                            {cleanGroundLabel(greensSpeed.label)}
+                          <div className="text-sm font-semibold text-white/90">{t(locale, "ground.greensTitle")}</div>
+                          <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold" style={groundBadgeStyle(greensSpeed.key)}>
+                            {greensBadgeText}
                           </span>
                         </div>
-                        <div className="mt-1 text-sm text-white/70">{greensSpeed.detail}</div>
+                        <div className="mt-1 text-sm text-white/70">
+                          {greensSpeed.detailMessage ? t(locale, greensSpeed.detailMessage, { units, timeZone }) : greensSpeed.detail}
+                        </div>
                       </div>
                     )}
 
                     {fairwayRollout && (
                       <div className="rounded-2xl bg-white/10 p-4 ring-1 ring-white/10">
                         <div className="flex items-start justify-between gap-3">
-                          <div className="text-sm font-semibold text-white/90">Fairway rollout</div>
-                          <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold" style={groundBadgeStyle(cleanGroundLabel(fairwayRollout.label))}>
-                            {cleanGroundLabel(fairwayRollout.label)}
+                          <div className="text-sm font-semibold text-white/90">{t(locale, "ground.rolloutTitle")}</div>
+                          <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold" style={groundBadgeStyle(fairwayRollout.key)}>
+                            {rolloutBadgeText}
                           </span>
                         </div>
-                        <div className="mt-1 text-sm text-white/70">{fairwayRollout.detail}</div>
+                        <div className="mt-1 text-sm text-white/70">
+                          {fairwayRollout.detailMessage
+                            ? t(locale, fairwayRollout.detailMessage, { units, timeZone })
+                            : fairwayRollout.detail}
+                        </div>
+                      </div>
+                    )}
+
+                    {firmness && (
+                      <div className="rounded-2xl bg-white/10 p-4 ring-1 ring-white/10">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="text-sm font-semibold text-white/90">{t(locale, "ground.firmnessTitle")}</div>
+                          <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold" style={groundBadgeStyle(firmness.key)}>
+                            {t(locale, `ground.firmness.${firmness.key}`)}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-sm text-white/70">{t(locale, firmness.detailMessage, { units, timeZone })}</div>
+                      </div>
+                    )}
+
+                    {cartPathOnly && (
+                      <div className="rounded-2xl bg-white/10 p-4 ring-1 ring-white/10">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="text-sm font-semibold text-white/90">{t(locale, "ground.cartPathTitle")}</div>
+                          <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold" style={groundBadgeStyle(cartPathOnly.key)}>
+                            {t(locale, `ground.cartPath.${cartPathOnly.key}`)}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-sm text-white/70">{t(locale, cartPathOnly.detailMessage, { units, timeZone })}</div>
                       </div>
                     )}
 
                     {(selectedGround?.past48hPrecipMm != null || selectedGround?.past24hPrecipMm != null) && (
                       <div className="md:col-span-2 text-xs text-white/55">
-                        Recent precip: {selectedGround?.past24hPrecipMm ?? "—"}mm (24h) · {selectedGround?.past48hPrecipMm ?? "—"}mm (48h)
+                        {tm(locale, {}, "ground.recentPrecip", {
+                          day: selectedGround?.past24hPrecipMm != null ? formatPrecip(selectedGround.past24hPrecipMm, units) : "—",
+                          twoDays: selectedGround?.past48hPrecipMm != null ? formatPrecip(selectedGround.past48hPrecipMm, units) : "—",
+                        })}
                       </div>
                     )}
 
-                    {selectedGround?.forecast48hWetnessMm != null && (
+                    {selectedGround && (
                       <div className="md:col-span-2 text-xs text-white/55">
-                        Wetness proxy: {selectedGround.forecast48hWetnessMm}mm (prior 48h forecast window)
+                        {tm(locale, {}, "ground.moisture", { pct: selectedGround.moisturePct })}
+                        {selectedGround.forecast48hWetnessMm != null
+                          ? ` · ${tm(locale, { units }, "ground.forecastWetness", { mm: selectedGround.forecast48hWetnessMm })}`
+                          : ""}
                       </div>
                     )}
                   </div>
@@ -1650,7 +1766,95 @@ return {
 
                 <div className="mt-4">
                   <div className="flex flex-wrap items-center gap-3">
-                    <div className="text-sm text-white/70">Tee time (optional)</div>
+                    <div className="text-sm text-white/70">{t(locale, "settings.round")}</div>
+                    <div className="inline-flex overflow-hidden rounded-2xl border border-white/10">
+                      {([9, 18] as const).map((h) => (
+                        <button
+                          key={h}
+                          onClick={() => changeHoles(h)}
+                          className={[
+                            "px-3 py-2 text-sm transition",
+                            holes === h ? "bg-white/20 text-white" : "bg-white/5 text-white/60 hover:bg-white/10",
+                          ].join(" ")}
+                        >
+                          {tm(locale, {}, "settings.holes", { holes: h })}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="inline-flex overflow-hidden rounded-2xl border border-white/10">
+                      {(["walk", "cart"] as const).map((p) => (
+                        <button
+                          key={p}
+                          onClick={() => changeProfile({ pace: p })}
+                          className={[
+                            "px-3 py-2 text-sm transition",
+                            pace === p ? "bg-white/20 text-white" : "bg-white/5 text-white/60 hover:bg-white/10",
+                          ].join(" ")}
+                        >
+                          {t(locale, p === "walk" ? "settings.walk" : "settings.cart")}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap items-center gap-3">
+                    <div className="text-sm text-white/70">{t(locale, "settings.limits")}</div>
+                    {(["cold", "wind", "rain"] as const).map((k) => (
+                      <div key={k} className="inline-flex items-center gap-2">
+                        <span className="text-xs text-white/50 capitalize">{t(locale, `tolerance.${k}`)}</span>
+                        <div className="inline-flex overflow-hidden rounded-2xl border border-white/10">
+                          {(["low", "normal", "high"] as const).map((tol) => (
+                            <button
+                              key={tol}
+                              onClick={() => changeProfile({ [k]: tol })}
+                              className={[
+                                "px-2.5 py-1.5 text-xs transition",
+                                profile[k] === tol ? "bg-white/20 text-white" : "bg-white/5 text-white/60 hover:bg-white/10",
+                              ].join(" ")}
+                            >
+                              {t(locale, `tolerance.${k}.${tol}`)}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap items-center gap-3">
+                    <div className="text-sm text-white/70">{t(locale, "settings.units")}</div>
+                    <div className="inline-flex overflow-hidden rounded-2xl border border-white/10">
+                      {UNIT_SYSTEMS.map((u) => (
+                        <button
+                          key={u}
+                          onClick={() => changeUnits(u)}
+                          className={[
+                            "px-2.5 py-1.5 text-xs transition",
+                            units === u ? "bg-white/20 text-white" : "bg-white/5 text-white/60 hover:bg-white/10",
+                          ].join(" ")}
+                        >
+                          {UNIT_LABELS[u]}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="text-sm text-white/70">{t(locale, "settings.language")}</div>
+                    <div className="inline-flex overflow-hidden rounded-2xl border border-white/10">
+                      {LOCALES.map((l) => (
+                        <button
+                          key={l}
+                          onClick={() => changeLocale(l)}
+                          className={[
+                            "px-2.5 py-1.5 text-xs transition",
+                            locale === l ? "bg-white/20 text-white" : "bg-white/5 text-white/60 hover:bg-white/10",
+                          ].join(" ")}
+                        >
+                          {LOCALE_LABELS[l]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="mt-3 flex flex-wrap items-center gap-3">
+                    <div className="text-sm text-white/70">{t(locale, "settings.teeTime")}</div>
 
                     <input
                       type="time"
@@ -1664,7 +1868,7 @@ return {
                         onClick={() => setTeeTime("")}
                         className="text-sm text-white/60 underline decoration-white/30 hover:text-white"
                       >
-                        clear
+                        {t(locale, "settings.clear")}
                       </button>
                     )}
                   </div>
@@ -1675,41 +1879,106 @@ return {
                     </div>
                   )}
 
-                  {teeTimeResult && (
+                  {teeRound && (
                     <div className={`mt-3 inline-flex items-center gap-3 rounded-2xl px-4 py-2.5 text-sm border ${
-                      teeTimeResult.score >= 80 
+                      teeRound.golf.verdict === "GREEN"
                         ? "bg-emerald-500/15 border-emerald-500/30" 
-                        : teeTimeResult.score >= 60 
+                        : teeRound.golf.verdict === "YELLOW"
                         ? "bg-amber-500/15 border-amber-500/30"
                         : "bg-rose-500/15 border-rose-500/30"
                     }`}>
                       <div className="flex items-center gap-2">
-                        <span className="text-white/60 text-xs">At {teeTime}</span>
-                        <span className="font-bold text-white text-lg">{teeTimeResult.score}/100</span>
+                        <span className="text-white/60 text-xs">{tm(locale, {}, "teeTime.at", { time: teeTime })}</span>
+                        <span className="font-bold text-white text-lg">{teeRound.golf.score}/100</span>
                       </div>
-                      <span className="text-white/30">·</span>
-                      <span className="text-white/50 text-xs">
-                        wind {teeTimeResult.windKph}k · {teeTimeResult.conditions}
-                      </span>
+                      {teeRound.teeOff && (
+                        <>
+                          <span className="text-white/30">·</span>
+                          <span className="text-white/50 text-xs">
+                            {tm(locale, {}, "page.wind", { text: windShort(teeRound.teeOff.windKph, units) })}
+                            {` · ${tm(locale, {}, "teeTime.rain", { pct: teeRound.teeOff.rainChancePct })}`}
+                            {teeRound.teeOff.conditions ? ` · ${teeRound.teeOff.conditions}` : ""}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {teeRound && (
+                    <div className="mt-2 text-xs text-white/60">
+                      {tm(locale, {}, "teeRound.finishes", { time: teeRound.endLabel })}
+                      {teeRound.worstStretch
+                        ? ` · ${tm(locale, {}, "teeRound.toughest", {
+                            fromHole: teeRound.worstStretch.fromHole,
+                            toHole: teeRound.worstStretch.toHole,
+                            score: teeRound.worstStretch.avgScore,
+                          })}`
+                        : ""}
+                      {teeRound.finishesBeforeSunset === true
+                        ? ` · ${t(locale, "teeRound.beforeSunset")}`
+                        : teeRound.finishesBeforeSunset === false
+                          ? ` · ${tm(locale, {}, "teeRound.pastSunset", { time: teeRound.sunsetLabel ?? "—" })}`
+                          : ""}
+                    </div>
+                  )}
+
+                  <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-white/60">
+                    <span>{t(locale, "layout.title")}</span>
+                    {courseLayout ? (
+                      <>
+                        <span className="text-white/80">{courseLayout.name ?? t(locale, "layout.uploaded")}</span>
+                        <button onClick={clearLayout} className="underline decoration-white/30 hover:text-white">
+                          {t(locale, "layout.remove")}
+                        </button>
+                      </>
+                    ) : (
+                      <label className="cursor-pointer underline decoration-white/30 hover:text-white">
+                        {t(locale, "layout.upload")}
+                        <input
+                          type="file"
+                          accept=".json,.geojson,application/json,application/geo+json"
+                          className="hidden"
+                          onChange={(e) => uploadLayout(e.target.files?.[0])}
+                        />
+                      </label>
+                    )}
+                    {layoutErr && <span className="text-rose-300">{t(locale, layoutErr)}</span>}
+                  </div>
+
+                  {teeRound && holeWinds.length > 0 && (
+                    <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-white/70 sm:grid-cols-3">
+                      {holeWinds.map((w) => {
+                        const adj = w.adjustYards;
+                        const along =
+                          w.headKph >= 0
+                            ? tm(locale, { units }, "holeWind.into", { kph: w.headKph })
+                            : tm(locale, { units }, "holeWind.helping", { kph: -w.headKph });
+                        return (
+                          <div key={w.hole}>
+                            <span className="text-white/50">#{w.hole}</span> {tm(locale, {}, "holeWind.plays", { yards: w.yards })}{" "}
+                            <span className={adj > 0 ? "text-amber-200" : adj < 0 ? "text-emerald-200" : "text-white"}>
+                              {w.playsYards}
+                              {adj !== 0 ? ` (${adj > 0 ? "+" : ""}${adj})` : ""}
+                            </span>{" "}
+                            <span className="text-white/40">· {along}</span>
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
                 </div>
 
                 {Array.isArray(weather?.daily) && weather.daily.length > 0 && (
                   <div className="mt-5">
-                    <div className="text-xs font-semibold text-white/60">Next 5 days</div>
+                    <div className="text-xs font-semibold text-white/60">{t(locale, "days.title")}</div>
                     <div className="mt-3 flex flex-wrap gap-2">
                       {weather.daily.slice(0, 5).map((d: any, idx: number) => {
                         const v = d?.golf?.verdict;
                         const dot = v === "GREEN" ? "🟢" : v === "YELLOW" ? "🟡" : "🔴";
                         const active = idx === selectedDay;
 
-                        const dayGreens = d?.ground?.greensSpeed?.label
-                          ? cleanGroundLabel(d.ground.greensSpeed.label)
-                          : null;
-                        const dayRoll = d?.ground?.fairwayRollout?.label
-                          ? cleanGroundLabel(d.ground.fairwayRollout.label)
-                          : null;
+                        const dayGreens = groundWord(locale, d?.ground, "greens");
+                        const dayRoll = groundWord(locale, d?.ground, "rollout");
 
                         return (
                           <button
@@ -1724,13 +1993,20 @@ return {
                           >
                             <div className="flex items-center gap-2">
                               <span>{dot}</span>
-                              <span className="font-semibold">{idx === 0 ? "Today" : d.dayLabel}</span>
+                              <span className="font-semibold">{idx === 0 ? t(locale, "page.today") : d.dayLabel}</span>
                             </div>
                             <div className="mt-1 text-xs text-white/65">
-                              {d.maxTemp ?? "—"}° / {d.minTemp ?? "—"}° · wind{" "}
-                              {d.windMax ?? "—"}k
-                              <span className="text-white/50"> (gust {d.gustMax ?? "—"}k)</span>
+                              {d.maxTemp != null ? `${tempIn(d.maxTemp, units).value}°` : "—"} /{" "}
+                              {d.minTemp != null ? `${tempIn(d.minTemp, units).value}°` : "—"} ·{" "}
+                              {tm(locale, {}, "page.wind", { text: d.windMax != null ? windShort(d.windMax, units) : "—" })}
+                              <span className="text-white/50">
+                                {" "}
+                                {tm(locale, {}, "page.gust", { text: d.gustMax != null ? windShort(d.gustMax, units) : "—" })}
+                              </span>
                             </div>
+                            {typeof d?.rainChancePct === "number" && (
+                              <div className="mt-0.5 text-xs text-white/55">{tm(locale, {}, "days.rainChance", { pct: d.rainChancePct })}</div>
+                            )}
                           </button>
                         );
                       })}
@@ -1743,27 +2019,41 @@ return {
                 {selectedDay === 0 ? (
                   <>
                     <div className="flex justify-between gap-6">
-                      <span className="text-white/60">Temp</span>
+                      <span className="text-white/60">{t(locale, "panel.temp")}</span>
                       <span>
-                        {weather?.current?.temp ?? "—"}°C{" "}
+                        {weather ? formatTemp(weather.current.temp, units) : "—"}{" "}
                         <span className="text-white/50">
-                          (feels {weather?.current?.feels ?? "—"}°C)
+                          {tm(locale, {}, "panel.feels", { text: weather ? formatTemp(weather.current.feels, units) : "—" })}
                         </span>
                       </span>
                     </div>
                     <div className="mt-2 flex justify-between gap-6">
-                      <span className="text-white/60">Wind</span>
+                      <span className="text-white/60">{t(locale, "panel.wind")}</span>
                       <span>
-                        {weather?.current?.windKph ?? "—"} km/h{" "}
+                        {weather ? formatWind(weather.current.windKph, units) : "—"}{" "}
                         <span className="text-white/50">
-                          (gust {weather?.current?.gustKph ?? "—"})
+                          {tm(locale, {}, "page.gust", {
+                            text: weather?.current?.gustKph != null ? String(windIn(weather.current.gustKph, units).value) : "—",
+                          })}
                         </span>
                       </span>
                     </div>
 
+                    {typeof weather?.current?.humidityPct === "number" && (
+                      <div className="mt-2 flex justify-between gap-6">
+                        <span className="text-white/60">{t(locale, "panel.humidity")}</span>
+                        <span>
+                          {weather.current.humidityPct}%
+                          {typeof weather?.current?.uvIndex === "number" && (
+                            <span className="text-white/50"> (UV {Math.round(weather.current.uvIndex)})</span>
+                          )}
+                        </span>
+                      </div>
+                    )}
+
                     {weather?.current?.conditions && (
                       <div className="mt-2 flex justify-between gap-6">
-                        <span className="text-white/60">Conditions</span>
+                        <span className="text-white/60">{t(locale, "panel.conditions")}</span>
                         <span>{weather.current.conditions}</span>
                       </div>
                     )}
@@ -1771,57 +2061,138 @@ return {
                 ) : (
                   <>
                     <div className="flex justify-between gap-6">
-                      <span className="text-white/60">High / Low</span>
+                      <span className="text-white/60">{t(locale, "panel.highLow")}</span>
                       <span>
-                        {selectedDaily?.maxTemp ?? "—"}° / {selectedDaily?.minTemp ?? "—"}°
+                        {selectedDaily?.maxTemp != null ? formatTemp(selectedDaily.maxTemp, units) : "—"} /{" "}
+                        {selectedDaily?.minTemp != null ? formatTemp(selectedDaily.minTemp, units) : "—"}
                       </span>
                     </div>
                     <div className="mt-2 flex justify-between gap-6">
-                      <span className="text-white/60">Max wind</span>
+                      <span className="text-white/60">{t(locale, "panel.maxWind")}</span>
                       <span>
-                        {selectedDaily?.windMax ?? "—"} km/h
-                        <span className="text-white/50"> (gust {selectedDaily?.gustMax ?? "—"})</span>
+                        {selectedDaily?.windMax != null ? formatWind(selectedDaily.windMax, units) : "—"}
+                        <span className="text-white/50">
+                          {" "}
+                          {tm(locale, {}, "page.gust", {
+                            text: selectedDaily?.gustMax != null ? String(windIn(selectedDaily.gustMax, units).value) : "—",
+                          })}
+                        </span>
                       </span>
                     </div>
 
+                    {typeof selectedDaily?.humidityMax === "number" && (
+                      <div className="mt-2 flex justify-between gap-6">
+                        <span className="text-white/60">{t(locale, "panel.maxHumidity")}</span>
+                        <span>
+                          {selectedDaily.humidityMax}%
+                          {typeof selectedDaily?.uvMax === "number" && (
+                            <span className="text-white/50"> (UV {Math.round(selectedDaily.uvMax)})</span>
+                          )}
+                        </span>
+                      </div>
+                    )}
+
+                    {typeof selectedDaily?.rainChancePct === "number" && (
+                      <div className="mt-2 flex justify-between gap-6">
+                        <span className="text-white/60">{t(locale, "panel.rainChance")}</span>
+                        <span>{selectedDaily.rainChancePct}%</span>
+                      </div>
+                    )}
+
                     {selectedDaily?.conditions && (
                       <div className="mt-2 flex justify-between gap-6">
-                        <span className="text-white/60">Conditions</span>
+                        <span className="text-white/60">{t(locale, "panel.conditions")}</span>
                         <span>{selectedDaily.conditions}</span>
                       </div>
                     )}
                   </>
                 )}
+
+                {selectedDaily?.frostDelay && (
+                  <div className="mt-2 flex justify-between gap-6">
+                    <span className="text-white/60">{t(locale, "panel.frost")}</span>
+                    <span>
+                      {selectedDaily.frostDelay.likely
+                        ? selectedDaily.frostDelay.expectedClearLabel
+                          ? tm(locale, {}, "panel.frostClear", { time: selectedDaily.frostDelay.expectedClearLabel })
+                          : t(locale, "panel.frostMayNotLift")
+                        : t(locale, "panel.frostPossible")}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </section>
         )}
 
         {/* v1.1: curated “Top picks near you” + expandable full list */}
-        {(topCourses.length > 0 || allCourses.length > 0) && (
+        {(topCourses.length > 0 || allCourses.length > 0 || maxDrive != null || courses?.degraded || loadErrs.courses) && (
           <section className="mt-8">
             <div className="flex items-end justify-between gap-6">
               <div>
-                <h2 className="text-xl font-semibold">Top picks near you</h2>
+                <h2 className="text-xl font-semibold">{t(locale, "courses.title")}</h2>
                 <div className="mt-1 text-sm text-white/60">
-                  Curated by rating + “open now” (quick list — not a directory).
+                  {t(locale, courseRank === "conditions" ? "courses.byConditions" : "courses.byRating")}
+                </div>
+                <div className="mt-2 inline-flex rounded-full bg-white/5 p-1 text-xs">
+                  {(["conditions", "rating"] as const).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setCourseRank(m)}
+                      className={[
+                        "rounded-full px-3 py-1 transition",
+                        courseRank === m ? "bg-white/15 font-semibold text-white" : "text-white/60 hover:text-white/85",
+                      ].join(" ")}
+                    >
+                      {t(locale, `courses.rank.${m}`)}
+                    </button>
+                  ))}
+                </div>
+                <div className="mt-2 ml-2 inline-flex rounded-full bg-white/5 p-1 text-xs">
+                  {DRIVE_OPTIONS.map((m) => (
+                    <button
+                      key={m ?? "any"}
+                      onClick={() => changeMaxDrive(m)}
+                      className={[
+                        "rounded-full px-3 py-1 transition",
+                        maxDrive === m ? "bg-white/15 font-semibold text-white" : "text-white/60 hover:text-white/85",
+                      ].join(" ")}
+                    >
+                      {m == null ? t(locale, "courses.anyDrive") : tm(locale, {}, "courses.maxDrive", { min: m })}
+                    </button>
+                  ))}
                 </div>
               </div>
 
               <div className="text-sm text-white/60">
-                {showVerdict === "RED" ? "Likely closed (try sims)" : "Tap for directions"}
+                {t(locale, showVerdict === "RED" ? "courses.trySims" : "courses.tapHint")}
               </div>
             </div>
 
+            {loadErrs.courses && (
+              <div className="mt-4 rounded-2xl bg-rose-500/15 p-3 text-sm text-rose-200">{t(locale, loadErrs.courses)}</div>
+            )}
+
             {topCourses.length > 0 ? (
               <div className="mt-4 grid gap-3 md:grid-cols-2">
-                {topCourses.map((c: any) => (
-                  <CourseCard key={c.placeId} c={c} />
+                {topCourses.map((c) => (
+                  <CourseCard
+                    key={c.placeId}
+                    c={c}
+                    day={courseDay(c, selectedDaily?.dateKey)}
+                    estimated={courses?.routing === "estimate"}
+                    units={units}
+                    locale={locale}
+                  />
                 ))}
               </div>
-            ) : (
+            ) : loadErrs.courses ? null : (
               <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-white/70">
-                No courses found nearby.
+                {courses?.degraded
+                  ? t(locale, "courses.degraded")
+                  : maxDrive != null
+                    ? tm(locale, {}, "courses.noneWithin", { min: maxDrive })
+                    : t(locale, "courses.none")}
               </div>
             )}
 
@@ -1831,13 +2202,22 @@ return {
                   onClick={() => setShowAllCourses((v) => !v)}
                   className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-semibold text-white/85 hover:bg-white/10"
                 >
-                  {showAllCourses ? "Show less" : `Show ${restCourses.length} more`}
+                  {showAllCourses
+                    ? t(locale, "courses.showLess")
+                    : tm(locale, {}, "courses.showMore", { count: restCourses.length })}
                 </button>
 
                 {showAllCourses && (
                   <div className="mt-4 grid gap-3 md:grid-cols-2">
-                    {restCourses.map((c: any) => (
-                      <CourseCard key={c.placeId} c={c} />
+                    {restCourses.map((c) => (
+                      <CourseCard
+                        key={c.placeId}
+                        c={c}
+                        day={courseDay(c, selectedDaily?.dateKey)}
+                        estimated={courses?.routing === "estimate"}
+                        units={units}
+                        locale={locale}
+                      />
                     ))}
                   </div>
                 )}
@@ -1846,11 +2226,154 @@ return {
           </section>
         )}
 
+        {allCourses.length > 1 && selectedDaily?.dateKey && (
+          <section className="mt-8">
+            <div className="flex items-end justify-between gap-6">
+              <div>
+                <h2 className="text-xl font-semibold">{t(locale, "compare.title")}</h2>
+                <div className="mt-1 text-sm text-white/60">
+                  {tm(locale, {}, "compare.intro", {
+                    max: COMPARE_MAX,
+                    day: selectedDaily.dayLabel ?? t(locale, "compare.selectedDay"),
+                  })}
+                </div>
+              </div>
+
+              <button
+                onClick={runCompare}
+                disabled={comparing || compareIds.length < 2}
+                className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-semibold text-white/85 hover:bg-white/10 disabled:opacity-50"
+              >
+                {comparing ? t(locale, "compare.running") : tm(locale, {}, "compare.button", { count: compareIds.length })}
+              </button>
+            </div>
+
+            <div className="mt-4 flex flex-wrap gap-2">
+              {allCourses
+                .filter((c) => c.lat != null && c.lon != null)
+                .map((c: { placeId: string; name: string }) => {
+                  const on = compareIds.includes(c.placeId);
+                  return (
+                    <button
+                      key={c.placeId}
+                      onClick={() => toggleCompare(c.placeId)}
+                      className={[
+                        "rounded-full border px-3 py-1 text-xs transition",
+                        on ? "border-white/30 bg-white/15 text-white" : "border-white/10 bg-white/5 text-white/60 hover:bg-white/10",
+                      ].join(" ")}
+                    >
+                      {on ? "✓ " : ""}
+                      {c.name}
+                    </button>
+                  );
+                })}
+            </div>
+
+            {compareErr && <div className="mt-3 text-sm text-rose-300">{t(locale, compareErr)}</div>}
+
+            {comparison && comparison.rows.length > 0 && (
+              <div className="mt-4 overflow-x-auto rounded-3xl border border-white/10 bg-white/5">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-xs text-white/60">
+                    <tr>
+                      <th className="px-4 py-3 font-semibold">#</th>
+                      <th className="px-4 py-3 font-semibold">{t(locale, "compare.col.course")}</th>
+                      <th className="px-4 py-3 font-semibold">{t(locale, "compare.col.score")}</th>
+                      <th className="px-4 py-3 font-semibold">{t(locale, "compare.col.window")}</th>
+                      <th className="px-4 py-3 font-semibold">{t(locale, "compare.col.ground")}</th>
+                      <th className="px-4 py-3 font-semibold">{t(locale, "compare.col.weather")}</th>
+                      <th className="px-4 py-3 font-semibold">{t(locale, "compare.col.distance")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.rows.map((r) => {
+                      const d = r.day;
+                      const greens = groundWord(locale, d?.ground, "greens");
+                      const roll = groundWord(locale, d?.ground, "rollout");
+                      return (
+                        <tr key={r.index} className="border-t border-white/10 align-top">
+                          <td className="px-4 py-3 text-white/60">{r.rank ?? "–"}</td>
+                          <td className="px-4 py-3">
+                            <div className="font-semibold">{r.course?.name ?? `${r.lat.toFixed(3)}, ${r.lon.toFixed(3)}`}</div>
+                            {typeof r.elevationM === "number" && (
+                              <div className="text-xs text-white/50">⛰ {formatElevation(r.elevationM, units)}</div>
+                            )}
+                          </td>
+                          {d ? (
+                            <>
+                              <td className="px-4 py-3">
+                                {verdictStyles(d.verdict).dot} {d.score}
+                                <div className="text-xs text-white/50">
+                                  {d.reasonMessage ? t(locale, d.reasonMessage, { units, timeZone }) : d.reason}
+                                </div>
+                              </td>
+                              <td className="px-4 py-3">
+                                {d.bestWindow?.startLabel && d.bestWindow?.endLabel
+                                  ? `${d.bestWindow.startLabel}–${d.bestWindow.endLabel}`
+                                  : "—"}
+                                {d.thunder?.firstStrikeLabel && (
+                                  <div className="text-xs text-amber-300">
+                                    {tm(locale, {}, "compare.stormsFrom", { time: d.thunder.firstStrikeLabel })}
+                                  </div>
+                                )}
+                                {d.frostDelay?.likely && <div className="text-xs text-sky-300">{t(locale, "compare.frostLikely")}</div>}
+                              </td>
+                              <td className="px-4 py-3 text-white/80">{[greens, roll].filter(Boolean).join(" · ") || "—"}</td>
+                              <td className="px-4 py-3 text-white/80">
+                                {d.rainChancePct != null ? `${d.rainChancePct}%` : "—"} ·{" "}
+                                {d.windMax != null ? formatWind(d.windMax, units) : "—"}
+                              </td>
+                            </>
+                          ) : (
+                            <td colSpan={4} className="px-4 py-3 text-white/60" title={r.error ?? undefined}>
+                              {t(locale, "compare.noForecast")}
+                            </td>
+                          )}
+                          <td className="px-4 py-3 text-white/80">
+                            {r.driveMin != null ? (
+                              <>
+                                🚗 {comparison.routing === "estimate" ? "~" : ""}
+                                {tm(locale, {}, "course.driveMin", { min: r.driveMin })}
+                                {r.driveKm != null && (
+                                  <div className="text-xs text-white/50">{formatDistance(r.driveKm, units)}</div>
+                                )}
+                              </>
+                            ) : r.distanceKm != null ? (
+                              formatDistance(r.distanceKm, units)
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <div className="px-4 pb-3 text-xs text-white/50">
+                  {tm(locale, {}, "compare.rankedFor", { day: comparison.dayLabel })}{" "}
+                  {t(
+                    locale,
+                    comparison.routing === "google"
+                      ? "compare.routing.google"
+                      : comparison.routing === "estimate"
+                        ? "compare.routing.estimate"
+                        : "compare.routing.none"
+                  )}
+                </div>
+              </div>
+            )}
+          </section>
+        )}
+
+        {showVerdict === "RED" && loadErrs.simulators && (
+          <div className="mt-8 rounded-2xl bg-rose-500/15 p-3 text-sm text-rose-200">{t(locale, loadErrs.simulators)}</div>
+        )}
+
         {showVerdict === "RED" && showSims.length > 0 && (
           <section className="mt-8">
             <div className="flex items-end justify-between gap-6">
-              <h2 className="text-xl font-semibold">Indoor golf / simulators</h2>
-              <div className="text-sm text-white/60">Because it’s a red day outside.</div>
+              <h2 className="text-xl font-semibold">{t(locale, "sims.title")}</h2>
+              <div className="text-sm text-white/60">{t(locale, "sims.why")}</div>
             </div>
 
             <div className="mt-4 grid gap-3 md:grid-cols-2">
@@ -1867,12 +2390,16 @@ return {
                       <div className="truncate text-base font-semibold">{s.name}</div>
                       <div className="mt-1 line-clamp-2 text-sm text-white/65">{s.address ?? ""}</div>
                       <div className="mt-3 text-sm text-white/80">
-                        {s.rating ? `⭐ ${s.rating} (${s.userRatingsTotal ?? 0})` : "No rating yet"}
-                        {s.openNow === true ? " · Open now" : s.openNow === false ? " · Closed" : ""}
+                        {s.rating ? `⭐ ${s.rating} (${s.userRatingsTotal ?? 0})` : t(locale, "course.noRating")}
+                        {s.openNow === true
+                          ? ` · ${t(locale, "course.openNow")}`
+                          : s.openNow === false
+                            ? ` · ${t(locale, "course.closed")}`
+                            : ""}
                       </div>
                     </div>
                     <div className="rounded-2xl bg-white/10 px-3 py-2 text-xs text-white/70 group-hover:bg-white/15">
-                      View
+                      {t(locale, "sims.view")}
                     </div>
                   </div>
                 </a>
@@ -1882,7 +2409,7 @@ return {
         )}
 
         <div className="mt-14 text-center text-xs text-white/45">
-          Built for quick decisions — not perfect predictions. Always check course openings + frost delays.
+          {t(locale, "page.footer")}
         </div>
       </div>
     </main>
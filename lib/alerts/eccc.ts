@@ -0,0 +1,82 @@
+import type { AlertProvider, AlertSeverity, WeatherAlert } from "./types";
+
+// Environment and Climate Change Canada via MSC GeoMet — free, no key, Canadian points only
+// (other points get an empty list). Alerts come as polygons; we ask for the ones touching a
+// ~200 m box around the point.
+type EcccFeature = {
+  properties?: {
+    alert_name_en?: string;
+    alert_short_name_en?: string;
+    alert_type?: string; // warning | watch | advisory | statement
+    risk_colour_en?: string; // yellow | orange | red
+    status_en?: string;
+    validity_datetime?: string | null;
+    publication_datetime?: string | null;
+    event_end_datetime?: string | null;
+    expiration_datetime?: string | null;
+    feature_name_en?: string;
+    alert_text_en?: string | null;
+  };
+};
+
+const BOX_DEG = 0.001;
+
+// Colour-coded alerts say how bad; older ones only say what kind.
+function toSeverity(colour: string | undefined, type: string | undefined): AlertSeverity {
+  const c = (colour ?? "").toLowerCase();
+  if (c === "red") return "extreme";
+  if (c === "orange") return "severe";
+  if (c === "yellow") return "moderate";
+
+  const t = (type ?? "").toLowerCase();
+  if (t === "warning") return "severe";
+  if (t === "watch" || t === "advisory") return "moderate";
+  if (t === "statement") return "minor";
+  return "unknown";
+}
+
+function toUnix(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? Math.round(ms / 1000) : null;
+}
+
+export function createEcccAlertProvider(): AlertProvider {
+  return {
+    id: "eccc",
+
+    async getAlerts(lat: number, lon: number): Promise<WeatherAlert[]> {
+      const bbox = [lon - BOX_DEG, lat - BOX_DEG, lon + BOX_DEG, lat + BOX_DEG].map((v) => v.toFixed(4)).join(",");
+      const url = `https://api.weather.gc.ca/collections/weather-alerts/items?f=json&lang=en&bbox=${bbox}`;
+      const r = await fetch(url, { headers: { "Accept": "application/geo+json" } });
+      if (!r.ok) throw new Error(`ECCC alerts fetch failed (${r.status})`);
+      const j = (await r.json()) as { features?: EcccFeature[] };
+
+      // One alert covers many adjoining regions; the box can touch a few of them.
+      const seen = new Set<string>();
+      const alerts: WeatherAlert[] = [];
+      for (const f of j.features ?? []) {
+        const p = f.properties ?? {};
+        if ((p.status_en ?? "").toLowerCase() === "ended") continue;
+        const start = toUnix(p.validity_datetime) ?? toUnix(p.publication_datetime);
+        const end = toUnix(p.event_end_datetime) ?? toUnix(p.expiration_datetime);
+        if (start == null || end == null) continue;
+
+        const title = p.alert_name_en ?? p.alert_short_name_en ?? "Weather alert";
+        const key = `${title}:${start}:${end}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        alerts.push({
+          title,
+          severity: toSeverity(p.risk_colour_en, p.alert_type),
+          start,
+          end,
+          source: "Environment Canada",
+          description: p.alert_text_en ?? null,
+        });
+      }
+      return alerts;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { cached, gridCell } from "@/lib/cache";
+import { createEcccAlertProvider } from "./eccc";
+import { createNwsAlertProvider } from "./nws";
+import { createOpenWeatherAlertProvider } from "./openweather";
+import type { AlertProvider, AlertSeverity, WeatherAlert } from "./types";
+
+export type { AlertProvider, AlertProviderId, AlertSeverity, WeatherAlert } from "./types";
+
+const NO_ALERTS: AlertProvider = { id: "none", getAlerts: async () => [] };
+
+// Rough box around the US and Canada (Hawaii and Puerto Rico included); each national service
+// answers for its own side of the border and returns nothing for the other.
+function inNorthAmerica(lat: number, lon: number) {
+  return lat >= 14 && lat <= 84 && lon >= -170 && lon <= -50;
+}
+
+/** By location: NWS and Environment Canada in North America, OpenWeather (when keyed) elsewhere. */
+function createAutoAlertProvider(owKey: string | undefined): AlertProvider {
+  const national = [createNwsAlertProvider(), createEcccAlertProvider()];
+  const elsewhere = owKey ? createOpenWeatherAlertProvider(owKey) : NO_ALERTS;
+  return {
+    id: "auto",
+
+    async getAlerts(lat: number, lon: number): Promise<WeatherAlert[]> {
+      if (!inNorthAmerica(lat, lon)) return elsewhere.getAlerts(lat, lon);
+      // One service being down shouldn't hide the other's warnings.
+      const settled = await Promise.allSettled(national.map((p) => p.getAlerts(lat, lon)));
+      if (settled.every((s) => s.status === "rejected")) throw settled[0].reason;
+      return settled.flatMap((s) => (s.status === "fulfilled" ? s.value : []));
+    },
+  };
+}
+
+/**
+ * Pick the alerts provider from config.
+ * ALERTS_PROVIDER=auto|nws|eccc|openweather|none; defaults to `auto`, which picks by location.
+ */
+export function getAlertProvider(env: Record<string, string | undefined> = process.env): AlertProvider {
+  const id = (env.ALERTS_PROVIDER ?? "auto").trim().toLowerCase();
+
+  if (id === "none") return NO_ALERTS;
+  if (id === "nws") return createNwsAlertProvider();
+  if (id === "eccc") return createEcccAlertProvider();
+  if (id === "openweather") {
+    return env.OPENWEATHER_API_KEY ? createOpenWeatherAlertProvider(env.OPENWEATHER_API_KEY) : NO_ALERTS;
+  }
+  return createAutoAlertProvider(env.OPENWEATHER_API_KEY);
+}
+
+/**
+ * Alerts for the grid cell around a point, cached briefly and shared by every request in the cell.
+ * Alerts are advisory; a provider outage should never take the forecast down with it.
+ */
+export async function getActiveAlerts(lat: number, lon: number, provider = getAlertProvider()): Promise<WeatherAlert[]> {
+  try {
+    const nowSec = Date.now() / 1000;
+    const cell = gridCell(lat, lon);
+    const { value: alerts } = await cached("alerts", `${provider.id}:${cell.key}`, () =>
+      provider.getAlerts(cell.lat, cell.lon)
+    );
+    return alerts.filter((a) => a.end > nowSec).sort((a, b) => a.start - b.start);
+  } catch {
+    return [];
+  }
+}
+
+// Minor statements (air quality, special weather statements) are shown but don't stop play.
+const BLOCKING_SEVERITIES = new Set<AlertSeverity>(["moderate", "severe", "extreme", "unknown"]);
+
+export function isBlockingAlert(a: WeatherAlert) {
+  return BLOCKING_SEVERITIES.has(a.severity);
+}
+
+/** True if any blocking alert overlaps [startDt, endDt). */
+export function alertBlocks(alerts: WeatherAlert[], startDt: number, endDt: number) {
+  return alerts.some((a) => isBlockingAlert(a) && a.start < endDt && a.end > startDt);
+}
@@ -0,0 +1,62 @@
+import type { AlertProvider, AlertSeverity, WeatherAlert } from "./types";
+
+// US National Weather Service — free, no key, US points only (other points get an empty list).
+type NwsFeature = {
+  properties?: {
+    event?: string;
+    headline?: string;
+    severity?: string;
+    onset?: string | null;
+    effective?: string | null;
+    ends?: string | null;
+    expires?: string | null;
+    senderName?: string;
+    description?: string | null;
+  };
+};
+
+function toSeverity(v: string | undefined): AlertSeverity {
+  const s = (v ?? "").toLowerCase();
+  if (s === "minor" || s === "moderate" || s === "severe" || s === "extreme") return s;
+  return "unknown";
+}
+
+function toUnix(iso: string | null | undefined): number | null {
+  if (!iso) return null;
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? Math.round(ms / 1000) : null;
+}
+
+export function createNwsAlertProvider(): AlertProvider {
+  return {
+    id: "nws",
+
+    async getAlerts(lat: number, lon: number): Promise<WeatherAlert[]> {
+      const url = `https://api.weather.gov/alerts/active?point=${lat.toFixed(4)},${lon.toFixed(4)}`;
+      const r = await fetch(url, {
+        headers: { "Accept": "application/geo+json", "User-Agent": "CanIGolfToday.com" },
+      });
+      // 400/404 = point outside NWS coverage; anything else is an outage the caller should see
+      if (r.status === 400 || r.status === 404) return [];
+      if (!r.ok) throw new Error(`NWS alerts fetch failed (${r.status})`);
+      const j = (await r.json()) as { features?: NwsFeature[] };
+
+      const alerts: WeatherAlert[] = [];
+      for (const f of j.features ?? []) {
+        const p = f.properties ?? {};
+        const start = toUnix(p.onset) ?? toUnix(p.effective);
+        const end = toUnix(p.ends) ?? toUnix(p.expires);
+        if (start == null || end == null) continue;
+        alerts.push({
+          title: p.event ?? p.headline ?? "Weather alert",
+          severity: toSeverity(p.severity),
+          start,
+          end,
+          source: p.senderName ?? "National Weather Service",
+          description: p.description ?? null,
+        });
+      }
+      return alerts;
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { AlertProvider, WeatherAlert } from "./types";
+
+// OpenWeather One Call 3.0 alerts (needs a One Call subscription on the key).
+type OwAlert = {
+  sender_name?: string;
+  event?: string;
+  start?: number;
+  end?: number;
+  description?: string;
+};
+
+export function createOpenWeatherAlertProvider(apiKey: string): AlertProvider {
+  return {
+    id: "openweather",
+
+    async getAlerts(lat: number, lon: number): Promise<WeatherAlert[]> {
+      const url =
+        `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}` +
+        `&exclude=current,minutely,hourly,daily&appid=${apiKey}`;
+      const r = await fetch(url);
+      if (!r.ok) throw new Error(`OpenWeather alerts fetch failed (${r.status})`);
+      const j = (await r.json()) as { alerts?: OwAlert[] };
+
+      return (j.alerts ?? [])
+        .filter((a) => Number.isFinite(a.start) && Number.isFinite(a.end))
+        .map((a) => ({
+          title: a.event ?? "Weather alert",
+          // One Call doesn't grade alerts.
+          severity: "unknown" as const,
+          start: Number(a.start),
+          end: Number(a.end),
+          source: a.sender_name ?? "OpenWeather",
+          description: a.description ?? null,
+        }));
+    },
+  };
+}
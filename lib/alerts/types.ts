@@ -0,0 +1,19 @@
+// Official weather warnings for a location, normalized across providers.
+
+export type AlertSeverity = "minor" | "moderate" | "severe" | "extreme" | "unknown";
+
+export type WeatherAlert = {
+  title: string; // "Severe Thunderstorm Warning"
+  severity: AlertSeverity;
+  start: number; // unix seconds
+  end: number; // unix seconds
+  source: string; // issuing office / provider
+  description?: string | null;
+};
+
+export type AlertProviderId = "auto" | "nws" | "eccc" | "openweather" | "none";
+
+export interface AlertProvider {
+  id: AlertProviderId;
+  getAlerts(lat: number, lon: number): Promise<WeatherAlert[]>;
+}
@@ -0,0 +1,92 @@
+// Ball flight: how far a shot carries versus a standard day, from air density and wind.
+
+// Gas constants for dry air and water vapour, J/(kg·K)
+const R_DRY = 287.058;
+const R_VAPOUR = 461.495;
+
+const KPH_PER_MPH = 1.609;
+
+// The "typical" day reference carries are quoted for.
+export const STANDARD_AIR = { tempC: 20, pressureHpa: 1013.25, humidityPct: 50, elevationM: 0 };
+
+// Carry moves ~0.5% for every 1% change in air density (Denver's ~17% thinner air ≈ 8–9% more carry).
+const CARRY_PER_DENSITY = 0.5;
+
+// Club-fitter rule: a headwind costs ~1% per mph, a tailwind only gives back ~0.5% per mph.
+const HEAD_FRACTION_PER_MPH = 0.01;
+const TAIL_FRACTION_PER_MPH = 0.005;
+
+/** Saturation vapour pressure over water (Tetens), hPa. */
+export function saturationVaporPressureHpa(tempC: number): number {
+  return 6.1078 * Math.exp((17.27 * tempC) / (tempC + 237.3));
+}
+
+/** Reduce mean sea-level pressure to the pressure at `elevationM` (hypsometric, standard lapse rate). */
+export function stationPressureHpa(seaLevelHpa: number, elevationM: number, tempC: number): number {
+  const tK = tempC + 273.15 + 0.0065 * elevationM; // mean column temperature ≈ sea-level equivalent
+  return seaLevelHpa * Math.pow(1 - (0.0065 * elevationM) / tK, 5.257);
+}
+
+/** Moist air density, kg/m³, from station pressure. */
+export function airDensity({
+  tempC,
+  pressureHpa,
+  humidityPct,
+}: {
+  tempC: number;
+  pressureHpa: number;
+  humidityPct: number;
+}): number {
+  const tK = tempC + 273.15;
+  const pv = (Math.max(0, Math.min(100, humidityPct)) / 100) * saturationVaporPressureHpa(tempC) * 100;
+  const pd = pressureHpa * 100 - pv;
+  return pd / (R_DRY * tK) + pv / (R_VAPOUR * tK);
+}
+
+export const STANDARD_DENSITY = airDensity(STANDARD_AIR);
+
+export type FlightConditions = {
+  tempC: number;
+  humidityPct?: number | null;
+  seaLevelPressureHpa?: number | null;
+  elevationM?: number | null;
+  headwindKph?: number | null; // + into the golfer, − helping
+};
+
+export type CarryChange = {
+  densityPct: number; // air density vs standard, e.g. -4.2
+  airPct: number; // carry change from air density alone
+  windPct: number; // carry change from the head/tail component
+  totalPct: number;
+  carryYds: number; // what the reference shot carries today
+  deltaYds: number;
+};
+
+/**
+ * Carry for a reference shot (e.g. 7-iron 150y) in today's air.
+ * Unknown humidity / pressure / elevation fall back to the standard day.
+ */
+export function carryChange(refCarryYds: number, c: FlightConditions): CarryChange {
+  const elevationM = c.elevationM ?? STANDARD_AIR.elevationM;
+  const pressureHpa = stationPressureHpa(c.seaLevelPressureHpa ?? STANDARD_AIR.pressureHpa, elevationM, c.tempC);
+  const rho = airDensity({ tempC: c.tempC, pressureHpa, humidityPct: c.humidityPct ?? STANDARD_AIR.humidityPct });
+
+  const densityFrac = rho / STANDARD_DENSITY - 1;
+  const airFrac = -CARRY_PER_DENSITY * densityFrac;
+
+  const headMph = (c.headwindKph ?? 0) / KPH_PER_MPH;
+  const windFrac = headMph >= 0 ? -headMph * HEAD_FRACTION_PER_MPH : -headMph * TAIL_FRACTION_PER_MPH;
+
+  const totalFrac = (1 + airFrac) * (1 + windFrac) - 1;
+  const carryYds = Math.round(refCarryYds * (1 + totalFrac));
+  const pct = (f: number) => Math.round(f * 1000) / 10 || 0; // no "-0"
+
+  return {
+    densityPct: pct(densityFrac),
+    airPct: pct(airFrac),
+    windPct: pct(windFrac),
+    totalPct: pct(totalFrac),
+    carryYds,
+    deltaYds: carryYds - Math.round(refCarryYds),
+  };
+}
@@ -0,0 +1,93 @@
+// Round-length aware "best window" search over an hourly scored series.
+
+export type HolesOption = 9 | 18;
+
+// Typical pace of play: ~2h for nine holes, ~4.5h for eighteen.
+export const ROUND_WINDOW_SEC: Record<HolesOption, number> = {
+  9: 2 * 60 * 60,
+  18: 4.5 * 60 * 60,
+};
+
+// Used when a caller doesn't say how many holes they're playing.
+export const DEFAULT_WINDOW_SEC = 3 * 60 * 60;
+
+export function parseHoles(v: string | null | undefined): HolesOption | null {
+  if (v === "9") return 9;
+  if (v === "18") return 18;
+  return null;
+}
+
+export type ScoredSlot = {
+  dt: number; // slot start, unix seconds
+  score: number;
+};
+
+export type BestWindow = {
+  startDt: number;
+  endDt: number;
+  avgScore: number;
+  minScore: number;
+  maxScore: number;
+};
+
+/**
+ * Score one window starting at `startDt`. Each slot is weighted by how much of it
+ * the window covers, so a 4.5h window counts its last hour at half weight.
+ * Returns null if the series doesn't cover the whole window without gaps.
+ */
+export function scoreWindow(
+  slots: ScoredSlot[],
+  startDt: number,
+  windowSec: number,
+  stepSec: number
+): BestWindow | null {
+  const endDt = startDt + windowSec;
+  const inside = slots
+    .filter((s) => s.dt < endDt && s.dt + stepSec > startDt)
+    .sort((a, b) => a.dt - b.dt);
+
+  if (inside.length === 0) return null;
+  if (inside[0].dt > startDt) return null;
+  for (let i = 1; i < inside.length; i++) {
+    if (inside[i].dt - inside[i - 1].dt > stepSec) return null;
+  }
+  if (inside[inside.length - 1].dt + stepSec < endDt) return null;
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const s of inside) {
+    const w = Math.min(s.dt + stepSec, endDt) - Math.max(s.dt, startDt);
+    weighted += s.score * w;
+    totalWeight += w;
+  }
+
+  const scores = inside.map((s) => s.score);
+  return {
+    startDt,
+    endDt,
+    avgScore: Math.round(weighted / totalWeight),
+    minScore: Math.min(...scores),
+    maxScore: Math.max(...scores),
+  };
+}
+
+/**
+ * Slide a `windowSec` window across the series, one slot at a time, and return the
+ * window with the highest average score. `canStart` decides which slot starts are
+ * allowed (golfing hours, daylight, etc). Ties go to the earlier start.
+ */
+export function slideBestWindow(
+  slots: ScoredSlot[],
+  opts: { windowSec: number; stepSec: number; canStart: (dt: number) => boolean }
+): BestWindow | null {
+  const { windowSec, stepSec, canStart } = opts;
+
+  let best: BestWindow | null = null;
+  for (const s of slots) {
+    if (!canStart(s.dt)) continue;
+    const w = scoreWindow(slots, s.dt, windowSec, stepSec);
+    if (!w) continue;
+    if (!best || w.avgScore > best.avgScore) best = w;
+  }
+  return best;
+}
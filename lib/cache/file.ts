@@ -0,0 +1,35 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { CacheBackend, CacheEntry } from "./types";
+
+/** One JSON file per key under `dir`; survives restarts on a single box. */
+export function createFileCacheBackend(dir = path.join(tmpdir(), "golf-weather-cache")): CacheBackend {
+  const fileFor = (key: string) => path.join(dir, createHash("sha1").update(key).digest("hex") + ".json");
+
+  return {
+    id: "file",
+
+    async get<T>(key: string) {
+      const file = fileFor(key);
+      let stored: { key: string; expiresAt: number; entry: CacheEntry<T> };
+      try {
+        stored = JSON.parse(await readFile(file, "utf8"));
+      } catch {
+        return null;
+      }
+      if (stored.key !== key) return null;
+      if (stored.expiresAt <= Date.now()) {
+        await rm(file, { force: true });
+        return null;
+      }
+      return stored.entry;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>, keepSec: number) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify({ key, expiresAt: Date.now() + keepSec * 1000, entry }));
+    },
+  };
+}
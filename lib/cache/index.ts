@@ -0,0 +1,111 @@
+import type { LatLon } from "@/lib/geo";
+import { createFileCacheBackend } from "./file";
+import { createMemoryCacheBackend } from "./memory";
+import { createRedisCacheBackend } from "./redis";
+import type { CacheBackend } from "./types";
+
+export type { CacheBackend, CacheBackendId, CacheEntry } from "./types";
+export { createFileCacheBackend, createMemoryCacheBackend, createRedisCacheBackend };
+
+// How long each upstream answer counts as fresh.
+export const CACHE_TTL_SEC = {
+  forecast: 10 * 60,
+  recentWeather: 60 * 60,
+  alerts: 5 * 60, // warnings are issued and lifted within minutes
+  placesNearby: 60 * 60, // "open now" flags go stale within the hour
+  placeDetails: 24 * 60 * 60,
+  driveTime: 24 * 60 * 60, // no live traffic, so road times barely change
+  elevation: 30 * 24 * 60 * 60, // terrain doesn't move
+} as const;
+
+export type CacheSource = keyof typeof CACHE_TTL_SEC;
+
+// Expired entries are kept this much longer so an upstream outage can be served from them (marked stale).
+const STALE_GRACE_SEC = 24 * 60 * 60;
+
+// ~1.1 km north–south: close enough that a city's searches share one forecast and one Places search.
+export const GRID_CELL_DEG = 0.01;
+
+/** Snap a point to the centre of its grid cell; `key` is stable across float noise. */
+export function gridCell(lat: number, lon: number, cellDeg = GRID_CELL_DEG): LatLon & { key: string } {
+  const snap = (v: number) => Number((Math.round(v / cellDeg) * cellDeg).toFixed(6));
+  const cell = { lat: snap(lat), lon: snap(lon) };
+  return { ...cell, key: `${cell.lat},${cell.lon}` };
+}
+
+const NO_CACHE: CacheBackend = { id: "none", get: async () => null, set: async () => {} };
+
+/**
+ * Pick the cache store from config.
+ * CACHE_BACKEND=memory|file|redis|none; defaults to an in-process LRU (CACHE_MAX_ENTRIES, default 500).
+ * `file` writes under CACHE_DIR (default: the OS temp dir); `redis` talks REST to CACHE_REDIS_URL
+ * with CACHE_REDIS_TOKEN, and falls back to memory when no URL is set.
+ */
+export function getCacheBackend(env: Record<string, string | undefined> = process.env): CacheBackend {
+  const id = (env.CACHE_BACKEND ?? "memory").trim().toLowerCase();
+  const maxEntries = Number(env.CACHE_MAX_ENTRIES) > 0 ? Number(env.CACHE_MAX_ENTRIES) : undefined;
+
+  if (id === "none") return NO_CACHE;
+  if (id === "file") return createFileCacheBackend(env.CACHE_DIR || undefined);
+  if (id === "redis" && env.CACHE_REDIS_URL) return createRedisCacheBackend(env.CACHE_REDIS_URL, env.CACHE_REDIS_TOKEN);
+  return createMemoryCacheBackend(maxEntries);
+}
+
+// One store per server process, so the in-memory LRU outlives a single request.
+let shared: CacheBackend | null = null;
+
+export type Cached<T> = {
+  value: T;
+  cachedAt: number; // unix seconds the value was fetched upstream
+  stale: boolean; // past its TTL, served because the refresh failed
+};
+
+// Concurrent misses for one key share a single upstream call.
+const inFlight = new Map<string, Promise<Cached<unknown>>>();
+
+/**
+ * Read-through cache. Fresh hits skip `fetcher`; misses call it and store the result unless
+ * `cacheIf` rejects it (e.g. an error status in a 200 body). If the refresh throws or is rejected
+ * and an expired entry is still held, that entry is returned with `stale: true`.
+ * Cache store failures never fail the request.
+ */
+export async function cached<T>(
+  source: CacheSource,
+  key: string,
+  fetcher: () => Promise<T>,
+  opts: { backend?: CacheBackend; cacheIf?: (value: T) => boolean } = {}
+): Promise<Cached<T>> {
+  const backend = opts.backend ?? (shared ??= getCacheBackend());
+  const fullKey = `${source}:${key}`;
+  const ttlSec = CACHE_TTL_SEC[source];
+
+  const entry = await backend.get<T>(fullKey).catch(() => null);
+  if (entry && Date.now() - entry.storedAt < ttlSec * 1000) {
+    return { value: entry.value, cachedAt: Math.floor(entry.storedAt / 1000), stale: false };
+  }
+  const staleHit = entry ? { value: entry.value, cachedAt: Math.floor(entry.storedAt / 1000), stale: true } : null;
+
+  const pending = inFlight.get(fullKey);
+  if (pending) return pending as Promise<Cached<T>>;
+
+  const run = (async () => {
+    try {
+      const value = await fetcher();
+      const storedAt = Date.now();
+      if (opts.cacheIf && !opts.cacheIf(value)) {
+        return staleHit ?? { value, cachedAt: Math.floor(storedAt / 1000), stale: false };
+      }
+
+      await backend.set(fullKey, { value, storedAt }, ttlSec + STALE_GRACE_SEC).catch(() => {});
+      return { value, cachedAt: Math.floor(storedAt / 1000), stale: false };
+    } catch (e) {
+      if (staleHit) return staleHit;
+      throw e;
+    } finally {
+      inFlight.delete(fullKey);
+    }
+  })();
+
+  inFlight.set(fullKey, run);
+  return run;
+}
@@ -0,0 +1,32 @@
+import type { CacheBackend, CacheEntry } from "./types";
+
+/**
+ * In-process LRU. A Map iterates in insertion order, so re-inserting on every hit keeps the
+ * least recently used entry first in line for eviction.
+ */
+export function createMemoryCacheBackend(maxEntries = 500): CacheBackend {
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  return {
+    id: "memory",
+
+    async get<T>(key: string) {
+      const hit = entries.get(key);
+      if (!hit) return null;
+      entries.delete(key);
+      if (hit.expiresAt <= Date.now()) return null;
+      entries.set(key, hit);
+      return hit.entry as CacheEntry<T>;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>, keepSec: number) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + keepSec * 1000 });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import type { CacheBackend, CacheEntry } from "./types";
+
+/**
+ * Redis over HTTP (the Upstash-style REST protocol: POST a command array, get `{ result }`),
+ * so any Redis-compatible store with a REST front end works without a client library.
+ */
+export function createRedisCacheBackend(url: string, token?: string): CacheBackend {
+  async function command(args: (string | number)[]) {
+    const r = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(args),
+      cache: "no-store",
+    });
+    if (!r.ok) throw new Error(`Redis command failed (${r.status})`);
+    const j = (await r.json()) as { result?: unknown; error?: string };
+    if (j.error) throw new Error(`Redis error: ${j.error}`);
+    return j.result;
+  }
+
+  return {
+    id: "redis",
+
+    async get<T>(key: string) {
+      const raw = await command(["GET", key]);
+      return typeof raw === "string" ? (JSON.parse(raw) as CacheEntry<T>) : null;
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>, keepSec: number) {
+      await command(["SET", key, JSON.stringify(entry), "EX", Math.max(1, Math.round(keepSec))]);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+// Server-side response cache: one interface, swappable stores.
+
+export type CacheBackendId = "memory" | "file" | "redis" | "none";
+
+export type CacheEntry<T = unknown> = {
+  value: T;
+  storedAt: number; // unix ms
+};
+
+export interface CacheBackend {
+  id: CacheBackendId;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  // `keepSec` is how long the store may hold the entry (fresh TTL + stale grace), not its freshness.
+  set<T>(key: string, entry: CacheEntry<T>, keepSec: number): Promise<void>;
+}
@@ -0,0 +1,100 @@
+// /api/compare response contract.
+
+import type { Message } from "@/lib/i18n";
+import type { RoutingProviderId } from "@/lib/routing";
+import type { GolfVerdict } from "@/lib/verdict";
+import { array, literal, nullable, num, object, str, type Schema } from "./schema";
+import { message } from "./message";
+import {
+  frostOutlook,
+  groundSignals,
+  labeledWindow,
+  stormTiming,
+  verdict,
+  type DailyForecast,
+} from "./weather";
+
+// One location's forecast for the compared date: the daily rollup, without the hourly blocks.
+export type CompareDay = Pick<
+  DailyForecast,
+  | "dateKey"
+  | "dayLabel"
+  | "bestWindow"
+  | "minTemp"
+  | "maxTemp"
+  | "windMax"
+  | "rainChancePct"
+  | "precipTotalMm"
+  | "ground"
+  | "thunder"
+  | "frostDelay"
+> & {
+  score: number;
+  verdict: GolfVerdict;
+  reason: string;
+  reasonMessage: Message;
+};
+
+export type CompareRow = {
+  rank: number | null; // null when the location has no forecast for the date
+  index: number; // position in the request
+  placeId: string | null;
+  name: string | null;
+  address: string | null;
+  lat: number;
+  lon: number;
+  elevationM: number | null;
+  driveMin: number | null;
+  driveKm: number | null;
+  distanceKm: number | null; // straight line, for rows without a drive time
+  error: string | null;
+  day: CompareDay | null;
+};
+
+export type CompareResponse = {
+  date: string | null;
+  routing: RoutingProviderId | null; // where driveMin came from; null without `from`
+  unresolved: string[]; // place IDs that didn't resolve
+  results: CompareRow[];
+};
+
+const compareDay = object<CompareDay>({
+  dateKey: str,
+  dayLabel: str,
+  score: num,
+  verdict,
+  reason: str,
+  reasonMessage: message,
+  bestWindow: nullable(labeledWindow),
+  minTemp: nullable(num),
+  maxTemp: nullable(num),
+  windMax: nullable(num),
+  rainChancePct: nullable(num),
+  precipTotalMm: num,
+  ground: groundSignals,
+  thunder: nullable(stormTiming),
+  frostDelay: nullable(frostOutlook),
+});
+
+export const compareResponse: Schema<CompareResponse> = object<CompareResponse>({
+  date: nullable(str),
+  routing: nullable(literal<RoutingProviderId>("google", "estimate")),
+  unresolved: array(str),
+  results: array(
+    object<CompareRow>({
+      rank: nullable(num),
+      index: num,
+      placeId: nullable(str),
+      name: nullable(str),
+      address: nullable(str),
+      lat: num,
+      lon: num,
+      elevationM: nullable(num),
+      driveMin: nullable(num),
+      driveKm: nullable(num),
+      distanceKm: nullable(num),
+      error: nullable(str),
+      day: nullable(compareDay),
+    })
+  ),
+});
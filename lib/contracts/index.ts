@@ -0,0 +1,56 @@
+// Response contracts shared by the API routes (validated on the way out, lib/contracts/respond)
+// and the page (validated on the way in, fetchContract).
+
+import { parse, type Issue, type Schema } from "./schema";
+
+export * from "./schema";
+export * from "./message";
+export * from "./weather";
+export * from "./places";
+export * from "./location";
+export * from "./teetime";
+export * from "./compare";
+
+export class ContractError extends Error {
+  constructor(
+    public url: string,
+    public issues: Issue[]
+  ) {
+    const first = issues
+      .slice(0, 3)
+      .map((i) => `${i.path || "(body)"}: ${i.message}`)
+      .join("; ");
+    super(`Unexpected response from ${url.split("?")[0]}: ${first}`);
+  }
+}
+
+/** The rate limiter (proxy.ts) turned the request away; worth telling apart from a failure. */
+export class RateLimitedError extends Error {
+  constructor(
+    public url: string,
+    public retryAfterSec: number | null
+  ) {
+    super(`Too many requests to ${url.split("?")[0]}`);
+  }
+}
+
+/**
+ * Fetch an API route and validate the body against its contract.
+ * A 429 throws RateLimitedError; other non-2xx responses throw with the route's `error` message;
+ * a body that doesn't match throws ContractError.
+ */
+export async function fetchContract<T>(url: string, schema: Schema<T>, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const data: unknown = await res.json().catch(() => null);
+  if (res.status === 429) {
+    const retryAfterSec = Number(res.headers.get("retry-after"));
+    throw new RateLimitedError(url, Number.isFinite(retryAfterSec) && retryAfterSec > 0 ? retryAfterSec : null);
+  }
+  if (!res.ok) {
+    const error = (data as { error?: unknown } | null)?.error;
+    throw new Error(typeof error === "string" ? error : `Request failed (${res.status})`);
+  }
+  const parsed = parse(schema, data);
+  if (!parsed.ok) throw new ContractError(url, parsed.issues);
+  return parsed.value;
+}
@@ -0,0 +1,53 @@
+// /api/location/suggest and /api/location/resolve response contracts.
+
+import { array, bool, literal, nullable, num, object, optional, str, type Schema } from "./schema";
+
+export type Prediction = {
+  kind: "city" | "course";
+  placeId: string; // Google place ID, or "geo:<lat>,<lon>" for Open‑Meteo cities
+  description: string;
+  name?: string | null;
+  address?: string | null;
+  lat?: number | null;
+  lon?: number | null;
+  elevationM?: number | null; // courses only
+};
+
+export type SuggestResponse = {
+  predictions: Prediction[];
+  degraded?: boolean; // Places budget spent: Open‑Meteo cities only
+};
+
+export type ResolveResponse = {
+  lat: number;
+  lon: number;
+  address: string | null;
+  placeId: string;
+  cachedAt?: number;
+  stale?: boolean;
+};
+
+export const suggestResponse: Schema<SuggestResponse> = object<SuggestResponse>({
+  predictions: array(
+    object<Prediction>({
+      kind: literal("city", "course"),
+      placeId: str,
+      description: str,
+      name: optional(nullable(str)),
+      address: optional(nullable(str)),
+      lat: optional(nullable(num)),
+      lon: optional(nullable(num)),
+      elevationM: optional(nullable(num)),
+    })
+  ),
+  degraded: optional(bool),
+});
+
+export const resolveResponse: Schema<ResolveResponse> = object<ResolveResponse>({
+  lat: num,
+  lon: num,
+  address: nullable(str),
+  placeId: str,
+  cachedAt: optional(num),
+  stale: optional(bool),
+});
@@ -0,0 +1,10 @@
+// Reason codes in API responses: a catalog code (lib/i18n) plus the params it renders from.
+
+import { MESSAGE_CODES, type Message, type MessageCode } from "@/lib/i18n";
+import { array, literal, numOrStr, object, record } from "./schema";
+
+export const messageCode = literal<MessageCode>(...MESSAGE_CODES);
+
+export const message = object<Message>({ code: messageCode, params: record(numOrStr) });
+
+export const messageCodes = array(messageCode);
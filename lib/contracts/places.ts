@@ -0,0 +1,114 @@
+// /api/courses and /api/simulators response contracts.
+
+import type { RoutingProviderId } from "@/lib/routing";
+import type { GolfVerdict } from "@/lib/verdict";
+import type { Message } from "@/lib/i18n";
+import { array, bool, literal, nullable, num, object, optional, str, type Schema } from "./schema";
+import { labeledWindow, type LabeledWindow } from "./weather";
+import { message } from "./message";
+
+export type CourseDay = {
+  dateKey: string;
+  score: number;
+  verdict: GolfVerdict;
+  reason: string;
+  reasonMessage: Message;
+  bestWindow: LabeledWindow | null;
+};
+
+export type Course = {
+  placeId: string;
+  name: string;
+  rating: number | null;
+  userRatingsTotal: number | null;
+  address: string | null;
+  openNow: boolean | null;
+  types: string[];
+  lat: number | null;
+  lon: number | null;
+  mapsUrl: string | null;
+  driveMin: number | null;
+  driveKm: number | null;
+  elevationM: number | null;
+  distanceKm: number | null; // straight line from the search origin
+  days: CourseDay[] | null; // null when the course's forecast couldn't be fetched
+};
+
+export type CoursesResponse = {
+  courses: Course[];
+  routing?: RoutingProviderId | null; // where driveMin came from; absent when nothing was searched
+  maxDriveMin: number | null;
+  cachedAt?: number;
+  stale?: boolean;
+  degraded?: boolean; // Places budget spent: fewer (or no) courses than usual
+};
+
+export type Simulator = {
+  placeId: string;
+  name: string;
+  rating: number | null;
+  userRatingsTotal: number | null;
+  address: string | null;
+  openNow: boolean | null;
+  mapsUrl: string | null;
+};
+
+export type SimulatorsResponse = {
+  simulators: Simulator[];
+  cachedAt?: number;
+  stale?: boolean;
+  degraded?: boolean;
+};
+
+const courseDay = object<CourseDay>({
+  dateKey: str,
+  score: num,
+  verdict: literal<GolfVerdict>("GREEN", "YELLOW", "RED"),
+  reason: str,
+  reasonMessage: message,
+  bestWindow: nullable(labeledWindow),
+});
+
+const course = object<Course>({
+  placeId: str,
+  name: str,
+  rating: nullable(num),
+  userRatingsTotal: nullable(num),
+  address: nullable(str),
+  openNow: nullable(bool),
+  types: array(str),
+  lat: nullable(num),
+  lon: nullable(num),
+  mapsUrl: nullable(str),
+  driveMin: nullable(num),
+  driveKm: nullable(num),
+  elevationM: nullable(num),
+  distanceKm: nullable(num),
+  days: nullable(array(courseDay)),
+});
+
+export const coursesResponse: Schema<CoursesResponse> = object<CoursesResponse>({
+  courses: array(course),
+  routing: optional(nullable(literal<RoutingProviderId>("google", "estimate"))),
+  maxDriveMin: nullable(num),
+  cachedAt: optional(num),
+  stale: optional(bool),
+  degraded: optional(bool),
+});
+
+export const simulatorsResponse: Schema<SimulatorsResponse> = object<SimulatorsResponse>({
+  simulators: array(
+    object<Simulator>({
+      placeId: str,
+      name: str,
+      rating: nullable(num),
+      userRatingsTotal: nullable(num),
+      address: nullable(str),
+      openNow: nullable(bool),
+      mapsUrl: nullable(str),
+    })
+  ),
+  cachedAt: optional(num),
+  stale: optional(bool),
+  degraded: optional(bool),
+});
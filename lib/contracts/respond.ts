@@ -0,0 +1,14 @@
+// Server half of the contracts: NextResponse.json for a contract-typed body, checked before it ships.
+// Kept out of the index so the page doesn't pull next/server into the client bundle.
+
+import { NextResponse } from "next/server";
+import { parse, type Schema } from "./schema";
+
+/** A body that fails its own contract is a server bug: 500 with the issues, never a malformed 200. */
+export function contractJson<T>(schema: Schema<T>, body: T, init?: ResponseInit) {
+  const parsed = parse(schema, body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: "Response failed validation", issues: parsed.issues.slice(0, 20) }, { status: 500 });
+  }
+  return NextResponse.json(body, init);
+}
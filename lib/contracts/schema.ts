@@ -0,0 +1,104 @@
+// Minimal runtime schemas for API contracts. Each schema is typed against the contract's TS type,
+// so a field added to one and not the other fails the type-check, not a user's page load.
+
+export type Issue = { path: string; message: string };
+
+export type Schema<T> = {
+  check(v: unknown, path: string, issues: Issue[]): void;
+  // Phantom, never set: makes Schema<T> invariant so Schema<number> can't stand in for number | null.
+  readonly _type?: (t: T) => T;
+};
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const describe = (v: unknown) =>
+  v === null ? "null" : Array.isArray(v) ? "array" : typeof v === "number" && !Number.isFinite(v) ? String(v) : typeof v;
+
+function primitive<T>(name: string, test: (v: unknown) => boolean, show = describe): Schema<T> {
+  return {
+    check(v, path, issues) {
+      if (!test(v)) issues.push({ path, message: `expected ${name}, got ${show(v)}` });
+    },
+  };
+}
+
+export const num = primitive<number>("number", (v) => typeof v === "number" && Number.isFinite(v));
+export const str = primitive<string>("string", (v) => typeof v === "string");
+export const bool = primitive<boolean>("boolean", (v) => typeof v === "boolean");
+export const numOrStr = primitive<number | string>(
+  "number or string",
+  (v) => typeof v === "string" || (typeof v === "number" && Number.isFinite(v))
+);
+
+export function literal<L extends string | number | boolean>(...values: L[]): Schema<L> {
+  return primitive<L>(
+    values.map((x) => JSON.stringify(x)).join(" | "),
+    (v) => values.includes(v as L),
+    (v) => (typeof v === "string" || typeof v === "number" ? JSON.stringify(v) : describe(v))
+  );
+}
+
+export function nullable<T>(s: Schema<T>): Schema<T | null> {
+  return {
+    check(v, path, issues) {
+      if (v !== null) s.check(v, path, issues);
+    },
+  };
+}
+
+/** For `field?: T`; null is not accepted, use nullable() for that. */
+export function optional<T>(s: Schema<T>): Schema<T | undefined> {
+  return {
+    check(v, path, issues) {
+      if (v !== undefined) s.check(v, path, issues);
+    },
+  };
+}
+
+export function array<T>(s: Schema<T>): Schema<T[]> {
+  return {
+    check(v, path, issues) {
+      if (!Array.isArray(v)) {
+        issues.push({ path, message: `expected array, got ${describe(v)}` });
+        return;
+      }
+      v.forEach((x, i) => s.check(x, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+/** Unknown extra keys are allowed, so older clients keep validating newer (additive) responses. */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    check(v, path, issues) {
+      if (typeof v !== "object" || v === null || Array.isArray(v)) {
+        issues.push({ path, message: `expected object, got ${describe(v)}` });
+        return;
+      }
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        shape[key].check((v as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+      }
+    },
+  };
+}
+
+/** String-keyed map with values of one schema (e.g. message params). */
+export function record<V>(s: Schema<V>): Schema<Record<string, V>> {
+  return {
+    check(v, path, issues) {
+      if (typeof v !== "object" || v === null || Array.isArray(v)) {
+        issues.push({ path, message: `expected object, got ${describe(v)}` });
+        return;
+      }
+      for (const [key, x] of Object.entries(v)) s.check(x, path ? `${path}.${key}` : key, issues);
+    },
+  };
+}
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; issues: Issue[] };
+
+export function parse<T>(schema: Schema<T>, v: unknown): Parsed<T> {
+  const issues: Issue[] = [];
+  schema.check(v, "", issues);
+  return issues.length === 0 ? { ok: true, value: v as T } : { ok: false, issues };
+}
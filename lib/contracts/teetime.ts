@@ -0,0 +1,171 @@
+// /api/teetime response contract.
+
+import type { AlertSeverity } from "@/lib/alerts";
+import type { HolesOption } from "@/lib/bestWindow";
+import type { HoleWindEffect } from "@/lib/course";
+import type { ScoreBreakdown } from "@/lib/golfability";
+import type { Locale, Message } from "@/lib/i18n";
+import type { HoleSegment, Pace, RoundProjection } from "@/lib/teeTime";
+import type { GolfVerdict } from "@/lib/verdict";
+import { array, bool, literal, nullable, num, object, str, type Schema } from "./schema";
+import { message } from "./message";
+import { alertSeverity, scoreBreakdown, verdict } from "./weather";
+
+export type TeeTimeSegment = HoleSegment & {
+  startLabel: string;
+  verdict: GolfVerdict;
+  wind: HoleWindEffect | null; // only when a course layout was posted
+};
+
+// Forecast at tee-off, for the conditions line and the ball-flight table
+export type TeeOffConditions = {
+  temp: number;
+  windKph: number;
+  rainChancePct: number;
+  humidityPct: number | null;
+  pressureHpa: number | null; // mean sea-level
+  conditions: string | null;
+};
+
+export type TeeTimeResponse = {
+  cachedAt: number;
+  stale: boolean;
+  timeZone: string;
+  locale: Locale;
+  startDt: number;
+  startLabel: string;
+  endDt: number;
+  endLabel: string;
+  holes: HolesOption;
+  pace: Pace;
+  minutesPerHole: number;
+  segments: TeeTimeSegment[];
+  layout: { name: string | null; holes: number } | null;
+  teeOff: TeeOffConditions | null;
+  worstStretch: (NonNullable<RoundProjection["worstStretch"]> & { startLabel: string; endLabel: string }) | null;
+  sunrise: number | null;
+  sunriseLabel: string | null;
+  startsAfterSunrise: boolean | null;
+  sunset: number | null;
+  sunsetLabel: string | null;
+  finishesBeforeSunset: boolean | null;
+  thunder: {
+    firstStrikeDt: number;
+    firstStrikeLabel: string;
+    offCourseBy: number;
+    offCourseByLabel: string;
+    allClearDt: number;
+    allClearLabel: string;
+    peakProbPct: number;
+    affectsRound: boolean;
+  } | null;
+  frostDelay: {
+    expectedClearDt: number | null;
+    expectedClearLabel: string | null;
+    allDay: boolean;
+    affectsRound: boolean;
+  } | null;
+  alerts: { title: string; severity: AlertSeverity; start: number; end: number }[];
+  golf: {
+    score: number;
+    minScore: number;
+    verdict: GolfVerdict;
+    reason: string;
+    reasonMessage: Message;
+    breakdown: ScoreBreakdown; // over the forecast hours the round overlaps
+  };
+};
+
+const holeWind = object<HoleWindEffect>({
+  hole: num,
+  bearingDeg: num,
+  yards: num,
+  playsYards: num,
+  adjustYards: num,
+  headKph: num,
+  crossKph: num,
+  windKph: num,
+  windDeg: num,
+});
+
+export const teeTimeResponse: Schema<TeeTimeResponse> = object<TeeTimeResponse>({
+  cachedAt: num,
+  stale: bool,
+  timeZone: str,
+  locale: literal("en", "fr"),
+  startDt: num,
+  startLabel: str,
+  endDt: num,
+  endLabel: str,
+  holes: literal<HolesOption>(9, 18),
+  pace: literal<Pace>("walk", "cart"),
+  minutesPerHole: num,
+  segments: array(
+    object<TeeTimeSegment>({
+      hole: num,
+      startDt: num,
+      endDt: num,
+      score: num,
+      startLabel: str,
+      verdict,
+      wind: nullable(holeWind),
+    })
+  ),
+  layout: nullable(object({ name: nullable(str), holes: num })),
+  teeOff: nullable(
+    object<TeeOffConditions>({
+      temp: num,
+      windKph: num,
+      rainChancePct: num,
+      humidityPct: nullable(num),
+      pressureHpa: nullable(num),
+      conditions: nullable(str),
+    })
+  ),
+  worstStretch: nullable(
+    object({
+      fromHole: num,
+      toHole: num,
+      startDt: num,
+      endDt: num,
+      avgScore: num,
+      startLabel: str,
+      endLabel: str,
+    })
+  ),
+  sunrise: nullable(num),
+  sunriseLabel: nullable(str),
+  startsAfterSunrise: nullable(bool),
+  sunset: nullable(num),
+  sunsetLabel: nullable(str),
+  finishesBeforeSunset: nullable(bool),
+  thunder: nullable(
+    object({
+      firstStrikeDt: num,
+      firstStrikeLabel: str,
+      offCourseBy: num,
+      offCourseByLabel: str,
+      allClearDt: num,
+      allClearLabel: str,
+      peakProbPct: num,
+      affectsRound: bool,
+    })
+  ),
+  frostDelay: nullable(
+    object({
+      expectedClearDt: nullable(num),
+      expectedClearLabel: nullable(str),
+      allDay: bool,
+      affectsRound: bool,
+    })
+  ),
+  alerts: array(object({ title: str, severity: alertSeverity, start: num, end: num })),
+  golf: object({
+    score: num,
+    minScore: num,
+    verdict,
+    reason: str,
+    reasonMessage: message,
+    breakdown: scoreBreakdown,
+  }),
+});
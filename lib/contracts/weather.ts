@@ -0,0 +1,413 @@
+// /api/weather response contract. v1 is the original shape (plus timeZone/tzOffsetSec); v2 drops the
+// flat `forecast` list the page never read and guarantees every field below is present.
+
+import type { Deduction, HardStop, ScoreBreakdown } from "@/lib/golfability";
+import type { BestWindow, HolesOption } from "@/lib/bestWindow";
+import type { FrostRisk } from "@/lib/frost";
+import type { AlertSeverity } from "@/lib/alerts";
+import type { GolferProfile } from "@/lib/profile";
+import type { UnitSystem } from "@/lib/units";
+import type { Locale, Message, MessageCode } from "@/lib/i18n";
+import type { GolfVerdict } from "@/lib/verdict";
+import type { ForecastBlock, GolfScore, GroundSignals, WeatherProviderId } from "@/lib/weather";
+import { array, bool, literal, nullable, num, object, optional, str, type Schema, type Shape } from "./schema";
+import { message, messageCodes } from "./message";
+
+export const WEATHER_VERSIONS = [1, 2] as const;
+export type WeatherVersion = (typeof WEATHER_VERSIONS)[number];
+
+export type LabeledWindow = BestWindow & {
+  startLabel: string;
+  endLabel: string;
+  holes: HolesOption | null;
+  durationMin: number;
+};
+
+export type StormTiming = {
+  firstStrikeDt: number;
+  firstStrikeLabel: string;
+  offCourseBy: number;
+  offCourseByLabel: string;
+  allClearDt: number;
+  allClearLabel: string;
+  peakProbPct: number;
+};
+
+export type FrostOutlook = {
+  risk: FrostRisk;
+  likely: boolean;
+  surfaceMinC: number;
+  allDay: boolean;
+  expectedClearDt: number | null;
+  expectedClearLabel: string | null;
+};
+
+export type DayDaylight = {
+  // null when the sun doesn't cross that line all day (see `polar`)
+  sunrise: number | null;
+  sunset: number | null;
+  civilDawn: number | null;
+  civilDusk: number | null;
+  sunriseLabel: string | null;
+  sunsetLabel: string | null;
+  civilDawnLabel: string | null;
+  civilDuskLabel: string | null;
+  polar: "day" | "night" | null;
+};
+
+export type DayBlock = {
+  dt: number;
+  label: string;
+  temp: number;
+  feels: number;
+  windKph: number;
+  gustKph: number;
+  windDeg: number | null;
+  precipMm: number;
+  rainChancePct: number;
+  humidityPct: number | null;
+  uvIndex: number | null;
+  pressureHpa: number | null;
+  conditions: string | null;
+  inDaylight: boolean;
+  alertBlocked: boolean;
+  stormPct: number;
+  frostBlocked: boolean;
+  score: number;
+  verdict: GolfVerdict;
+  reason: string;
+  reasonMessage: Message;
+  notes: string[];
+  noteCodes: MessageCode[];
+  deductions: Deduction[];
+  hardStop: HardStop | null;
+};
+
+export type DailyForecast = {
+  dateKey: string; // YYYY-MM-DD, local to the course
+  dayLabel: string;
+  minTemp: number | null;
+  maxTemp: number | null;
+  windMax: number | null;
+  gustMax: number | null;
+  precipTotalMm: number;
+  rainChancePct: number | null;
+  humidityMax: number | null;
+  uvMax: number | null;
+  notes: string[];
+  noteCodes: MessageCode[];
+  breakdown: ScoreBreakdown;
+  conditions: string | null;
+  ground: GroundSignals;
+  golf: { score: number; verdict: GolfVerdict; reason: string; reasonMessage: Message };
+  bestWindow: LabeledWindow | null;
+  thunder: StormTiming | null;
+  frostDelay: FrostOutlook | null;
+  daylight: DayDaylight;
+  blocks: DayBlock[];
+};
+
+export type WeatherAlertView = {
+  title: string;
+  severity: AlertSeverity;
+  source: string;
+  start: number;
+  end: number;
+  startLabel: string;
+  endLabel: string;
+  startDayLabel: string;
+  endDayLabel: string;
+};
+
+export type WeatherV2 = {
+  v: 2;
+  source: WeatherProviderId;
+  cachedAt: number;
+  stale: boolean;
+  timeZone: string; // course IANA zone; format any dt in it for local time
+  tzOffsetSec: number; // UTC offset in force right now; wrong across a DST change, prefer timeZone
+  profile: GolferProfile;
+  units: UnitSystem; // units of the display strings (bands, ground details); numbers stay metric
+  locale: Locale; // language of reasons, details and labels; the *Message / *Codes fields are language-free
+  current: {
+    temp: number;
+    feels: number;
+    windKph: number;
+    gustKph: number;
+    windDeg: number | null;
+    conditions: string | null;
+    humidityPct: number | null;
+    uvIndex: number | null;
+    pressureHpa: number | null;
+  };
+  elevationM: number | null;
+  golf: GolfScore | null; // best tee-able hour today
+  bestTime: { bestBlock: ForecastBlock | null; bestWindow: LabeledWindow | null };
+  daylight: {
+    sunrise: number;
+    sunset: number;
+    sunriseLabel: string;
+    sunsetLabel: string;
+    daylightStartLabel: string;
+    daylightEndLabel: string;
+  };
+  alerts: WeatherAlertView[];
+  daily: DailyForecast[];
+  ground: GroundSignals;
+};
+
+export type WeatherV1 = Omit<WeatherV2, "v"> & { forecast: ForecastBlock[] };
+
+export const verdict = literal<GolfVerdict>("GREEN", "YELLOW", "RED");
+const confidence = literal("LOW", "MEDIUM", "HIGH");
+
+const deductionShape: Shape<Deduction> = {
+  factor: literal("rainChance", "rainAmount", "storms", "wind", "cold", "heat", "uv"),
+  input: num,
+  unit: literal("%", "mm", "km/h", "°C", "WBGT °C", "UV"),
+  band: str,
+  points: num,
+};
+
+const hardStopShape: Shape<HardStop> = {
+  factor: literal("alert", "frost", "thunderstorm", "extremeCold", "snow", "winter"),
+  reason: str,
+};
+
+const deduction = object<Deduction>(deductionShape);
+const hardStop = object<HardStop>(hardStopShape);
+
+const golfScore = object<GolfScore>({
+  score: num,
+  verdict,
+  reason: str,
+  reasonMessage: message,
+  notes: optional(array(str)),
+  noteCodes: optional(messageCodes),
+  deductions: optional(array(deduction)),
+  hardStop: optional(nullable(hardStop)),
+});
+
+const forecastBlock = object<ForecastBlock>({
+  dt: num,
+  label: str,
+  dayKey: str,
+  dayLabel: str,
+  temp: num,
+  feels: num,
+  windKph: num,
+  gustKph: num,
+  windDeg: nullable(num),
+  precipMm: num,
+  pop: num,
+  humidityPct: nullable(num),
+  uvIndex: nullable(num),
+  pressureHpa: nullable(num),
+  conditions: nullable(str),
+  inDaylight: bool,
+  alertBlocked: bool,
+  stormProb: num,
+  frostBlocked: bool,
+  golf: golfScore,
+});
+
+export const groundSignals = object<GroundSignals>({
+  past24hPrecipMm: nullable(num),
+  past48hPrecipMm: nullable(num),
+  forecast48hWetnessMm: optional(nullable(num)),
+  moisturePct: num,
+  soil: literal("sand", "loam", "clay"),
+  greensSpeed: object({
+    key: literal("SLOW", "MEDIUM", "QUICK"),
+    label: str,
+    detail: str,
+    detailMessage: message,
+    confidence,
+  }),
+  fairwayRollout: object({
+    key: literal("LOW", "MEDIUM", "HIGH"),
+    label: str,
+    detail: str,
+    detailMessage: message,
+    confidence,
+  }),
+  firmness: object({
+    key: literal("SOFT", "NORMAL", "FIRM"),
+    label: str,
+    detail: str,
+    detailMessage: message,
+    confidence,
+  }),
+  cartPathOnly: object({
+    key: literal("UNLIKELY", "POSSIBLE", "LIKELY"),
+    label: str,
+    detail: str,
+    detailMessage: message,
+    confidence,
+  }),
+});
+
+export const scoreBreakdown = object<ScoreBreakdown>({
+  deductions: array(object<Deduction & { hours: number }>({ ...deductionShape, hours: num })),
+  hardStops: array(object<HardStop & { hours: number }>({ ...hardStopShape, hours: num })),
+});
+
+export const labeledWindow = object<LabeledWindow>({
+  startDt: num,
+  endDt: num,
+  avgScore: num,
+  minScore: num,
+  maxScore: num,
+  startLabel: str,
+  endLabel: str,
+  holes: nullable(literal<HolesOption>(9, 18)),
+  durationMin: num,
+});
+
+export const stormTiming = object<StormTiming>({
+  firstStrikeDt: num,
+  firstStrikeLabel: str,
+  offCourseBy: num,
+  offCourseByLabel: str,
+  allClearDt: num,
+  allClearLabel: str,
+  peakProbPct: num,
+});
+
+export const frostOutlook = object<FrostOutlook>({
+  risk: literal<FrostRisk>("NONE", "POSSIBLE", "LIKELY"),
+  likely: bool,
+  surfaceMinC: num,
+  allDay: bool,
+  expectedClearDt: nullable(num),
+  expectedClearLabel: nullable(str),
+});
+
+const dayBlock = object<DayBlock>({
+  dt: num,
+  label: str,
+  temp: num,
+  feels: num,
+  windKph: num,
+  gustKph: num,
+  windDeg: nullable(num),
+  precipMm: num,
+  rainChancePct: num,
+  humidityPct: nullable(num),
+  uvIndex: nullable(num),
+  pressureHpa: nullable(num),
+  conditions: nullable(str),
+  inDaylight: bool,
+  alertBlocked: bool,
+  stormPct: num,
+  frostBlocked: bool,
+  score: num,
+  verdict,
+  reason: str,
+  reasonMessage: message,
+  notes: array(str),
+  noteCodes: messageCodes,
+  deductions: array(deduction),
+  hardStop: nullable(hardStop),
+});
+
+const daily = object<DailyForecast>({
+  dateKey: str,
+  dayLabel: str,
+  minTemp: nullable(num),
+  maxTemp: nullable(num),
+  windMax: nullable(num),
+  gustMax: nullable(num),
+  precipTotalMm: num,
+  rainChancePct: nullable(num),
+  humidityMax: nullable(num),
+  uvMax: nullable(num),
+  notes: array(str),
+  noteCodes: messageCodes,
+  breakdown: scoreBreakdown,
+  conditions: nullable(str),
+  ground: groundSignals,
+  golf: object({ score: num, verdict, reason: str, reasonMessage: message }),
+  bestWindow: nullable(labeledWindow),
+  thunder: nullable(stormTiming),
+  frostDelay: nullable(frostOutlook),
+  daylight: object<DayDaylight>({
+    sunrise: nullable(num),
+    sunset: nullable(num),
+    civilDawn: nullable(num),
+    civilDusk: nullable(num),
+    sunriseLabel: nullable(str),
+    sunsetLabel: nullable(str),
+    civilDawnLabel: nullable(str),
+    civilDuskLabel: nullable(str),
+    polar: nullable(literal("day", "night")),
+  }),
+  blocks: array(dayBlock),
+});
+
+const tolerance = literal("low", "normal", "high");
+
+export const alertSeverity = literal<AlertSeverity>("minor", "moderate", "severe", "extreme", "unknown");
+
+const common: Shape<Omit<WeatherV2, "v">> = {
+  source: literal("openweather", "openmeteo"),
+  cachedAt: num,
+  stale: bool,
+  timeZone: str,
+  tzOffsetSec: num,
+  profile: object<GolferProfile>({ cold: tolerance, wind: tolerance, rain: tolerance, pace: literal("walk", "cart") }),
+  units: literal("metric", "imperial", "mixed"),
+  locale: literal("en", "fr"),
+  current: object<WeatherV2["current"]>({
+    temp: num,
+    feels: num,
+    windKph: num,
+    gustKph: num,
+    windDeg: nullable(num),
+    conditions: nullable(str),
+    humidityPct: nullable(num),
+    uvIndex: nullable(num),
+    pressureHpa: nullable(num),
+  }),
+  elevationM: nullable(num),
+  golf: nullable(golfScore),
+  bestTime: object<WeatherV2["bestTime"]>({ bestBlock: nullable(forecastBlock), bestWindow: nullable(labeledWindow) }),
+  daylight: object<WeatherV2["daylight"]>({
+    sunrise: num,
+    sunset: num,
+    sunriseLabel: str,
+    sunsetLabel: str,
+    daylightStartLabel: str,
+    daylightEndLabel: str,
+  }),
+  alerts: array(
+    object<WeatherAlertView>({
+      title: str,
+      severity: alertSeverity,
+      source: str,
+      start: num,
+      end: num,
+      startLabel: str,
+      endLabel: str,
+      startDayLabel: str,
+      endDayLabel: str,
+    })
+  ),
+  daily: array(daily),
+  ground: groundSignals,
+};
+
+export const weatherV2: Schema<WeatherV2> = object<WeatherV2>({ v: literal(2), ...common });
+export const weatherV1: Schema<WeatherV1> = object<WeatherV1>({ ...common, forecast: array(forecastBlock) });
+
+/** `?v=` param; anything but a known version means the original v1 shape. */
+export function parseWeatherVersion(v: string | null | undefined): WeatherVersion {
+  return v === "2" ? 2 : 1;
+}
+
+/** v2 is v1 minus the flat `forecast` list; `daily[].blocks` carries the same hours per day. */
+export function toWeatherV2(report: WeatherV1): WeatherV2 {
+  const v2: WeatherV2 & { forecast?: unknown } = { v: 2, ...report };
+  delete v2.forecast;
+  return v2;
+}
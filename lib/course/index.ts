@@ -0,0 +1,6 @@
+export type { CourseLayout, HoleLayout } from "./layout";
+export { parseCourseLayout } from "./layout";
+export type { ConditionsAt, LatLon, WindComponents } from "./wind";
+export { bearingDeg, distanceYards, windAt, windComponents } from "./wind";
+export type { HoleWindEffect } from "./playsLike";
+export { holeWindEffect } from "./playsLike";
@@ -0,0 +1,109 @@
+// Course layouts: tee and green coordinates per hole, from plain JSON or GeoJSON.
+
+import { bearingDeg, distanceYards, type LatLon } from "./wind";
+
+export type HoleLayout = {
+  hole: number; // 1-based
+  tee: LatLon;
+  green: LatLon;
+  par: number | null;
+  yards: number; // card yardage when given, else measured tee → green
+  bearingDeg: number; // direction of play, degrees clockwise from north
+};
+
+export type CourseLayout = {
+  name: string | null;
+  holes: HoleLayout[];
+};
+
+// Guard against someone uploading a whole county's worth of features.
+const MAX_HOLES = 36;
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function toLatLon(v: unknown): LatLon | null {
+  if (Array.isArray(v)) {
+    // GeoJSON positions are [lon, lat]
+    const lon = num(v[0]);
+    const lat = num(v[1]);
+    return lat != null && lon != null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null;
+  }
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    return toLatLon([o.lon ?? o.lng, o.lat]);
+  }
+  return null;
+}
+
+function toHole(hole: number | null, tee: LatLon | null, green: LatLon | null, par: unknown, yards: unknown): HoleLayout | null {
+  if (hole == null || !tee || !green) return null;
+  const measured = distanceYards(tee, green);
+  if (measured < 1) return null;
+  return {
+    hole,
+    tee,
+    green,
+    par: num(par),
+    yards: Math.round(num(yards) ?? measured),
+    bearingDeg: Math.round(bearingDeg(tee, green)),
+  };
+}
+
+// { holes: [{ hole, tee: {lat, lon}, green: {lat, lon}, par?, yards? }] }
+function fromPlainJson(o: Record<string, unknown>): HoleLayout[] {
+  const holes = Array.isArray(o.holes) ? o.holes : [];
+  return holes.map((h, i) => {
+    const r = (h ?? {}) as Record<string, unknown>;
+    return toHole(num(r.hole ?? r.number) ?? i + 1, toLatLon(r.tee), toLatLon(r.green), r.par, r.yards);
+  }).filter((h): h is HoleLayout => h != null);
+}
+
+// FeatureCollection of either LineStrings (first vertex = tee, last = green)
+// or Points tagged `role: "tee" | "green"`, both with a `hole` (or `ref`) property.
+function fromGeoJson(o: Record<string, unknown>): HoleLayout[] {
+  const features = Array.isArray(o.features) ? o.features : [];
+  const points = new Map<number, { tee?: LatLon; green?: LatLon; par?: unknown; yards?: unknown }>();
+  const holes: HoleLayout[] = [];
+
+  for (const f of features) {
+    const g = (f?.geometry ?? {}) as { type?: string; coordinates?: unknown };
+    const props = (f?.properties ?? {}) as Record<string, unknown>;
+    const hole = num(props.hole ?? props.ref);
+    if (hole == null) continue;
+
+    if (g.type === "LineString" && Array.isArray(g.coordinates) && g.coordinates.length >= 2) {
+      const h = toHole(hole, toLatLon(g.coordinates[0]), toLatLon(g.coordinates[g.coordinates.length - 1]), props.par, props.yards);
+      if (h) holes.push(h);
+    } else if (g.type === "Point") {
+      const entry = points.get(hole) ?? {};
+      const role = String(props.role ?? props.golf ?? "").toLowerCase();
+      if (role === "tee") entry.tee = toLatLon(g.coordinates) ?? undefined;
+      if (role === "green" || role === "pin") entry.green = toLatLon(g.coordinates) ?? undefined;
+      entry.par ??= props.par;
+      entry.yards ??= props.yards;
+      points.set(hole, entry);
+    }
+  }
+
+  for (const [hole, p] of points) {
+    const h = toHole(hole, p.tee ?? null, p.green ?? null, p.par, p.yards);
+    if (h && !holes.some((x) => x.hole === hole)) holes.push(h);
+  }
+
+  return holes;
+}
+
+/** Parse an uploaded layout. Returns null when nothing usable is in it. */
+export function parseCourseLayout(input: unknown): CourseLayout | null {
+  if (!input || typeof input !== "object") return null;
+  const o = input as Record<string, unknown>;
+
+  const holes = o.type === "FeatureCollection" ? fromGeoJson(o) : fromPlainJson(o);
+  if (holes.length === 0 || holes.length > MAX_HOLES) return null;
+
+  const name = typeof o.name === "string" ? o.name : null;
+  return { name, holes: holes.sort((a, b) => a.hole - b.hole) };
+}
@@ -0,0 +1,47 @@
+// "Plays like" yardage: how long a hole feels once wind and air density are counted.
+
+import { carryChange } from "@/lib/ballFlight";
+import type { HoleLayout } from "./layout";
+import { windComponents } from "./wind";
+
+export type HoleWindEffect = {
+  hole: number;
+  bearingDeg: number;
+  yards: number;
+  playsYards: number;
+  adjustYards: number; // + plays long, − plays short
+  headKph: number;
+  crossKph: number;
+  windKph: number;
+  windDeg: number;
+};
+
+export function holeWindEffect(
+  h: HoleLayout,
+  at: { windKph: number; windDeg: number; tempC: number; humidityPct?: number | null; pressureHpa?: number | null },
+  elevationM?: number | null
+): HoleWindEffect {
+  const { headKph, crossKph } = windComponents(at.windKph, at.windDeg, h.bearingDeg);
+  const { totalPct } = carryChange(h.yards, {
+    tempC: at.tempC,
+    humidityPct: at.humidityPct,
+    seaLevelPressureHpa: at.pressureHpa,
+    elevationM,
+    headwindKph: headKph,
+  });
+
+  // Shots carry (1 + total) times as far, so the hole plays that much shorter.
+  const playsYards = Math.round(h.yards / (1 + totalPct / 100));
+
+  return {
+    hole: h.hole,
+    bearingDeg: h.bearingDeg,
+    yards: h.yards,
+    playsYards,
+    adjustYards: playsYards - h.yards,
+    headKph,
+    crossKph,
+    windKph: Math.round(at.windKph),
+    windDeg: Math.round(at.windDeg),
+  };
+}
@@ -0,0 +1,89 @@
+// Wind relative to a hole's line of play.
+
+import { haversineKm, type LatLon } from "@/lib/geo";
+
+export type { LatLon };
+
+const YDS_PER_KM = 1093.61;
+const rad = (d: number) => (d * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/** Initial great-circle bearing from a to b, degrees clockwise from north. */
+export function bearingDeg(a: LatLon, b: LatLon): number {
+  const lat1 = rad(a.lat);
+  const lat2 = rad(b.lat);
+  const dLon = rad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (deg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** Haversine distance in yards. */
+export function distanceYards(a: LatLon, b: LatLon): number {
+  return haversineKm(a, b) * YDS_PER_KM;
+}
+
+export type WindComponents = {
+  headKph: number; // + into the golfer's face, − helping
+  crossKph: number; // + left-to-right, − right-to-left
+};
+
+/**
+ * Split a wind (meteorological: the direction it blows FROM) into components along and
+ * across a hole played toward `holeBearingDeg`.
+ */
+export function windComponents(windKph: number, windDeg: number, holeBearingDeg: number): WindComponents {
+  const rel = rad(windDeg - holeBearingDeg);
+  const round1 = (n: number) => Math.round(n * 10) / 10 || 0; // no "-0"
+  return {
+    headKph: round1(windKph * Math.cos(rel)),
+    crossKph: round1(-windKph * Math.sin(rel)),
+  };
+}
+
+type WindSample = {
+  dt: number;
+  windKph: number;
+  windDeg?: number | null;
+  tempC: number;
+  humidityPct?: number | null;
+  pressureHpa?: number | null;
+};
+
+export type ConditionsAt = {
+  windKph: number;
+  windDeg: number;
+  tempC: number;
+  humidityPct: number | null;
+  pressureHpa: number | null;
+};
+
+/**
+ * Wind and air (temperature, humidity, pressure) at an arbitrary time, interpolated between the surrounding samples.
+ * Direction is blended as a vector so 350° and 10° average to north, not south.
+ */
+export function windAt(series: WindSample[], dt: number): ConditionsAt | null {
+  const known = series.filter((p) => p.windDeg != null);
+  if (known.length === 0) return null;
+
+  let i = known.findIndex((p) => p.dt > dt);
+  if (i === -1) i = known.length;
+  const a = known[Math.max(0, i - 1)];
+  const b = known[Math.min(known.length - 1, i)];
+  const t = b.dt > a.dt ? Math.min(1, Math.max(0, (dt - a.dt) / (b.dt - a.dt))) : 0;
+
+  // u/v of the "from" vector
+  const u = (1 - t) * a.windKph * Math.sin(rad(a.windDeg!)) + t * b.windKph * Math.sin(rad(b.windDeg!));
+  const v = (1 - t) * a.windKph * Math.cos(rad(a.windDeg!)) + t * b.windKph * Math.cos(rad(b.windDeg!));
+
+  const lerp = (x: number | null | undefined, y: number | null | undefined) =>
+    x == null ? null : y == null ? x : x + (y - x) * t;
+
+  return {
+    windKph: Math.hypot(u, v),
+    windDeg: (deg(Math.atan2(u, v)) + 360) % 360,
+    tempC: a.tempC + (b.tempC - a.tempC) * t,
+    humidityPct: lerp(a.humidityPct, b.humidityPct),
+    pressureHpa: lerp(a.pressureHpa, b.pressureHpa),
+  };
+}
@@ -0,0 +1,45 @@
+import { cached } from "@/lib/cache";
+import { createOpenMeteoElevationProvider } from "./openmeteo";
+import type { ElevationProvider, LatLon } from "./types";
+
+export type { ElevationProvider, ElevationProviderId, LatLon } from "./types";
+
+const NO_ELEVATION: ElevationProvider = { id: "none", getElevations: async (points) => points.map(() => null) };
+
+/**
+ * Pick the elevation source from config.
+ * ELEVATION_PROVIDER=openmeteo|none; defaults to Open‑Meteo (free, no key).
+ */
+export function getElevationProvider(env: Record<string, string | undefined> = process.env): ElevationProvider {
+  const id = (env.ELEVATION_PROVIDER ?? "openmeteo").trim().toLowerCase();
+
+  if (id === "none") return NO_ELEVATION;
+  return createOpenMeteoElevationProvider();
+}
+
+/**
+ * Elevation is a refinement; a lookup failure leaves a point unknown rather than failing the request.
+ * Heights are cached per ~10 m (4 decimals), so repeat lookups (search-as-you-type, the same courses
+ * again) cost nothing; any miss sends the whole list upstream in one batch.
+ */
+export async function getElevations(points: LatLon[], provider = getElevationProvider()): Promise<(number | null)[]> {
+  if (points.length === 0) return [];
+  let batch: Promise<(number | null)[]> | null = null;
+  const fetchAll = () => (batch ??= provider.getElevations(points));
+  return Promise.all(
+    points.map((p, i) =>
+      cached("elevation", `${provider.id}:${p.lat.toFixed(4)},${p.lon.toFixed(4)}`, async () => (await fetchAll())[i] ?? null, {
+        cacheIf: (m) => m != null,
+      })
+        .then((r) => r.value)
+        .catch(() => null)
+    )
+  );
+}
+
+/** `?elev=` query param: metres, within what's plausible for a golf course. */
+export function parseElevation(v: string | null | undefined): number | null {
+  if (v == null || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= -500 && n <= 5000 ? n : null;
+}
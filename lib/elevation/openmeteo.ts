@@ -0,0 +1,31 @@
+import type { ElevationProvider, LatLon } from "./types";
+
+// Open‑Meteo elevation API (Copernicus 90 m DEM) — free, no key, up to 100 points per call.
+const BATCH = 100;
+
+export function createOpenMeteoElevationProvider(): ElevationProvider {
+  return {
+    id: "openmeteo",
+
+    async getElevations(points: LatLon[]): Promise<(number | null)[]> {
+      const out: (number | null)[] = [];
+      for (let i = 0; i < points.length; i += BATCH) {
+        const batch = points.slice(i, i + BATCH);
+        const url =
+          `https://api.open-meteo.com/v1/elevation` +
+          `?latitude=${batch.map((p) => p.lat.toFixed(5)).join(",")}` +
+          `&longitude=${batch.map((p) => p.lon.toFixed(5)).join(",")}`;
+
+        const r = await fetch(url, { headers: { "Accept": "application/json" } });
+        if (!r.ok) throw new Error(`Open-Meteo elevation fetch failed (${r.status})`);
+        const j = (await r.json()) as { elevation?: (number | null)[] };
+
+        for (let k = 0; k < batch.length; k++) {
+          const e = j.elevation?.[k];
+          out.push(typeof e === "number" && Number.isFinite(e) ? e : null);
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,13 @@
+// Ground elevation for points (courses), normalized across sources.
+
+import type { LatLon } from "@/lib/geo";
+
+export type { LatLon };
+
+export type ElevationProviderId = "openmeteo" | "none";
+
+export interface ElevationProvider {
+  id: ElevationProviderId;
+  // Metres above sea level, one per point, null where the source has no data.
+  getElevations(points: LatLon[]): Promise<(number | null)[]>;
+}
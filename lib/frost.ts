@@ -0,0 +1,124 @@
+// Overnight frost risk and "when does the frost delay lift" for early tee times.
+
+import { dewPointC } from "@/lib/heatStress";
+import type { HourlyPoint, NormalizedForecast } from "@/lib/weather/types";
+import { addDays, localDateKey, localMidnight } from "@/lib/timezone";
+
+const HOUR_SEC = 60 * 60;
+const DAY_SEC = 24 * HOUR_SEC;
+
+export type FrostRisk = "NONE" | "POSSIBLE" | "LIKELY";
+
+// What the outlook reads from each hour; observed history carries these too.
+export type FrostHour = Pick<HourlyPoint, "dt" | "tempC" | "windKph" | "cloudPct" | "humidityPct" | "dewPointC">;
+
+export type FrostDelay = {
+  risk: FrostRisk;
+  likely: boolean;
+  surfaceMinC: number; // estimated grass-surface minimum (°C)
+  sunrise: number;
+  // When greens should be playable again (unix seconds). null = no delay expected,
+  // or frost may not lift at all that day (see `allDay`).
+  expectedClearDt: number | null;
+  allDay: boolean;
+};
+
+// Air temperature (°C) at which a sunny morning reliably burns frost off the turf.
+const THAW_AIR_C = 3;
+
+/**
+ * Clear, calm nights radiate heat away: grass can sit several degrees below the
+ * 2 m air temperature. Cloud and wind mix the air and cut that gap.
+ */
+function radiativeCoolingC(cloudPct: number | null, windKph: number) {
+  const clearSky = cloudPct == null ? 0.6 : 1 - Math.max(0, Math.min(100, cloudPct)) / 100;
+  const calm = windKph < 5 ? 1 : windKph < 15 ? 0.6 : 0.25;
+  return 3.5 * clearSky * calm;
+}
+
+/**
+ * Frost outlook for one morning. `overnight` should span the evening before through sunrise;
+ * `morning` the hours from sunrise onwards (used to find when it clears).
+ */
+export function predictFrost(args: {
+  overnight: FrostHour[];
+  morning: FrostHour[];
+  sunrise: number;
+  stepSec: number;
+}): FrostDelay {
+  const { overnight, morning, sunrise, stepSec } = args;
+  const none: FrostDelay = {
+    risk: "NONE",
+    likely: false,
+    surfaceMinC: NaN,
+    sunrise,
+    expectedClearDt: null,
+    allDay: false,
+  };
+  if (overnight.length === 0) return none;
+
+  const coldest = overnight.reduce((a, b) => (b.tempC < a.tempC ? b : a));
+  const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const clouds = overnight.map((p) => p.cloudPct).filter((c): c is number => c != null);
+  const cloudPct = clouds.length > 0 ? avg(clouds) : null;
+  const windKph = avg(overnight.map((p) => p.windKph));
+
+  const surfaceMinC = coldest.tempC - radiativeCoolingC(cloudPct, windKph);
+  const dew =
+    coldest.dewPointC ?? (coldest.humidityPct != null ? dewPointC(coldest.tempC, coldest.humidityPct) : null);
+
+  // Frost needs a sub-zero surface that reaches (or nearly reaches) its frost point.
+  let risk: FrostRisk = "NONE";
+  if (surfaceMinC <= 0 && (dew == null || surfaceMinC <= dew + 1)) risk = "LIKELY";
+  else if (surfaceMinC <= 1) risk = "POSSIBLE";
+
+  const result = { ...none, risk, likely: risk === "LIKELY", surfaceMinC: Math.round(surfaceMinC * 10) / 10 };
+  if (!result.likely) return result;
+
+  // Clears once the air warms past THAW_AIR_C after sunrise (never earlier than sunrise + 1h),
+  // plus a little extra under heavy cloud.
+  const thaw = morning.find((p) => p.dt >= sunrise && p.tempC >= THAW_AIR_C);
+  if (!thaw) return { ...result, allDay: true };
+
+  const overcast = thaw.cloudPct != null && thaw.cloudPct >= 70;
+  const clearDt = Math.max(sunrise + HOUR_SEC, thaw.dt + stepSec / 2 + (overcast ? 30 * 60 : 0));
+  return { ...result, expectedClearDt: clearDt };
+}
+
+/**
+ * Frost outlook for every local day in the forecast, keyed by YYYY-MM-DD.
+ * `sunriseFor` supplies each day's sunrise (unix seconds) given that day's local midnight.
+ * Forecasts start at the current hour, so `observed` (recent history) fills in the night and
+ * morning already gone: without it, today's outlook after sunrise would have no night to read.
+ */
+export function predictFrostDelays(
+  fc: NormalizedForecast,
+  sunriseFor: (localMidnightDt: number) => number = (midnight) =>
+    // Provider sunrise is for today; later mornings shift by a few minutes at most.
+    fc.sunrise + Math.round((midnight - localMidnight(localDateKey(fc.sunrise, fc.timeZone), fc.timeZone)) / DAY_SEC) * DAY_SEC,
+  observed: FrostHour[] = []
+): Map<string, FrostDelay> {
+  const out = new Map<string, FrostDelay>();
+  const keys = [...new Set(fc.hourly.map((p) => localDateKey(p.dt, fc.timeZone)))];
+
+  const firstForecastDt = fc.hourly[0]?.dt ?? Infinity;
+  const hours: FrostHour[] = [...observed.filter((p) => p.dt < firstForecastDt), ...fc.hourly];
+
+  for (const key of keys) {
+    const midnight = localMidnight(key, fc.timeZone);
+    const sunrise = sunriseFor(midnight);
+    // Evening before (from 6pm) through sunrise.
+    const overnight = hours.filter((p) => p.dt >= midnight - 6 * HOUR_SEC && p.dt < sunrise);
+    const morning = hours.filter((p) => p.dt >= sunrise && p.dt < localMidnight(addDays(key, 1), fc.timeZone));
+    out.set(key, predictFrost({ overnight, morning, sunrise, stepSec: fc.stepSec }));
+  }
+  return out;
+}
+
+
+/** True if `dt` falls inside a likely frost delay (before it clears, or all day). */
+export function isFrostDelayed(f: FrostDelay | null | undefined, dt: number) {
+  if (!f?.likely) return false;
+  if (f.allDay) return true;
+  return f.expectedClearDt != null && dt < f.expectedClearDt;
+}
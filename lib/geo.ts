@@ -0,0 +1,21 @@
+// Small spherical-earth helpers shared by courses, elevation and comparisons.
+
+export type LatLon = { lat: number; lon: number };
+
+const EARTH_RADIUS_KM = 6371;
+const rad = (d: number) => (d * Math.PI) / 180;
+
+/** Great-circle (haversine) distance in km. */
+export function haversineKm(a: LatLon, b: LatLon): number {
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/** "43.65,-79.38" → { lat, lon }, or null when it isn't a valid coordinate pair. */
+export function parseLatLon(v: string | null | undefined): LatLon | null {
+  const [la, lo] = (v ?? "").split(",").map((x) => Number(x.trim()));
+  if (!Number.isFinite(la) || !Number.isFinite(lo) || Math.abs(la) > 90 || Math.abs(lo) > 180) return null;
+  return { lat: la, lon: lo };
+}
@@ -1,7 +1,39 @@
-export type GolfVerdict = "GREEN" | "YELLOW" | "RED";
+import { verdictForScore, type GolfVerdict } from "./verdict";
+import { STORM_STOP_PROB } from "./thunder";
+import { heatStressTier, humidityFromDewPoint, wbgtC } from "./heatStress";
+import {
+  COLD_SHIFT_C,
+  DEFAULT_PROFILE,
+  HEAT_POINTS_SCALE,
+  RAIN_POINTS_SCALE,
+  WIND_BAND_SCALE,
+  type GolferProfile,
+} from "./profile";
+import { DEFAULT_UNITS, precipIn, tempIn, windIn, type UnitSystem } from "./units";
+import { DEFAULT_LOCALE, msg, t as translate, type Locale, type Message, type MessageCode } from "./i18n";
+
+export type { GolfVerdict };
 
 type Season = "WINTER" | "SHOULDER" | "SUMMER";
 
+// Every point the scorer takes off, so callers can explain a score instead of guessing.
+export type ScoreFactor = "rainChance" | "rainAmount" | "storms" | "wind" | "cold" | "heat" | "uv";
+
+export type Deduction = {
+  factor: ScoreFactor;
+  input: number; // the value that triggered it, in `unit` (always metric)
+  unit: "%" | "mm" | "km/h" | "°C" | "WBGT °C" | "UV";
+  band: string; // the threshold band it fell into, in the requested units, e.g. "30–40 km/h"
+  points: number; // points lost
+};
+
+export type HardStopFactor = "alert" | "frost" | "thunderstorm" | "extremeCold" | "snow" | "winter";
+
+export type HardStop = {
+  factor: HardStopFactor;
+  reason: string;
+};
+
 export function golfabilityScore(opts: {
   tempC: number;
   feelsLikeC: number;
@@ -10,11 +42,27 @@ export function golfabilityScore(opts: {
   pop: number; // 0..1
   precipMm?: number;
   hasAlert?: boolean;
+  frostDelay?: boolean; // inside a predicted frost delay (lib/frost)
   conditions?: string | null; // "Snow", "Rain", etc.
+  stormProb?: number | null; // 0..1 from lib/thunder; replaces the conditions regex when given
+
+  // Optional heat / sun inputs (any subset)
+  humidityPct?: number | null; // relative humidity 0..100
+  dewPointC?: number | null;
+  uvIndex?: number | null;
 
   // NEW: season awareness inputs
   lat?: number | null;        // from geolocation
   month?: number | null;      // 0..11 (JS month)
+
+  // Whose thresholds to score against (lib/profile); defaults to the standard golfer
+  profile?: GolferProfile;
+
+  // Units for the human-readable `band` labels; inputs and thresholds are always metric
+  units?: UnitSystem;
+
+  // Language of `reason` / `notes`; `reasonMessage` / `noteCodes` carry the same text as codes
+  locale?: Locale;
 }) {
   const {
     tempC,
@@ -24,87 +72,207 @@ export function golfabilityScore(opts: {
     pop,
     precipMm = 0,
     hasAlert = false,
+    frostDelay = false,
     conditions = null,
+    stormProb = null,
+    humidityPct = null,
+    dewPointC = null,
+    uvIndex = null,
     lat = null,
     month = null,
+    profile = DEFAULT_PROFILE,
+    units = DEFAULT_UNITS,
+    locale = DEFAULT_LOCALE,
   } = opts;
 
+  const noteCodes: MessageCode[] = [];
+  const deductions: Deduction[] = [];
+
+  const notesText = () => noteCodes.map((code) => translate(locale, code, { units }));
+
+  const stop = (factor: HardStopFactor, score: number) => {
+    const reasonMessage = msg(`stop.${factor}` as const);
+    const reason = translate(locale, reasonMessage, { units });
+    return {
+      score,
+      verdict: "RED" as GolfVerdict,
+      reason,
+      reasonMessage,
+      notes: notesText(),
+      noteCodes,
+      deductions,
+      hardStop: { factor, reason } as HardStop | null,
+    };
+  };
+
+  const deduct = (factor: ScoreFactor, input: number, unit: Deduction["unit"], band: string, points: number) => {
+    deductions.push({ factor, input: Math.round(input * 10) / 10, unit, band, points });
+  };
+
+  // Band labels ("20–30 km/h", "below 5°C") in the golfer's units and language.
+  const band = (convert: typeof tempIn, lo: number, hi: number | null, space = "") => {
+    const a = convert(lo, units);
+    return hi == null ? `${a.value}${space}${a.unit}+` : `${a.value}–${convert(hi, units).value}${space}${a.unit}`;
+  };
+
   // --- Hard stops ---
-  if (hasAlert) {
-    return { score: 0, verdict: "RED" as GolfVerdict, reason: "Weather alert in effect" };
-  }
+  if (hasAlert) return stop("alert", 0);
+  if (frostDelay) return stop("frost", 0);
 
   const isSnowy = conditions ? /snow/i.test(conditions) : false;
-  const isStormy = conditions ? /thunderstorm/i.test(conditions) : false;
+  const isStormy =
+    stormProb != null ? stormProb >= STORM_STOP_PROB : conditions ? /thunderstorm/i.test(conditions) : false;
 
-  if (isStormy) {
-    return { score: 0, verdict: "RED" as GolfVerdict, reason: "Thunderstorms — hard no" };
-  }
+  if (isStormy) return stop("thunderstorm", 0);
 
   // --- Season detection ---
   const season = inferSeason({ lat, month });
 
-  // Tunable thresholds (these are the “Canada reality” knobs)
-  const WINTER_MIN_FEELS_LIKE_C = 5;   // below this in winter = not playable
-  const ABSOLUTE_MIN_FEELS_LIKE_C = -2; // always not playable
+  // Tunable thresholds (these are the “Canada reality” knobs), shifted by the golfer's cold tolerance
+  const coldShift = COLD_SHIFT_C[profile.cold];
+  const WINTER_MIN_FEELS_LIKE_C = 5 + coldShift;   // below this in winter = not playable
+  const ABSOLUTE_MIN_FEELS_LIKE_C = -2 + coldShift; // always not playable
 
   // Absolute cold rule
-  if (feelsLikeC <= ABSOLUTE_MIN_FEELS_LIKE_C) {
-    return { score: 10, verdict: "RED" as GolfVerdict, reason: "Too cold to be playable" };
-  }
+  if (feelsLikeC <= ABSOLUTE_MIN_FEELS_LIKE_C) return stop("extremeCold", 10);
 
   // Snow rule (always)
-  if (isSnowy) {
-    return { score: 15, verdict: "RED" as GolfVerdict, reason: "Snowing / winter conditions" };
-  }
+  if (isSnowy) return stop("snow", 15);
 
   // Winter clamp (season-aware)
   if (season === "WINTER" && feelsLikeC < WINTER_MIN_FEELS_LIKE_C) {
-    return { score: 25, verdict: "RED" as GolfVerdict, reason: "Winter conditions — not golf weather" };
+    return stop("winter", 25);
   }
 
   // --- Scoring ---
-  let score = 100;
 
-  // Precip risk (up to ~45)
-  if (pop >= 0.8) score -= 40;
-  else if (pop >= 0.6) score -= 30;
-  else if (pop >= 0.4) score -= 18;
-  else if (pop >= 0.2) score -= 8;
+  // Precip risk (up to ~45), scaled by rain tolerance
+  const rainScale = RAIN_POINTS_SCALE[profile.rain];
+  const rainPts = (pts: number) => Math.round(pts * rainScale);
+  const popPct = pop * 100;
+  if (pop >= 0.8) deduct("rainChance", popPct, "%", "80%+", rainPts(40));
+  else if (pop >= 0.6) deduct("rainChance", popPct, "%", "60–80%", rainPts(30));
+  else if (pop >= 0.4) deduct("rainChance", popPct, "%", "40–60%", rainPts(18));
+  else if (pop >= 0.2) deduct("rainChance", popPct, "%", "20–40%", rainPts(8));
 
-  if (precipMm >= 5) score -= 12;
-  else if (precipMm >= 1) score -= 6;
+  if (precipMm >= 5) deduct("rainAmount", precipMm, "mm", band(precipIn, 5, null), rainPts(12));
+  else if (precipMm >= 1) deduct("rainAmount", precipMm, "mm", band(precipIn, 1, 5), rainPts(6));
 
-  // Wind (up to ~30)
+  // Storms in the area (below the hard-stop line)
+  const pct = (p: number) => ({ value: Math.round(p * 100), unit: "%" });
+  if (stormProb != null && stormProb >= 0.15) deduct("storms", stormProb * 100, "%", band(pct, 0.15, STORM_STOP_PROB), 15);
+  else if (stormProb != null && stormProb >= 0.05) deduct("storms", stormProb * 100, "%", band(pct, 0.05, 0.15), 5);
+
+  // Wind (up to ~30); bands stretch or shrink with wind tolerance
   const effectiveWind = Math.max(windKph, gustKph * 0.8);
-  if (effectiveWind >= 50) score -= 28;
-  else if (effectiveWind >= 40) score -= 22;
-  else if (effectiveWind >= 30) score -= 14;
-  else if (effectiveWind >= 20) score -= 8;
-  else if (effectiveWind >= 15) score -= 3;
+  const [w1, w2, w3, w4, w5] = [15, 20, 30, 40, 50].map((k) => Math.round(k * WIND_BAND_SCALE[profile.wind]));
+  if (effectiveWind >= w5) deduct("wind", effectiveWind, "km/h", band(windIn, w5, null, " "), 28);
+  else if (effectiveWind >= w4) deduct("wind", effectiveWind, "km/h", band(windIn, w4, w5, " "), 22);
+  else if (effectiveWind >= w3) deduct("wind", effectiveWind, "km/h", band(windIn, w3, w4, " "), 14);
+  else if (effectiveWind >= w2) deduct("wind", effectiveWind, "km/h", band(windIn, w2, w3, " "), 8);
+  else if (effectiveWind >= w1) deduct("wind", effectiveWind, "km/h", band(windIn, w1, w2, " "), 3);
 
   // Temperature (heavier in shoulder/winter)
   const t = feelsLikeC ?? tempC;
 
-  if (t < 0) score -= season === "SUMMER" ? 35 : 40;
-  else if (t < 5) score -= season === "SUMMER" ? 25 : 30;
-  else if (t < 10) score -= 10;
-  else if (t > 32) score -= 18;
+  // Heat: with humidity we can estimate WBGT (muggy 30°C is worse than dry 30°C);
+  // without it, fall back to the plain temperature rule.
+  const rh = humidityPct ?? (dewPointC != null ? humidityFromDewPoint(tempC, dewPointC) : null);
+
+  const [c1, c2, c3] = [0, 5, 10].map((c) => c + coldShift);
+  if (t < c1) deduct("cold", t, "°C", translate(locale, msg("band.below", { c: c1 }), { units }), season === "SUMMER" ? 35 : 40);
+  else if (t < c2) deduct("cold", t, "°C", band(tempIn, c1, c2), season === "SUMMER" ? 25 : 30);
+  else if (t < c3) deduct("cold", t, "°C", band(tempIn, c2, c3), 10);
+  else if (rh == null && t > 32) deduct("heat", t, "°C", translate(locale, msg("band.above", { c: 32 }), { units }), 18);
+
+  const wbgt = rh != null ? wbgtC(tempC, rh) : null;
+  const heatTier = wbgt != null ? heatStressTier(wbgt) : "NONE";
+  const heatPts = (pts: number) => Math.round(pts * HEAT_POINTS_SCALE[profile.pace]);
+  if (wbgt != null && heatTier === "EXTREME") {
+    deduct("heat", wbgt, "WBGT °C", `${band(tempIn, 32, null)} WBGT`, heatPts(30));
+    noteCodes.push("note.heatExtreme");
+  } else if (wbgt != null && heatTier === "HIGH") {
+    deduct("heat", wbgt, "WBGT °C", `${band(tempIn, 29, 32)} WBGT`, heatPts(20));
+    noteCodes.push("note.heatHigh");
+  } else if (wbgt != null && heatTier === "CAUTION") {
+    deduct("heat", wbgt, "WBGT °C", `${band(tempIn, 26, 29)} WBGT`, heatPts(10));
+    noteCodes.push("note.heatCaution");
+  }
+
+  // UV (small nudge: sunscreen fixes most of it)
+  if (uvIndex != null && uvIndex >= 11) {
+    deduct("uv", uvIndex, "UV", "11+", 6);
+    noteCodes.push("note.uvExtreme");
+  } else if (uvIndex != null && uvIndex >= 8) {
+    deduct("uv", uvIndex, "UV", "8–11", 4);
+    noteCodes.push("note.uvHigh");
+  }
 
-  score = Math.max(0, Math.min(100, Math.round(score)));
+  const lost = deductions.reduce((sum, d) => sum + d.points, 0);
+  const score = Math.max(0, Math.min(100, Math.round(100 - lost)));
 
-  let verdict: GolfVerdict = "GREEN";
-  if (score < 55) verdict = "RED";
-  else if (score < 80) verdict = "YELLOW";
+  const verdict = verdictForScore(score);
+
+  const reasonMessage: Message =
+    verdict !== "GREEN" && (heatTier === "HIGH" || heatTier === "EXTREME")
+      ? msg(noteCodes[0])
+      : verdict === "GREEN"
+        ? msg("golf.great")
+        : verdict === "YELLOW"
+          ? msg("golf.playable")
+          : msg("golf.poor");
+  const reason = translate(locale, reasonMessage, { units });
+
+  return {
+    score,
+    verdict,
+    reason,
+    reasonMessage,
+    season,
+    notes: notesText(),
+    noteCodes,
+    deductions,
+    hardStop: null as HardStop | null,
+  };
+}
+
+export type ScoreBreakdown = {
+  deductions: (Deduction & { hours: number })[]; // points averaged over all hours, worst input kept
+  hardStops: (HardStop & { hours: number })[];
+};
+
+// Roll per-hour breakdowns up to a stretch of hours (a day, a round), largest deduction first.
+export function rollupBreakdown(
+  hours: { deductions?: Deduction[]; hardStop?: HardStop | null }[]
+): ScoreBreakdown {
+  const byFactor = new Map<ScoreFactor, Deduction & { hours: number; total: number }>();
+  const stops = new Map<HardStopFactor, HardStop & { hours: number }>();
+
+  for (const h of hours) {
+    if (h.hardStop) {
+      const s = stops.get(h.hardStop.factor);
+      if (s) s.hours += 1;
+      else stops.set(h.hardStop.factor, { ...h.hardStop, hours: 1 });
+    }
+    for (const d of h.deductions ?? []) {
+      const agg = byFactor.get(d.factor);
+      if (!agg) {
+        byFactor.set(d.factor, { ...d, hours: 1, total: d.points });
+        continue;
+      }
+      agg.hours += 1;
+      agg.total += d.points;
+      if (d.points > agg.points) Object.assign(agg, { input: d.input, band: d.band, points: d.points });
+    }
+  }
 
-  const reason =
-    verdict === "GREEN"
-      ? "Great golf weather"
-      : verdict === "YELLOW"
-        ? "Playable, but not perfect"
-        : "Not really golf weather";
+  const n = Math.max(1, hours.length);
+  const deductions = [...byFactor.values()]
+    .map(({ total, ...d }) => ({ ...d, points: Math.round((total / n) * 10) / 10 }))
+    .sort((a, b) => b.points - a.points);
+  const hardStops = [...stops.values()].sort((a, b) => b.hours - a.hours);
 
-  return { score, verdict, reason, season };
+  return { deductions, hardStops };
 }
 
 // Season inference based on hemisphere + month
@@ -0,0 +1,205 @@
+// Day-by-day water balance of the turf's top layer: observed then forecast rain in,
+// drainage and evapotranspiration out. One model behind greens speed, firmness, rollout and
+// "cart path only" for every day, so today and the forecast days can't disagree.
+
+import { solarDay } from "@/lib/solar";
+import { localDateKey } from "@/lib/timezone";
+import type { HourlyPoint } from "@/lib/weather/types";
+
+export type SoilClass = "sand" | "loam" | "clay";
+
+export const SOIL_CLASSES: SoilClass[] = ["sand", "loam", "clay"];
+
+export const DEFAULT_SOIL: SoilClass = "loam";
+
+// Water the top ~10 cm holds when saturated, and the share of the water above field capacity
+// (half of that) that drains away per day. Sand-capped greens shed rain fastest; clay holds it.
+const SOIL: Record<SoilClass, { capacityMm: number; drainPerDay: number }> = {
+  sand: { capacityMm: 20, drainPerDay: 0.8 },
+  loam: { capacityMm: 30, drainPerDay: 0.5 },
+  clay: { capacityMm: 40, drainPerDay: 0.2 },
+};
+
+export function parseSoil(v: string | null | undefined): SoilClass | null {
+  return SOIL_CLASSES.find((s) => s === v) ?? null;
+}
+
+export type WeatherSample = Pick<HourlyPoint, "dt" | "tempC" | "windKph" | "precipMm" | "humidityPct" | "cloudPct">;
+
+export type GroundDay = {
+  dateKey: string;
+  rainMm: number; // that local day
+  rain48hMm: number; // that day plus the one before
+  etMm: number; // water the turf gave back to the air
+  runoffMm: number; // rain the soil couldn't take: puddles and standing water
+  moisturePct: number; // 0 bone dry .. 100 saturated, as the day is played (midday)
+  frozen: boolean;
+  observed: boolean; // rain up to this day came from history, not the forecast
+  greens: "SLOW" | "MEDIUM" | "QUICK";
+  firmness: "SOFT" | "NORMAL" | "FIRM";
+  rollout: "LOW" | "MEDIUM" | "HIGH";
+  cartPathOnly: "UNLIKELY" | "POSSIBLE" | "LIKELY";
+};
+
+type DayWeather = {
+  dateKey: string;
+  rainMm: number;
+  meanTempC: number;
+  maxTempC: number;
+  minTempC: number;
+  windKph: number;
+  humidityPct: number | null;
+  cloudPct: number | null;
+  daylightHours: number;
+  observed: boolean;
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Reference evapotranspiration (mm/day) from what every provider gives us: a temperature- and
+ * sunshine-driven estimate, pushed up by wind and dry air. Lands around 4–5 mm on a sunny 20°C
+ * summer day and under 1 mm on a grey 5°C one, which is as close as turf needs.
+ */
+export function evapotranspirationMm(d: Omit<DayWeather, "dateKey" | "rainMm" | "minTempC" | "maxTempC" | "observed">) {
+  const cloud = d.cloudPct != null ? clamp(d.cloudPct, 0, 100) / 100 : 0.5;
+  const sun = (d.daylightHours / 12) * (1 - 0.65 * cloud);
+  const warmth = clamp((d.meanTempC + 5) / 25, 0, 1.6);
+  const wind = 1 + 0.5 * clamp(d.windKph / 30, 0, 1);
+  const dryAir = clamp(1.25 - (d.humidityPct ?? 60) / 200, 0.75, 1.25);
+  return clamp(5 * sun * warmth * wind * dryAir, 0, 9);
+}
+
+function daylightHours(dateKey: string, lat: number, lon: number) {
+  const s = solarDay(dateKey, lat, lon);
+  if (s.sunrise != null && s.sunset != null) return (s.sunset - s.sunrise) / 3600;
+  return s.polar === "day" ? 24 : 0;
+}
+
+function groupDays(
+  samples: (WeatherSample & { durationSec: number; observed: boolean })[],
+  timeZone: string,
+  lat: number,
+  lon: number
+): DayWeather[] {
+  const byDay = new Map<string, typeof samples>();
+  for (const s of samples) {
+    const key = localDateKey(s.dt, timeZone);
+    if (!byDay.has(key)) byDay.set(key, []);
+    byDay.get(key)!.push(s);
+  }
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateKey, xs]) => {
+      const total = xs.reduce((sum, s) => sum + s.durationSec, 0);
+      const mean = (f: (s: (typeof xs)[number]) => number) => xs.reduce((sum, s) => sum + f(s) * s.durationSec, 0) / total;
+      const known = (f: (s: (typeof xs)[number]) => number | null | undefined) => {
+        const ys = xs.filter((s) => f(s) != null);
+        const w = ys.reduce((sum, s) => sum + s.durationSec, 0);
+        return w > 0 ? ys.reduce((sum, s) => sum + f(s)! * s.durationSec, 0) / w : null;
+      };
+      return {
+        dateKey,
+        rainMm: xs.reduce((sum, s) => sum + (s.precipMm ?? 0), 0),
+        meanTempC: mean((s) => s.tempC),
+        maxTempC: Math.max(...xs.map((s) => s.tempC)),
+        minTempC: Math.min(...xs.map((s) => s.tempC)),
+        windKph: mean((s) => s.windKph),
+        humidityPct: known((s) => s.humidityPct),
+        cloudPct: known((s) => s.cloudPct),
+        daylightHours: daylightHours(dateKey, lat, lon),
+        observed: xs.every((s) => s.observed),
+      };
+    });
+}
+
+/**
+ * Run the balance over observed hours (oldest first, hourly) followed by the forecast, and return
+ * each local day's ground state keyed by YYYY-MM-DD. History seeds the soil; without any, the
+ * model starts at field capacity on the first forecast day.
+ */
+export function waterBalance(args: {
+  observed: WeatherSample[];
+  forecast: WeatherSample[];
+  forecastStepSec: number;
+  timeZone: string;
+  lat: number;
+  lon: number;
+  soil?: SoilClass;
+}): Map<string, GroundDay> {
+  const { observed, forecast, forecastStepSec, timeZone, lat, lon, soil = DEFAULT_SOIL } = args;
+  const { capacityMm, drainPerDay } = SOIL[soil];
+  const fieldCapacityMm = capacityMm / 2;
+
+  // History runs up to now; the forecast takes over from its first step.
+  const firstForecastDt = forecast[0]?.dt ?? Infinity;
+  const samples = [
+    ...observed.filter((p) => p.dt < firstForecastDt).map((p) => ({ ...p, durationSec: 3600, observed: true })),
+    ...forecast.map((p) => ({ ...p, durationSec: forecastStepSec, observed: false })),
+  ];
+
+  const out = new Map<string, GroundDay>();
+  let storedMm = fieldCapacityMm;
+  let prevRainMm = 0;
+
+  for (const d of groupDays(samples, timeZone, lat, lon)) {
+    // Rain soaks in up to saturation; the rest sits on top or runs off.
+    const wetMm = storedMm + d.rainMm;
+    const runoffMm = Math.max(0, wetMm - capacityMm);
+    const soakedMm = Math.min(capacityMm, wetMm);
+
+    // Only water above field capacity drains; stressed, drying turf gives up less to the air.
+    const drainMm = drainPerDay * Math.max(0, soakedMm - fieldCapacityMm);
+    const frozen = d.minTempC <= -1 && d.maxTempC <= 2;
+    const etMm = frozen ? 0 : evapotranspirationMm(d) * Math.min(1, soakedMm / fieldCapacityMm);
+
+    // Golf is played mid-day: half the day's losses have happened.
+    const middayMm = clamp(soakedMm - (drainMm + etMm) / 2, 0, capacityMm);
+    storedMm = clamp(soakedMm - drainMm - etMm, 0, capacityMm);
+
+    const wetness = middayMm / capacityMm;
+    const rain48hMm = d.rainMm + prevRainMm;
+    prevRainMm = d.rainMm;
+
+    out.set(d.dateKey, {
+      dateKey: d.dateKey,
+      rainMm: round1(d.rainMm),
+      rain48hMm: round1(rain48hMm),
+      etMm: round1(etMm),
+      runoffMm: round1(runoffMm),
+      moisturePct: Math.round(wetness * 100),
+      frozen,
+      observed: d.observed,
+      greens: wetness >= 0.65 || (wetness >= 0.55 && d.maxTempC < 12) ? "SLOW" : wetness <= 0.35 && d.maxTempC >= 14 ? "QUICK" : "MEDIUM",
+      firmness: frozen || wetness <= 0.35 ? "FIRM" : wetness >= 0.65 ? "SOFT" : "NORMAL",
+      rollout: wetness >= 0.7 ? "LOW" : wetness <= 0.35 && d.maxTempC >= 10 ? "HIGH" : "MEDIUM",
+      cartPathOnly: runoffMm > 0 || wetness >= 0.9 ? "LIKELY" : wetness >= 0.8 || frozen ? "POSSIBLE" : "UNLIKELY",
+    });
+  }
+
+  return out;
+}
+
+/** The state on `dateKey`; a day the series doesn't cover reads like the nearest one before it, else field capacity. */
+export function groundOn(days: Map<string, GroundDay>, dateKey: string): GroundDay {
+  const hit = days.get(dateKey);
+  if (hit) return hit;
+  const before = [...days.keys()].filter((k) => k < dateKey).sort();
+  const prev = before.length > 0 ? days.get(before[before.length - 1])! : null;
+  return {
+    dateKey,
+    rainMm: 0,
+    rain48hMm: prev?.rainMm ?? 0,
+    etMm: 0,
+    runoffMm: 0,
+    moisturePct: prev?.moisturePct ?? 50,
+    frozen: false,
+    observed: false,
+    greens: prev?.greens ?? "MEDIUM",
+    firmness: prev?.firmness ?? "NORMAL",
+    rollout: prev?.rollout ?? "MEDIUM",
+    cartPathOnly: prev?.cartPathOnly ?? "UNLIKELY",
+  };
+}
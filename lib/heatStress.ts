@@ -0,0 +1,58 @@
+// Heat / humidity / UV helpers for golfabilityScore.
+
+/** Dew point (°C) from air temperature and relative humidity (Magnus formula). */
+export function dewPointC(tempC: number, humidityPct: number): number {
+  const a = 17.27;
+  const b = 237.7;
+  const rh = Math.max(1, Math.min(100, humidityPct)) / 100;
+  const g = (a * tempC) / (b + tempC) + Math.log(rh);
+  return (b * g) / (a - g);
+}
+
+/** Relative humidity (%) from temperature and dew point (inverse Magnus). */
+export function humidityFromDewPoint(tempC: number, dewC: number): number {
+  const a = 17.27;
+  const b = 237.7;
+  const rh = 100 * Math.exp((a * dewC) / (b + dewC) - (a * tempC) / (b + tempC));
+  return Math.max(0, Math.min(100, rh));
+}
+
+/** Water vapour pressure (hPa) at the given temperature and humidity. */
+function vapourPressureHpa(tempC: number, humidityPct: number) {
+  return (humidityPct / 100) * 6.105 * Math.exp((17.27 * tempC) / (237.7 + tempC));
+}
+
+/**
+ * Shade WBGT estimate (°C) from temperature and humidity (Australian BoM approximation).
+ * Good enough to rank "muggy 30°C" above "dry 30°C"; not a substitute for a WBGT meter.
+ */
+export function wbgtC(tempC: number, humidityPct: number): number {
+  return 0.567 * tempC + 0.393 * vapourPressureHpa(tempC, humidityPct) + 3.94;
+}
+
+/** NWS heat index (°C). Falls back to air temperature below ~27°C where it isn't defined. */
+export function heatIndexC(tempC: number, humidityPct: number): number {
+  const t = (tempC * 9) / 5 + 32;
+  const rh = humidityPct;
+  if (t < 80) return tempC;
+  const hi =
+    -42.379 +
+    2.04901523 * t +
+    10.14333127 * rh -
+    0.22475541 * t * rh -
+    0.00683783 * t * t -
+    0.05481717 * rh * rh +
+    0.00122874 * t * t * rh +
+    0.00085282 * t * rh * rh -
+    0.00000199 * t * t * rh * rh;
+  return ((hi - 32) * 5) / 9;
+}
+
+export type HeatStressTier = "NONE" | "CAUTION" | "HIGH" | "EXTREME";
+
+export function heatStressTier(wbgt: number): HeatStressTier {
+  if (wbgt >= 32) return "EXTREME";
+  if (wbgt >= 29) return "HIGH";
+  if (wbgt >= 26) return "CAUTION";
+  return "NONE";
+}
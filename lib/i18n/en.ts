@@ -0,0 +1,339 @@
+// English message catalog: the source of truth for message codes and their params.
+// Other locales are typed against this one, so a missing or mis-shaped entry fails the type-check.
+
+import type { Fmt } from "./format";
+
+// Page sections that load on their own; a load error names the one that failed.
+export type LoadSection = "location" | "weather" | "courses" | "simulators" | "compare";
+
+const LOAD_SECTIONS: Record<LoadSection, string> = {
+  location: "the location search",
+  weather: "the forecast",
+  courses: "nearby courses",
+  simulators: "simulators",
+  compare: "the comparison",
+};
+
+export const en = {
+  // --- Scorer reasons (lib/golfability) ---
+  "golf.great": () => "Great golf weather",
+  "golf.playable": () => "Playable, but not perfect",
+  "golf.poor": () => "Not really golf weather",
+  "stop.alert": () => "Weather alert in effect",
+  "stop.frost": () => "Frost delay — greens closed",
+  "stop.thunderstorm": () => "Thunderstorms — hard no",
+  "stop.extremeCold": () => "Too cold to be playable",
+  "stop.snow": () => "Snowing / winter conditions",
+  "stop.winter": () => "Winter conditions — not golf weather",
+  "note.heatExtreme": () => "Extreme heat stress — limit exertion",
+  "note.heatHigh": () => "Heat stress — hydrate",
+  "note.heatCaution": () => "Warm & humid — hydrate",
+  "note.uvExtreme": () => "Extreme UV",
+  "note.uvHigh": () => "High UV",
+  "band.below": (p: { c: number }, f: Fmt) => `below ${f.temp(p.c)}`,
+  "band.above": (p: { c: number }, f: Fmt) => `above ${f.temp(p.c)}`,
+
+  // --- Daily rollup reasons (lib/weather/report) ---
+  "day.great": () => "Great golf day",
+  "day.playable": () => "Playable, not perfect",
+  "day.poor": () => "Not golfable",
+  "day.playEarly": (p: { dt: number }, f: Fmt) => `Play early — storms from ${f.time(p.dt)}`,
+  "day.playLate": (p: { dt: number }, f: Fmt) => `Play late — storms clear by ${f.time(p.dt)}`,
+
+  // --- Tee-time round reasons (/api/teetime) ---
+  "round.alert": () => "Weather alert during your round",
+  "round.frostUntil": (p: { dt: number }, f: Fmt) => `Frost delay — greens open ~${f.time(p.dt)}`,
+  "round.frostAllDay": () => "Frost may not lift today",
+  "round.lightning": (p: { dt: number }, f: Fmt) => `Lightning risk — off the course by ${f.time(p.dt)}`,
+  "round.afterSunset": () => "Round finishes after sunset",
+  "round.great": () => "Great golf weather start to finish",
+  "round.roughStretch": (p: { fromHole: number; toHole: number }) => `Rough stretch on holes ${p.fromHole}–${p.toHole}`,
+
+  // --- Greens speed / fairway rollout ---
+  "ground.greensTitle": () => "Greens speed",
+  "ground.rolloutTitle": () => "Fairway rollout",
+  "ground.greens.SLOW": () => "Slow",
+  "ground.greens.MEDIUM": () => "Medium",
+  "ground.greens.QUICK": () => "Quick",
+  "ground.rollout.LOW": () => "Low",
+  "ground.rollout.MEDIUM": () => "Medium",
+  "ground.rollout.HIGH": () => "High",
+  "greens.noRecentData": () => "Using forecast-only signal (recent rain data unavailable).",
+  "greens.slowWet": (p: { mm: number }, f: Fmt) => `Likely slower: ${f.precip(p.mm)} in last 48h and limited drying.`,
+  "greens.slowCool": (p: { mm: number }, f: Fmt) => `Leaning slow: ${f.precip(p.mm)} in last 48h, cool/wet feel.`,
+  "greens.quickDry": (p: { mm: number }, f: Fmt) => `Likely quicker: dry last 48h (${f.precip(p.mm)}) with decent drying.`,
+  "greens.normal": (p: { mm: number }, f: Fmt) => `Normal-ish: ${f.precip(p.mm)} in last 48h with some drying.`,
+  "rollout.noRecentData": () => "Some rollout, but not summer-firm.",
+  "rollout.low": (p: { mm: number }, f: Fmt) => `Low rollout / plug risk up: ${f.precip(p.mm)} in last 48h.`,
+  "rollout.high": (p: { mm: number }, f: Fmt) => `More rollout likely: dry last 48h (${f.precip(p.mm)}) + drying breeze.`,
+  "rollout.moderate": (p: { mm: number }, f: Fmt) => `Moderate rollout: ${f.precip(p.mm)} last 48h.`,
+  "greens.forecastSlow": (p: { mm: number }, f: Fmt) =>
+    `Leaning slow: ~${f.precip(p.mm)} in the prior 48h + limited drying.`,
+  "greens.forecastQuick": (p: { mm: number }, f: Fmt) =>
+    `Leaning quicker: ~${f.precip(p.mm)} prior 48h with good drying.`,
+  "greens.forecastNormal": (p: { mm: number }, f: Fmt) => `Normal-ish: ~${f.precip(p.mm)} prior 48h with some drying.`,
+  "rollout.forecastLow": (p: { mm: number }, f: Fmt) => `Low rollout likely: ~${f.precip(p.mm)} prior 48h (plug risk).`,
+  "rollout.forecastHigh": (p: { mm: number }, f: Fmt) =>
+    `More rollout likely: ~${f.precip(p.mm)} prior 48h + drying breeze.`,
+  "rollout.forecastModerate": (p: { mm: number }, f: Fmt) => `Moderate rollout: ~${f.precip(p.mm)} prior 48h.`,
+  "ground.firmnessTitle": () => "Firmness",
+  "ground.firmness.SOFT": () => "Soft",
+  "ground.firmness.NORMAL": () => "Normal",
+  "ground.firmness.FIRM": () => "Firm",
+  "firmness.soft": () => "Approaches should hold (more moisture).",
+  "firmness.normal": () => "Typical bounce & rollout.",
+  "firmness.firm": () => "Some bounce & rollout — plan for release.",
+  "firmness.frozen": () => "Cold/frozen surfaces possible early (check for frost delays).",
+  "ground.cartPathTitle": () => "Cart path only",
+  "ground.cartPath.UNLIKELY": () => "Unlikely",
+  "ground.cartPath.POSSIBLE": () => "Possible",
+  "ground.cartPath.LIKELY": () => "Likely",
+  "cartPath.runoff": (p: { mm: number }, f: Fmt) => `Standing water likely: ~${f.precip(p.mm)} more rain than the soil can take.`,
+  "cartPath.saturated": () => "Turf is saturated — expect carts kept to the paths.",
+  "cartPath.wet": () => "Soft, wet turf — some courses will keep carts to the paths.",
+  "cartPath.frozen": () => "Frozen turf — carts may be kept off the fairways.",
+  "cartPath.ok": () => "Turf should take carts.",
+
+  // --- Page: verdicts, chips and hints ---
+  "verdict.GREEN": () => "Green light",
+  "verdict.YELLOW": () => "Playable",
+  "verdict.RED": () => "Not golfable",
+  "verdict.none": () => "Golf forecast",
+  "confidence.GREEN": () => "Book it with confidence.",
+  "confidence.YELLOW": () => "Playable if you catch the window.",
+  "confidence.RED": () => "Courses are likely closed or unpleasant.",
+  "page.today": () => "Today",
+  "page.score": () => "Score",
+  "chip.rainChance": (p: { pct: number }) => `🌧 ${p.pct}% rain`,
+  "chip.rainAmount": (p: { mm: number }, f: Fmt) => `🌧 ${f.precip(p.mm)} rain`,
+  "chip.storms": (p: { pct: number }) => `⛈ ${p.pct}% storm risk`,
+  "chip.wind": (p: { kph: number }, f: Fmt) => `🌬 Wind ${f.wind(p.kph)}`,
+  "chip.cold": (p: { c: number }, f: Fmt) => `🥶 Feels ${f.temp(p.c)}`,
+  "chip.hot": (p: { c: number }, f: Fmt) => `🌡 Hot ${f.temp(p.c)}`,
+  "chip.heatStress": (p: { wbgt: number }, f: Fmt) => `🥵 Heat stress (WBGT ${f.temp(p.wbgt)})`,
+  "chip.uv": (p: { uv: number }) => `☀️ UV ${p.uv}`,
+  "chip.stop.alert": () => "⚠️ Weather alert",
+  "chip.stop.frost": () => "🧊 Frost delay",
+  "chip.stop.thunderstorm": () => "⛈ Thunderstorms",
+  "chip.stop.extremeCold": () => "❄️ Too cold",
+  "chip.stop.snow": () => "🌨 Snow",
+  "chip.stop.winter": () => "❄️ Winter conditions",
+  "chip.stormsFrom": (p: { dt: number }, f: Fmt) => `⛈ Storms from ${f.time(p.dt)}`,
+  "chip.frostUntil": (p: { dt: number }, f: Fmt) => `🧊 Frost until ~${f.time(p.dt)}`,
+  "chip.frostAllDay": () => "🧊 Frost all day",
+  "chip.frostDelayUntil": (p: { dt: number }, f: Fmt) => `🧊 Frost delay until ~${f.time(p.dt)}`,
+  "chip.stormsClear": (p: { dt: number }, f: Fmt) => `⛈ Storms clear by ${f.time(p.dt)}`,
+  "chip.offCourseBy": (p: { dt: number }, f: Fmt) => `⛈ Off the course by ${f.time(p.dt)}`,
+  "chip.lowLight": () => "🌙 Low light",
+  "chip.poorConditions": () => "🚫 Poor conditions",
+  "chip.betterLater": () => "⏰ Better later",
+  "chip.goEarly": () => "⏰ Go early",
+  "chip.middayWindow": () => "⏰ Catch midday window",
+  "chip.playable": () => "✓ Playable",
+  "limit.alone": (p: { factor: string; points: number; green: number }) =>
+    `${p.factor} costs ${p.points} points — that alone keeps it below ${p.green}.`,
+  "limit.biggest": (p: { factor: string; points: number; gap: number }) =>
+    `${p.factor} is the biggest drag (−${p.points}). ${p.gap} points from green.`,
+  "limit.marginal": (p: { gap: number }) => `Just ${p.gap} points from green — marginal conditions.`,
+  "wind.gust": (p: { kph: number }, f: Fmt) => `(gust ${f.windValue(p.kph)})`,
+
+  // --- Share text ---
+  "share.yourArea": () => "your area",
+  "share.bestWindow": (p: { text: string }) => `Best window: ${p.text}`,
+  "share.wind": (p: { text: string }) => `Wind: ${p.text}`,
+  "share.greens": (p: { text: string }) => `Greens: ${p.text}`,
+  "share.rollout": (p: { text: string }) => `Rollout: ${p.text}`,
+
+  // --- Page: search, errors and footer ---
+  "page.about": () => "About",
+  "page.headline": () => "Your tee-time forecast.",
+  "page.tagline": () =>
+    "Search a city or course — we’ll score the conditions and find the best daylight window for your round.",
+  "page.useMyLocation": () => "Use my location",
+  "page.searchPlaceholder": () => "Search city or course: Guelph, Toronto, Glen Abbey…",
+  "page.searching": () => "Searching…",
+  "page.popular": () => "Popular destinations",
+  "page.footer": () => "Built for quick decisions — not perfect predictions. Always check course openings + frost delays.",
+  "page.wind": (p: { text: string }) => `wind ${p.text}`,
+  "page.gust": (p: { text: string }) => `(gust ${p.text})`,
+  "page.sunriseSunset": (p: { sunrise: string; sunset: string }) => `Sunrise ${p.sunrise} • Sunset ${p.sunset}`,
+  "load.rateLimitedIn": (p: { section: LoadSection; sec: number }) =>
+    `Too many requests — try ${LOAD_SECTIONS[p.section]} again in ${p.sec}s.`,
+  "load.rateLimited": (p: { section: LoadSection }) =>
+    `Too many requests — try ${LOAD_SECTIONS[p.section]} again in a minute.`,
+  "load.failed": (p: { section: LoadSection }) => `Couldn’t load ${LOAD_SECTIONS[p.section]}. Try again shortly.`,
+  "geo.unsupported": () => "Geolocation not supported in this browser.",
+  "geo.denied": () => "Location access was denied.",
+  "geo.failed": () => "Couldn’t get your location.",
+  "geo.resolveFailed": () => "Couldn’t resolve that city.",
+  "geo.notFound": () => "Couldn’t find that location.",
+  "geo.loadFailed": () => "Couldn’t load that city.",
+  "alerts.heading": (p: { count: number }) => `⚠️ Weather ${p.count === 1 ? "alert" : "alerts"} in effect`,
+  "alerts.severity.minor": () => "minor",
+  "alerts.severity.moderate": () => "moderate",
+  "alerts.severity.severe": () => "severe",
+  "alerts.severity.extreme": () => "extreme",
+
+  // --- Page: verdict panel ---
+  "clubs.playsLike": () => "🏌️ Plays like",
+  "clubs.edit": () => "edit clubs",
+  "clubs.done": () => "done",
+  "clubs.carry": () => "y carry",
+  "clubs.add": () => "add club",
+  "clubs.newClub": () => "Club",
+  "clubs.club": () => "Club",
+  "clubs.carries": () => "Carries",
+  "clubs.intoWind": () => "Into wind",
+  "clubs.downwind": () => "Downwind",
+  "window.title": () => "Best tee-time window",
+  "window.avg": (p: { avg: number }) => `(avg ${p.avg}/100)`,
+  "window.avgLow": (p: { avg: number; low: number }) => `(avg ${p.avg}/100, low ${p.low})`,
+  "share.button": () => "Share",
+  "share.copied": () => "Copied",
+  "share.hint": () => "Copy a shareable summary",
+  "playOut.title": () => "How the day plays out",
+  "playOut.morning": () => "Morning",
+  "playOut.midday": () => "Midday",
+  "playOut.late": () => "Late",
+  "playOut.best": () => "Best window",
+  "playOut.GREEN": () => "Excellent",
+  "playOut.YELLOW": () => "Decent",
+  "playOut.RED": () => "Challenging",
+  "playOut.holdsUp": () => "Holds up",
+  "playOut.fallsOff": () => "Falls off",
+  "ground.recentPrecip": (p: { day: string; twoDays: string }) => `Recent precip: ${p.day} (24h) · ${p.twoDays} (48h)`,
+  "ground.moisture": (p: { pct: number }) => `Surface moisture: ${p.pct}%`,
+  "ground.forecastWetness": (p: { mm: number }, f: Fmt) => `${f.precip(p.mm)} rain over 48h (forecast)`,
+  "settings.round": () => "Round",
+  "settings.holes": (p: { holes: number }) => `${p.holes} holes`,
+  "settings.walk": () => "Walking",
+  "settings.cart": () => "Cart",
+  "settings.limits": () => "Your limits",
+  "settings.units": () => "Units",
+  "settings.language": () => "Language",
+  "settings.teeTime": () => "Tee time (optional)",
+  "settings.clear": () => "clear",
+  "tolerance.cold": () => "cold",
+  "tolerance.wind": () => "wind",
+  "tolerance.rain": () => "rain",
+  "tolerance.cold.low": () => "Soft",
+  "tolerance.cold.normal": () => "Normal",
+  "tolerance.cold.high": () => "Hardy",
+  "tolerance.wind.low": () => "Hates it",
+  "tolerance.wind.normal": () => "Normal",
+  "tolerance.wind.high": () => "Shrugs",
+  "tolerance.rain.low": () => "Fair-weather",
+  "tolerance.rain.normal": () => "Normal",
+  "tolerance.rain.high": () => "Plays through",
+  "teeTime.early": (p: { sunrise: number }, f: Fmt) => `⚠️ Tees off before sunrise (${f.time(p.sunrise)})`,
+  "teeTime.late": (p: { end: number; sunset: number }, f: Fmt) =>
+    `⚠️ Finishes around ${f.time(p.end)}, after sunset (${f.time(p.sunset)})`,
+  "teeTime.at": (p: { time: string }) => `At ${p.time}`,
+  "teeTime.rain": (p: { pct: number }) => `${p.pct}% rain`,
+  "teeRound.finishes": (p: { time: string }) => `Finishes ~${p.time}`,
+  "teeRound.toughest": (p: { fromHole: number; toHole: number; score: number }) =>
+    `toughest: holes ${p.fromHole}–${p.toHole} (${p.score}/100)`,
+  "teeRound.beforeSunset": () => "done before sunset",
+  "teeRound.pastSunset": (p: { time: string }) => `⚠️ runs past sunset (${p.time})`,
+  "layout.title": () => "Course layout",
+  "layout.uploaded": () => "Uploaded layout",
+  "layout.remove": () => "remove",
+  "layout.upload": () => "upload JSON / GeoJSON",
+  "layout.noCoords": () => "Couldn’t find tee/green coordinates in that file.",
+  "layout.badJson": () => "That file isn’t valid JSON.",
+  "holeWind.plays": (p: { yards: number }) => `${p.yards}y plays`,
+  "holeWind.into": (p: { kph: number }, f: Fmt) => `${f.windValue(p.kph)} into`,
+  "holeWind.helping": (p: { kph: number }, f: Fmt) => `${f.windValue(p.kph)} helping`,
+  "days.title": () => "Next 5 days",
+  "days.rainChance": (p: { pct: number }) => `☔ ${p.pct}% rain chance`,
+  "panel.temp": () => "Temp",
+  "panel.feels": (p: { text: string }) => `(feels ${p.text})`,
+  "panel.wind": () => "Wind",
+  "panel.humidity": () => "Humidity",
+  "panel.conditions": () => "Conditions",
+  "panel.highLow": () => "High / Low",
+  "panel.maxWind": () => "Max wind",
+  "panel.maxHumidity": () => "Max humidity",
+  "panel.rainChance": () => "Rain chance",
+  "panel.frost": () => "Frost",
+  "panel.frostClear": (p: { time: string }) => `Delay likely · clear ~${p.time}`,
+  "panel.frostMayNotLift": () => "May not lift",
+  "panel.frostPossible": () => "Possible",
+
+  // --- Page: courses, compare and simulators ---
+  "courses.title": () => "Top picks near you",
+  "courses.byConditions": () => "Best conditions at each course, then distance and rating.",
+  "courses.byRating": () => "Curated by rating + “open now” (quick list — not a directory).",
+  "courses.rank.conditions": () => "Best conditions",
+  "courses.rank.rating": () => "Top rated",
+  "courses.anyDrive": () => "Any drive",
+  "courses.maxDrive": (p: { min: number }) => `≤ ${p.min} min`,
+  "courses.trySims": () => "Likely closed (try sims)",
+  "courses.tapHint": () => "Tap for directions",
+  "courses.degraded": () => "Course search is paused for today — try again tomorrow.",
+  "courses.noneWithin": (p: { min: number }) => `No courses within ${p.min} minutes’ drive.`,
+  "courses.none": () => "No courses found nearby.",
+  "courses.showMore": (p: { count: number }) => `Show ${p.count} more`,
+  "courses.showLess": () => "Show less",
+  "course.noRating": () => "No rating yet",
+  "course.openNow": () => "Open now",
+  "course.closed": () => "Closed",
+  "course.best": (p: { time: string }) => `best ${p.time}`,
+  "course.driveMin": (p: { min: number }) => `${p.min} min`,
+  "course.tapDirections": () => "Tap to open directions",
+  "course.maps": () => "Maps →",
+  "compare.title": () => "Compare courses",
+  "compare.intro": (p: { max: number; day: string }) => `Pick up to ${p.max} and rank them for ${p.day}.`,
+  "compare.selectedDay": () => "the selected day",
+  "compare.running": () => "Comparing…",
+  "compare.button": (p: { count: number }) => `Compare ${p.count}`,
+  "compare.failed": () => "Compare failed",
+  "compare.col.course": () => "Course",
+  "compare.col.score": () => "Score",
+  "compare.col.window": () => "Best window",
+  "compare.col.ground": () => "Greens · rollout",
+  "compare.col.weather": () => "Rain · wind",
+  "compare.col.distance": () => "Distance",
+  "compare.stormsFrom": (p: { time: string }) => `⛈ Storms from ${p.time}`,
+  "compare.frostLikely": () => "Frost delay likely",
+  "compare.noForecast": () => "No forecast",
+  "compare.rankedFor": (p: { day: string }) => `Ranked for ${p.day}.`,
+  "compare.routing.google": () => "Drive times by road.",
+  "compare.routing.estimate": () => "Drive times estimated from the straight-line distance.",
+  "compare.routing.none": () => "Distance is as the crow flies.",
+  "sims.title": () => "Indoor golf / simulators",
+  "sims.why": () => "Because it’s a red day outside.",
+  "sims.view": () => "View",
+
+  // --- City page metadata ---
+  "city.title": (p: { name: string }) => `Golf Weather in ${p.name}`,
+  "city.description": (p: { name: string }) =>
+    `Can you golf in ${p.name} today? Instant conditions score (0–100) and the best 3-hour tee-time window for ${p.name}.`,
+  "city.ogDescription": (p: { name: string }) =>
+    `Instant golf forecast for ${p.name} — conditions scored 0–100 with the best tee-time window.`,
+  "city.twitterDescription": (p: { name: string }) => `Can you golf in ${p.name} today? Conditions scored 0–100.`,
+
+  // --- About page ---
+  "about.title": () => "About",
+  "about.description": () => "About CanIGolfToday — how it works, how conditions are scored, and how to get in touch.",
+  "about.back": () => "← Back",
+  "about.intro": () =>
+    "I built this because I kept checking three different weather apps before a round and still showing up to a soaked fairway. CanIGolfToday gives you one number — a 0–100 conditions score — and tells you the best window to tee off. That’s it.",
+  "about.scoreHeading": () => "What the score means",
+  "about.green": (p: { from: number }) => `${p.from}–100 · Green light`,
+  "about.greenDetail": () => "Great conditions. Book it.",
+  "about.yellow": (p: { from: number; to: number }) => `${p.from}–${p.to} · Playable`,
+  "about.yellowDetail": () => "Worth going if you catch the right window.",
+  "about.red": (p: { below: number }) => `Below ${p.below} · Tough day`,
+  "about.redDetail": () => "Probably not worth it. Check the next few days.",
+  "about.method": () =>
+    "Scores weigh temperature, wind, precipitation, humidity, and daylight. The best window is the highest-scoring stretch within golfing hours, sized to your round (about 2 hours for nine holes, 4½ for eighteen), checked hour by hour. Set your own limits for cold, wind and rain (and whether you walk or ride) and the score moves to match — a hardy golfer’s “too cold” line sits about 5° lower.",
+  "about.supportHeading": () => "Support the project",
+  "about.support": () =>
+    "CanIGolfToday is free and has no ads. If it’s saved you a wasted trip, a coffee goes a long way toward keeping the lights on.",
+  "about.coffee": () => "☕ Buy me a coffee",
+  "about.coffeeNote": () => "via Stripe · opens in new tab",
+  "about.contactHeading": () => "Get in touch",
+  "about.contact": () => "Found a bug? Have a course you want added? Just want to talk golf?",
+  "about.footer": () => "Built by a golfer, for golfers. No fluff — just the forecast.",
+};
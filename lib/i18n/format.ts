@@ -0,0 +1,27 @@
+// Value formatters handed to catalog entries, bound to a locale, unit system and course time zone.
+
+import { formatTime } from "@/lib/timezone";
+import { DEFAULT_UNITS, formatPrecip, formatTemp, formatWind, windIn, type UnitSystem } from "@/lib/units";
+import { TIME_LOCALES, type Locale } from "./locale";
+
+export type Fmt = {
+  time(dt: number): string; // unix seconds, at the course
+  precip(mm: number): string;
+  temp(c: number): string;
+  wind(kph: number): string;
+  windValue(kph: number): string; // the number alone, for "(gust 32)"
+};
+
+export type FormatContext = { units?: UnitSystem; timeZone?: string };
+
+export function formatters(locale: Locale, { units = DEFAULT_UNITS, timeZone = "UTC" }: FormatContext = {}): Fmt {
+  // French writes decimals with a comma: "4,2mm".
+  const decimals = (s: string) => (locale === "fr" ? s.replace(/(\d)\.(\d)/g, "$1,$2") : s);
+  return {
+    time: (dt) => formatTime(dt, timeZone, TIME_LOCALES[locale]),
+    precip: (mm) => decimals(formatPrecip(mm, units)),
+    temp: (c) => formatTemp(c, units),
+    wind: (kph) => formatWind(kph, units),
+    windValue: (kph) => String(windIn(kph, units).value),
+  };
+}
@@ -0,0 +1,346 @@
+// Catalogue français (Québec). Same codes and params as ./en.
+
+import type { Catalog } from "./index";
+import type { LoadSection } from "./en";
+import type { Fmt } from "./format";
+
+const LOAD_SECTIONS: Record<LoadSection, string> = {
+  location: "la recherche de lieu",
+  weather: "les prévisions",
+  courses: "les parcours à proximité",
+  simulators: "les simulateurs",
+  compare: "la comparaison",
+};
+
+export const fr: Catalog = {
+  // --- Raisons du pointage (lib/golfability) ---
+  "golf.great": () => "Super météo de golf",
+  "golf.playable": () => "Jouable, mais pas parfait",
+  "golf.poor": () => "Pas vraiment une météo de golf",
+  "stop.alert": () => "Alerte météo en vigueur",
+  "stop.frost": () => "Retard pour le givre — verts fermés",
+  "stop.thunderstorm": () => "Orages — c'est non",
+  "stop.extremeCold": () => "Trop froid pour jouer",
+  "stop.snow": () => "Neige / conditions hivernales",
+  "stop.winter": () => "Conditions hivernales — pas une météo de golf",
+  "note.heatExtreme": () => "Stress thermique extrême — limitez l'effort",
+  "note.heatHigh": () => "Stress thermique — hydratez-vous",
+  "note.heatCaution": () => "Chaud et humide — hydratez-vous",
+  "note.uvExtreme": () => "UV extrême",
+  "note.uvHigh": () => "UV élevé",
+  "band.below": (p: { c: number }, f: Fmt) => `sous ${f.temp(p.c)}`,
+  "band.above": (p: { c: number }, f: Fmt) => `au-dessus de ${f.temp(p.c)}`,
+
+  // --- Bilans quotidiens (lib/weather/report) ---
+  "day.great": () => "Super journée de golf",
+  "day.playable": () => "Jouable, pas parfait",
+  "day.poor": () => "Pas jouable",
+  "day.playEarly": (p: { dt: number }, f: Fmt) => `Jouez tôt — orages dès ${f.time(p.dt)}`,
+  "day.playLate": (p: { dt: number }, f: Fmt) => `Jouez tard — orages terminés vers ${f.time(p.dt)}`,
+
+  // --- Ronde à l'heure de départ (/api/teetime) ---
+  "round.alert": () => "Alerte météo pendant votre ronde",
+  "round.frostUntil": (p: { dt: number }, f: Fmt) => `Retard pour le givre — verts ouverts vers ${f.time(p.dt)}`,
+  "round.frostAllDay": () => "Le givre pourrait persister toute la journée",
+  "round.lightning": (p: { dt: number }, f: Fmt) => `Risque de foudre — quittez le parcours avant ${f.time(p.dt)}`,
+  "round.afterSunset": () => "La ronde se termine après le coucher du soleil",
+  "round.great": () => "Super météo du début à la fin",
+  "round.roughStretch": (p: { fromHole: number; toHole: number }) => `Passage difficile aux trous ${p.fromHole} à ${p.toHole}`,
+
+  // --- Vitesse des verts / roulement ---
+  "ground.greensTitle": () => "Vitesse des verts",
+  "ground.rolloutTitle": () => "Roulement sur l'allée",
+  "ground.greens.SLOW": () => "Lents",
+  "ground.greens.MEDIUM": () => "Moyens",
+  "ground.greens.QUICK": () => "Rapides",
+  "ground.rollout.LOW": () => "Faible",
+  "ground.rollout.MEDIUM": () => "Moyen",
+  "ground.rollout.HIGH": () => "Élevé",
+  "greens.noRecentData": () => "Selon la prévision seulement (pluie récente non disponible).",
+  "greens.slowWet": (p: { mm: number }, f: Fmt) => `Probablement plus lents : ${f.precip(p.mm)} en 48 h et peu de séchage.`,
+  "greens.slowCool": (p: { mm: number }, f: Fmt) => `Plutôt lents : ${f.precip(p.mm)} en 48 h, temps frais et humide.`,
+  "greens.quickDry": (p: { mm: number }, f: Fmt) => `Probablement plus rapides : 48 h au sec (${f.precip(p.mm)}) et bon séchage.`,
+  "greens.normal": (p: { mm: number }, f: Fmt) => `Plutôt normaux : ${f.precip(p.mm)} en 48 h avec un peu de séchage.`,
+  "rollout.noRecentData": () => "Un peu de roulement, mais pas la fermeté d'été.",
+  "rollout.low": (p: { mm: number }, f: Fmt) => `Peu de roulement, balles enfoncées possibles : ${f.precip(p.mm)} en 48 h.`,
+  "rollout.high": (p: { mm: number }, f: Fmt) => `Plus de roulement probable : 48 h au sec (${f.precip(p.mm)}) et brise asséchante.`,
+  "rollout.moderate": (p: { mm: number }, f: Fmt) => `Roulement modéré : ${f.precip(p.mm)} en 48 h.`,
+  "greens.forecastSlow": (p: { mm: number }, f: Fmt) =>
+    `Plutôt lents : ~${f.precip(p.mm)} dans les 48 h précédentes et peu de séchage.`,
+  "greens.forecastQuick": (p: { mm: number }, f: Fmt) =>
+    `Plutôt rapides : ~${f.precip(p.mm)} dans les 48 h précédentes et bon séchage.`,
+  "greens.forecastNormal": (p: { mm: number }, f: Fmt) =>
+    `Plutôt normaux : ~${f.precip(p.mm)} dans les 48 h précédentes avec un peu de séchage.`,
+  "rollout.forecastLow": (p: { mm: number }, f: Fmt) =>
+    `Peu de roulement probable : ~${f.precip(p.mm)} dans les 48 h précédentes (balles enfoncées).`,
+  "rollout.forecastHigh": (p: { mm: number }, f: Fmt) =>
+    `Plus de roulement probable : ~${f.precip(p.mm)} dans les 48 h précédentes et brise asséchante.`,
+  "rollout.forecastModerate": (p: { mm: number }, f: Fmt) =>
+    `Roulement modéré : ~${f.precip(p.mm)} dans les 48 h précédentes.`,
+  "ground.firmnessTitle": () => "Fermeté",
+  "ground.firmness.SOFT": () => "Mou",
+  "ground.firmness.NORMAL": () => "Normal",
+  "ground.firmness.FIRM": () => "Ferme",
+  "firmness.soft": () => "Les approches devraient tenir (sol plus humide).",
+  "firmness.normal": () => "Rebond et roulement habituels.",
+  "firmness.firm": () => "Un peu de rebond et de roulement — prévoyez-le.",
+  "firmness.frozen": () => "Surfaces froides ou gelées possibles tôt (vérifiez les retards pour le givre).",
+  "ground.cartPathTitle": () => "Voiturettes sur les sentiers seulement",
+  "ground.cartPath.UNLIKELY": () => "Peu probable",
+  "ground.cartPath.POSSIBLE": () => "Possible",
+  "ground.cartPath.LIKELY": () => "Probable",
+  "cartPath.runoff": (p: { mm: number }, f: Fmt) =>
+    `Eau stagnante probable : ~${f.precip(p.mm)} de pluie de plus que ce que le sol peut absorber.`,
+  "cartPath.saturated": () => "Gazon saturé — voiturettes probablement limitées aux sentiers.",
+  "cartPath.wet": () => "Gazon mou et mouillé — certains parcours limiteront les voiturettes aux sentiers.",
+  "cartPath.frozen": () => "Gazon gelé — voiturettes possiblement interdites sur les allées.",
+  "cartPath.ok": () => "Le gazon devrait supporter les voiturettes.",
+
+  // --- Page : verdicts, pastilles et indices ---
+  "verdict.GREEN": () => "Feu vert",
+  "verdict.YELLOW": () => "Jouable",
+  "verdict.RED": () => "Pas jouable",
+  "verdict.none": () => "Prévisions golf",
+  "confidence.GREEN": () => "Réservez en toute confiance.",
+  "confidence.YELLOW": () => "Jouable si vous visez le bon créneau.",
+  "confidence.RED": () => "Les parcours sont probablement fermés ou désagréables.",
+  "page.today": () => "Aujourd'hui",
+  "page.score": () => "Pointage",
+  "chip.rainChance": (p: { pct: number }) => `🌧 ${p.pct} % de pluie`,
+  "chip.rainAmount": (p: { mm: number }, f: Fmt) => `🌧 ${f.precip(p.mm)} de pluie`,
+  "chip.storms": (p: { pct: number }) => `⛈ Risque d'orage ${p.pct} %`,
+  "chip.wind": (p: { kph: number }, f: Fmt) => `🌬 Vent ${f.wind(p.kph)}`,
+  "chip.cold": (p: { c: number }, f: Fmt) => `🥶 Ressenti ${f.temp(p.c)}`,
+  "chip.hot": (p: { c: number }, f: Fmt) => `🌡 Chaud ${f.temp(p.c)}`,
+  "chip.heatStress": (p: { wbgt: number }, f: Fmt) => `🥵 Stress thermique (WBGT ${f.temp(p.wbgt)})`,
+  "chip.uv": (p: { uv: number }) => `☀️ UV ${p.uv}`,
+  "chip.stop.alert": () => "⚠️ Alerte météo",
+  "chip.stop.frost": () => "🧊 Retard pour le givre",
+  "chip.stop.thunderstorm": () => "⛈ Orages",
+  "chip.stop.extremeCold": () => "❄️ Trop froid",
+  "chip.stop.snow": () => "🌨 Neige",
+  "chip.stop.winter": () => "❄️ Conditions hivernales",
+  "chip.stormsFrom": (p: { dt: number }, f: Fmt) => `⛈ Orages dès ${f.time(p.dt)}`,
+  "chip.frostUntil": (p: { dt: number }, f: Fmt) => `🧊 Givre jusque vers ${f.time(p.dt)}`,
+  "chip.frostAllDay": () => "🧊 Givre toute la journée",
+  "chip.frostDelayUntil": (p: { dt: number }, f: Fmt) => `🧊 Retard pour le givre jusque vers ${f.time(p.dt)}`,
+  "chip.stormsClear": (p: { dt: number }, f: Fmt) => `⛈ Orages terminés vers ${f.time(p.dt)}`,
+  "chip.offCourseBy": (p: { dt: number }, f: Fmt) => `⛈ Quittez le parcours avant ${f.time(p.dt)}`,
+  "chip.lowLight": () => "🌙 Peu de lumière",
+  "chip.poorConditions": () => "🚫 Mauvaises conditions",
+  "chip.betterLater": () => "⏰ Mieux plus tard",
+  "chip.goEarly": () => "⏰ Partez tôt",
+  "chip.middayWindow": () => "⏰ Visez le midi",
+  "chip.playable": () => "✓ Jouable",
+  "limit.alone": (p: { factor: string; points: number; green: number }) =>
+    `${p.factor} coûte ${p.points} points — à lui seul, ça reste sous ${p.green}.`,
+  "limit.biggest": (p: { factor: string; points: number; gap: number }) =>
+    `${p.factor} pèse le plus (−${p.points}). À ${p.gap} points du vert.`,
+  "limit.marginal": (p: { gap: number }) => `À seulement ${p.gap} points du vert — conditions limites.`,
+  "wind.gust": (p: { kph: number }, f: Fmt) => `(rafales ${f.windValue(p.kph)})`,
+
+  // --- Texte à partager ---
+  "share.yourArea": () => "votre région",
+  "share.bestWindow": (p: { text: string }) => `Meilleur créneau : ${p.text}`,
+  "share.wind": (p: { text: string }) => `Vent : ${p.text}`,
+  "share.greens": (p: { text: string }) => `Verts : ${p.text}`,
+  "share.rollout": (p: { text: string }) => `Roulement : ${p.text}`,
+
+  // --- Page : recherche, erreurs et pied de page ---
+  "page.about": () => "À propos",
+  "page.headline": () => "Vos prévisions de départ.",
+  "page.tagline": () =>
+    "Cherchez une ville ou un parcours — on note les conditions et on trouve le meilleur créneau de jour pour votre partie.",
+  "page.useMyLocation": () => "Utiliser ma position",
+  "page.searchPlaceholder": () => "Ville ou parcours : Guelph, Toronto, Glen Abbey…",
+  "page.searching": () => "Recherche…",
+  "page.popular": () => "Destinations populaires",
+  "page.footer": () =>
+    "Conçu pour décider vite — pas pour prédire parfaitement. Vérifiez toujours l'ouverture des parcours et les retards pour le givre.",
+  "page.wind": (p: { text: string }) => `vent ${p.text}`,
+  "page.gust": (p: { text: string }) => `(rafales ${p.text})`,
+  "page.sunriseSunset": (p: { sunrise: string; sunset: string }) => `Lever ${p.sunrise} • Coucher ${p.sunset}`,
+  "load.rateLimitedIn": (p: { section: LoadSection; sec: number }) =>
+    `Trop de requêtes — réessayez de charger ${LOAD_SECTIONS[p.section]} dans ${p.sec} s.`,
+  "load.rateLimited": (p: { section: LoadSection }) =>
+    `Trop de requêtes — réessayez de charger ${LOAD_SECTIONS[p.section]} dans une minute.`,
+  "load.failed": (p: { section: LoadSection }) =>
+    `Impossible de charger ${LOAD_SECTIONS[p.section]}. Réessayez sous peu.`,
+  "geo.unsupported": () => "La géolocalisation n'est pas prise en charge par ce navigateur.",
+  "geo.denied": () => "L'accès à la position a été refusé.",
+  "geo.failed": () => "Impossible d'obtenir votre position.",
+  "geo.resolveFailed": () => "Impossible de localiser cette ville.",
+  "geo.notFound": () => "Lieu introuvable.",
+  "geo.loadFailed": () => "Impossible de charger cette ville.",
+  "alerts.heading": (p: { count: number }) => `⚠️ ${p.count === 1 ? "Alerte météo en vigueur" : "Alertes météo en vigueur"}`,
+  "alerts.severity.minor": () => "mineure",
+  "alerts.severity.moderate": () => "modérée",
+  "alerts.severity.severe": () => "sévère",
+  "alerts.severity.extreme": () => "extrême",
+
+  // --- Page : panneau du verdict ---
+  "clubs.playsLike": () => "🏌️ Joue comme",
+  "clubs.edit": () => "modifier les bâtons",
+  "clubs.done": () => "terminé",
+  "clubs.carry": () => "v de portée",
+  "clubs.add": () => "ajouter un bâton",
+  "clubs.newClub": () => "Bâton",
+  "clubs.club": () => "Bâton",
+  "clubs.carries": () => "Portée",
+  "clubs.intoWind": () => "Vent de face",
+  "clubs.downwind": () => "Vent de dos",
+  "window.title": () => "Meilleur créneau de départ",
+  "window.avg": (p: { avg: number }) => `(moy. ${p.avg}/100)`,
+  "window.avgLow": (p: { avg: number; low: number }) => `(moy. ${p.avg}/100, min. ${p.low})`,
+  "share.button": () => "Partager",
+  "share.copied": () => "Copié",
+  "share.hint": () => "Copier un résumé à partager",
+  "playOut.title": () => "Le déroulement de la journée",
+  "playOut.morning": () => "Matin",
+  "playOut.midday": () => "Midi",
+  "playOut.late": () => "Fin de journée",
+  "playOut.best": () => "Meilleur créneau",
+  "playOut.GREEN": () => "Excellent",
+  "playOut.YELLOW": () => "Correct",
+  "playOut.RED": () => "Difficile",
+  "playOut.holdsUp": () => "Ça se maintient",
+  "playOut.fallsOff": () => "Ça se dégrade",
+  "ground.recentPrecip": (p: { day: string; twoDays: string }) =>
+    `Précipitations récentes : ${p.day} (24 h) · ${p.twoDays} (48 h)`,
+  "ground.moisture": (p: { pct: number }) => `Humidité du sol : ${p.pct} %`,
+  "ground.forecastWetness": (p: { mm: number }, f: Fmt) => `${f.precip(p.mm)} de pluie sur 48 h (prévision)`,
+  "settings.round": () => "Partie",
+  "settings.holes": (p: { holes: number }) => `${p.holes} trous`,
+  "settings.walk": () => "À pied",
+  "settings.cart": () => "Voiturette",
+  "settings.limits": () => "Vos limites",
+  "settings.units": () => "Unités",
+  "settings.language": () => "Langue",
+  "settings.teeTime": () => "Heure de départ (facultatif)",
+  "settings.clear": () => "effacer",
+  "tolerance.cold": () => "froid",
+  "tolerance.wind": () => "vent",
+  "tolerance.rain": () => "pluie",
+  "tolerance.cold.low": () => "Frileux",
+  "tolerance.cold.normal": () => "Normal",
+  "tolerance.cold.high": () => "Robuste",
+  "tolerance.wind.low": () => "Déteste",
+  "tolerance.wind.normal": () => "Normal",
+  "tolerance.wind.high": () => "S'en fiche",
+  "tolerance.rain.low": () => "Beau temps seulement",
+  "tolerance.rain.normal": () => "Normal",
+  "tolerance.rain.high": () => "Joue quand même",
+  "teeTime.early": (p: { sunrise: number }, f: Fmt) => `⚠️ Départ avant le lever du soleil (${f.time(p.sunrise)})`,
+  "teeTime.late": (p: { end: number; sunset: number }, f: Fmt) =>
+    `⚠️ Fin vers ${f.time(p.end)}, après le coucher du soleil (${f.time(p.sunset)})`,
+  "teeTime.at": (p: { time: string }) => `À ${p.time}`,
+  "teeTime.rain": (p: { pct: number }) => `${p.pct} % de pluie`,
+  "teeRound.finishes": (p: { time: string }) => `Fin vers ${p.time}`,
+  "teeRound.toughest": (p: { fromHole: number; toHole: number; score: number }) =>
+    `plus difficile : trous ${p.fromHole} à ${p.toHole} (${p.score}/100)`,
+  "teeRound.beforeSunset": () => "terminé avant le coucher du soleil",
+  "teeRound.pastSunset": (p: { time: string }) => `⚠️ se termine après le coucher du soleil (${p.time})`,
+  "layout.title": () => "Plan du parcours",
+  "layout.uploaded": () => "Plan téléversé",
+  "layout.remove": () => "retirer",
+  "layout.upload": () => "téléverser JSON / GeoJSON",
+  "layout.noCoords": () => "Aucune coordonnée de départ ou de vert trouvée dans ce fichier.",
+  "layout.badJson": () => "Ce fichier n'est pas un JSON valide.",
+  "holeWind.plays": (p: { yards: number }) => `${p.yards} v joue`,
+  "holeWind.into": (p: { kph: number }, f: Fmt) => `${f.windValue(p.kph)} de face`,
+  "holeWind.helping": (p: { kph: number }, f: Fmt) => `${f.windValue(p.kph)} de dos`,
+  "days.title": () => "5 prochains jours",
+  "days.rainChance": (p: { pct: number }) => `☔ ${p.pct} % de risque de pluie`,
+  "panel.temp": () => "Temp.",
+  "panel.feels": (p: { text: string }) => `(ressenti ${p.text})`,
+  "panel.wind": () => "Vent",
+  "panel.humidity": () => "Humidité",
+  "panel.conditions": () => "Conditions",
+  "panel.highLow": () => "Max. / min.",
+  "panel.maxWind": () => "Vent max.",
+  "panel.maxHumidity": () => "Humidité max.",
+  "panel.rainChance": () => "Risque de pluie",
+  "panel.frost": () => "Givre",
+  "panel.frostClear": (p: { time: string }) => `Retard probable · dégagé vers ${p.time}`,
+  "panel.frostMayNotLift": () => "Pourrait ne pas fondre",
+  "panel.frostPossible": () => "Possible",
+
+  // --- Page : parcours, comparaison et simulateurs ---
+  "courses.title": () => "Nos choix près de vous",
+  "courses.byConditions": () => "Les meilleures conditions à chaque parcours, puis la distance et la note.",
+  "courses.byRating": () => "Choisis selon la note et « ouvert maintenant » (liste rapide — pas un répertoire).",
+  "courses.rank.conditions": () => "Meilleures conditions",
+  "courses.rank.rating": () => "Mieux notés",
+  "courses.anyDrive": () => "Toute distance",
+  "courses.maxDrive": (p: { min: number }) => `≤ ${p.min} min`,
+  "courses.trySims": () => "Probablement fermés (essayez les simulateurs)",
+  "courses.tapHint": () => "Touchez pour l'itinéraire",
+  "courses.degraded": () => "La recherche de parcours est suspendue pour aujourd'hui — réessayez demain.",
+  "courses.noneWithin": (p: { min: number }) => `Aucun parcours à moins de ${p.min} minutes de route.`,
+  "courses.none": () => "Aucun parcours trouvé à proximité.",
+  "courses.showMore": (p: { count: number }) => `Afficher ${p.count} de plus`,
+  "courses.showLess": () => "Afficher moins",
+  "course.noRating": () => "Pas encore de note",
+  "course.openNow": () => "Ouvert maintenant",
+  "course.closed": () => "Fermé",
+  "course.best": (p: { time: string }) => `meilleur ${p.time}`,
+  "course.driveMin": (p: { min: number }) => `${p.min} min`,
+  "course.tapDirections": () => "Touchez pour ouvrir l'itinéraire",
+  "course.maps": () => "Carte →",
+  "compare.title": () => "Comparer des parcours",
+  "compare.intro": (p: { max: number; day: string }) => `Choisissez-en jusqu'à ${p.max} et classez-les pour ${p.day}.`,
+  "compare.selectedDay": () => "le jour choisi",
+  "compare.running": () => "Comparaison…",
+  "compare.button": (p: { count: number }) => `Comparer ${p.count}`,
+  "compare.failed": () => "La comparaison a échoué",
+  "compare.col.course": () => "Parcours",
+  "compare.col.score": () => "Pointage",
+  "compare.col.window": () => "Meilleur créneau",
+  "compare.col.ground": () => "Verts · roulement",
+  "compare.col.weather": () => "Pluie · vent",
+  "compare.col.distance": () => "Distance",
+  "compare.stormsFrom": (p: { time: string }) => `⛈ Orages dès ${p.time}`,
+  "compare.frostLikely": () => "Retard pour le givre probable",
+  "compare.noForecast": () => "Aucune prévision",
+  "compare.rankedFor": (p: { day: string }) => `Classement pour ${p.day}.`,
+  "compare.routing.google": () => "Temps de trajet par la route.",
+  "compare.routing.estimate": () => "Temps de trajet estimés d'après la distance à vol d'oiseau.",
+  "compare.routing.none": () => "Distance à vol d'oiseau.",
+  "sims.title": () => "Golf intérieur / simulateurs",
+  "sims.why": () => "Parce que c'est une journée rouge dehors.",
+  "sims.view": () => "Voir",
+
+  // --- Métadonnées des pages de ville ---
+  "city.title": (p: { name: string }) => `Météo golf à ${p.name}`,
+  "city.description": (p: { name: string }) =>
+    `Peut-on jouer au golf à ${p.name} aujourd'hui? Pointage des conditions (0–100) et meilleur créneau de 3 heures à ${p.name}.`,
+  "city.ogDescription": (p: { name: string }) =>
+    `Prévisions golf pour ${p.name} — conditions notées de 0 à 100 avec le meilleur créneau de départ.`,
+  "city.twitterDescription": (p: { name: string }) =>
+    `Peut-on jouer au golf à ${p.name} aujourd'hui? Conditions notées de 0 à 100.`,
+
+  // --- Page À propos ---
+  "about.title": () => "À propos",
+  "about.description": () =>
+    "À propos de CanIGolfToday — comment ça marche, comment les conditions sont notées et comment nous joindre.",
+  "about.back": () => "← Retour",
+  "about.intro": () =>
+    "J'ai créé ce site parce que je consultais trois applis météo avant chaque partie et que j'arrivais quand même sur une allée détrempée. CanIGolfToday vous donne un seul chiffre — une note de conditions de 0 à 100 — et vous indique le meilleur créneau pour partir. C'est tout.",
+  "about.scoreHeading": () => "Ce que signifie la note",
+  "about.green": (p: { from: number }) => `${p.from}–100 · Feu vert`,
+  "about.greenDetail": () => "Excellentes conditions. Réservez.",
+  "about.yellow": (p: { from: number; to: number }) => `${p.from}–${p.to} · Jouable`,
+  "about.yellowDetail": () => "Ça vaut le coup si vous tombez sur le bon créneau.",
+  "about.red": (p: { below: number }) => `Moins de ${p.below} · Journée difficile`,
+  "about.redDetail": () => "Probablement pas la peine. Regardez les prochains jours.",
+  "about.method": () =>
+    "La note tient compte de la température, du vent, des précipitations, de l'humidité et de la clarté. Le meilleur créneau est la période la mieux notée pendant les heures de golf, ajustée à votre partie (environ 2 heures pour neuf trous, 4 h 30 pour dix-huit), vérifiée heure par heure. Réglez vos propres limites pour le froid, le vent et la pluie (et si vous marchez ou prenez une voiturette) et la note s'ajuste — le seuil « trop froid » d'un golfeur endurci est environ 5° plus bas.",
+  "about.supportHeading": () => "Soutenir le projet",
+  "about.support": () =>
+    "CanIGolfToday est gratuit et sans publicité. S'il vous a évité un déplacement inutile, un café aide beaucoup à garder les lumières allumées.",
+  "about.coffee": () => "☕ Offrez-moi un café",
+  "about.coffeeNote": () => "via Stripe · s'ouvre dans un nouvel onglet",
+  "about.contactHeading": () => "Nous joindre",
+  "about.contact": () => "Un bogue? Un parcours à ajouter? Envie de parler golf?",
+  "about.footer": () => "Fait par un golfeur, pour les golfeurs. Pas de flafla — juste la météo.",
+};
@@ -0,0 +1,65 @@
+// Message catalogs for everything we say to a golfer. The API sends reason codes with their
+// params (`{ code, params }`) next to a string already rendered in the request's locale, so the page
+// can re-render them in its own language and units. Pure, so the page imports it too.
+
+import { en } from "./en";
+import { fr } from "./fr";
+import { formatters, type Fmt, type FormatContext } from "./format";
+import { DEFAULT_LOCALE, type Locale } from "./locale";
+
+export {
+  DEFAULT_LOCALE,
+  LOCALES,
+  TIME_LOCALES,
+  localeFromAcceptLanguage,
+  parseLocale,
+  requestLocale,
+  type Locale,
+} from "./locale";
+export type { Fmt, FormatContext } from "./format";
+export type { LoadSection } from "./en";
+
+export type MessageCode = keyof typeof en;
+
+export type Catalog = { [C in MessageCode]: (typeof en)[C] };
+
+export const MESSAGE_CODES = Object.keys(en) as MessageCode[];
+
+type Entry = (params: never, f: Fmt) => string;
+
+export type MessageParams<C extends MessageCode> = Parameters<Catalog[C]> extends [infer P, ...unknown[]]
+  ? P
+  : Record<string, never>;
+
+// What the API sends: a code plus the numbers it was rendered from.
+export type Message = { code: MessageCode; params: Record<string, number | string> };
+
+const CATALOGS: Record<Locale, Catalog> = { en, fr };
+
+/** Build a message; codes without params take none. */
+export function msg<C extends MessageCode>(
+  code: C,
+  ...[params]: MessageParams<C> extends Record<string, never> ? [] : [MessageParams<C>]
+): Message {
+  return { code, params: (params ?? {}) as Record<string, number | string> };
+}
+
+/**
+ * Render a message (or a bare code) in `locale`. An unknown code (a newer server than this
+ * catalog) falls back to English, then to the code itself.
+ */
+export function t(locale: Locale, m: Message | MessageCode, ctx: FormatContext = {}): string {
+  const { code, params } = typeof m === "string" ? { code: m, params: {} } : m;
+  const entry = (CATALOGS[locale][code] ?? CATALOGS[DEFAULT_LOCALE][code]) as Entry | undefined;
+  return entry ? entry(params as never, formatters(locale, ctx)) : code;
+}
+
+/** Same as t(), for call sites that build the message inline: tm("fr", "day.playEarly", { dt }). */
+export function tm<C extends MessageCode>(
+  locale: Locale,
+  ctx: FormatContext,
+  code: C,
+  ...params: MessageParams<C> extends Record<string, never> ? [] : [MessageParams<C>]
+): string {
+  return t(locale, msg(code, ...params), ctx);
+}
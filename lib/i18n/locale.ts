@@ -0,0 +1,37 @@
+// Which language to answer in: an explicit `lang` setting wins, then the browser's Accept-Language.
+
+export type Locale = "en" | "fr";
+
+export const LOCALES: readonly Locale[] = ["en", "fr"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Regional Intl locale for times and day names ("7:40 AM" / "7 h 40").
+export const TIME_LOCALES: Record<Locale, string> = { en: "en-US", fr: "fr-CA" };
+
+/** "fr", "fr-CA", "fr_ca" -> "fr"; anything we don't have a catalog for -> null. */
+export function parseLocale(v: string | null | undefined): Locale | null {
+  const lang = v?.trim().toLowerCase().split(/[-_]/)[0];
+  return lang === "en" || lang === "fr" ? lang : null;
+}
+
+/** Best supported language from an Accept-Language header ("fr-CA,fr;q=0.9,en;q=0.8"), by q-value. */
+export function localeFromAcceptLanguage(header: string | null | undefined): Locale {
+  if (!header) return DEFAULT_LOCALE;
+  const ranked = header
+    .split(",")
+    .map((part, i) => {
+      const [tag, ...attrs] = part.trim().split(";");
+      const q = attrs.map((a) => a.trim()).find((a) => a.startsWith("q="));
+      const weight = q ? Number(q.slice(2)) : 1;
+      return { locale: parseLocale(tag), weight: Number.isFinite(weight) ? weight : 0, i };
+    })
+    .filter((x) => x.locale != null && x.weight > 0)
+    .sort((a, b) => b.weight - a.weight || a.i - b.i);
+  return ranked[0]?.locale ?? DEFAULT_LOCALE;
+}
+
+/** Locale for an API request: `?lang=` first, then Accept-Language. */
+export function requestLocale(req: Request, params: URLSearchParams = new URL(req.url).searchParams): Locale {
+  return parseLocale(params.get("lang")) ?? localeFromAcceptLanguage(req.headers.get("accept-language"));
+}
@@ -0,0 +1,91 @@
+// Google Places lookups shared by routes that accept a place ID instead of coordinates.
+
+import { cached, type Cached } from "@/lib/cache";
+import { parseLatLon, type LatLon } from "@/lib/geo";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n";
+import { requireQuota } from "@/lib/quota";
+
+export type ResolvedPlace = {
+  placeId: string;
+  lat: number;
+  lon: number;
+  name: string | null;
+  address: string | null;
+};
+
+async function fetchPlaceDetails(placeId: string, key: string): Promise<ResolvedPlace | null> {
+  const url =
+    "https://places.googleapis.com/v1/places/" +
+    encodeURIComponent(placeId) +
+    "?fields=location,formattedAddress,displayName";
+
+  requireQuota("places");
+  const r = await fetch(url, { headers: { "X-Goog-Api-Key": key } });
+  // A bad or unknown ID is an answer worth caching; quota and server errors are not.
+  if (r.status === 400 || r.status === 404) return null;
+  if (!r.ok) throw new Error(`Place details lookup failed (${r.status})`);
+  const data = await r.json();
+
+  const lat = data?.location?.latitude;
+  const lon = data?.location?.longitude;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  return {
+    placeId,
+    lat,
+    lon,
+    name: data?.displayName?.text ?? null,
+    address: data?.formattedAddress ?? null,
+  };
+}
+
+/**
+ * Place Details (v1) → coordinates and display name, cached for a day. Value is null when
+ * Google has no location for the ID; throws when Google can't be reached (or the daily Places
+ * budget is spent) and nothing is cached.
+ */
+export function resolvePlace(placeId: string, key: string): Promise<Cached<ResolvedPlace | null>> {
+  return cached("placeDetails", placeId, () => fetchPlaceDetails(placeId, key));
+}
+
+// Open‑Meteo geocoding stands in for city autocomplete once the Places budget is spent.
+// Its results have no Google place ID, so they get "geo:<lat>,<lon>" IDs that resolve locally.
+const GEO_ID_PREFIX = "geo:";
+
+export type CityMatch = {
+  placeId: string;
+  description: string;
+  lat: number;
+  lon: number;
+};
+
+export async function searchOpenMeteoCities(
+  name: string,
+  locale: Locale = DEFAULT_LOCALE,
+  count = 5
+): Promise<CityMatch[]> {
+  const url =
+    `https://geocoding-api.open-meteo.com/v1/search` +
+    `?name=${encodeURIComponent(name)}` +
+    `&count=${count}&language=${locale}&format=json`;
+
+  const r = await fetch(url, { headers: { "Accept": "application/json" } });
+  if (!r.ok) throw new Error(`Open-Meteo geocoding failed (${r.status})`);
+  const j = (await r.json()) as {
+    results?: { name?: string; latitude?: number; longitude?: number; admin1?: string; country?: string }[];
+  };
+
+  return (j.results ?? [])
+    .filter((g) => Number.isFinite(g.latitude) && Number.isFinite(g.longitude) && g.name)
+    .map((g) => ({
+      placeId: `${GEO_ID_PREFIX}${g.latitude},${g.longitude}`,
+      description: [g.name, g.admin1, g.country].filter(Boolean).join(", "),
+      lat: g.latitude!,
+      lon: g.longitude!,
+    }));
+}
+
+/** Coordinates from a "geo:<lat>,<lon>" ID, or null for a Google place ID. */
+export function parseGeoPlaceId(placeId: string): LatLon | null {
+  return placeId.startsWith(GEO_ID_PREFIX) ? parseLatLon(placeId.slice(GEO_ID_PREFIX.length)) : null;
+}
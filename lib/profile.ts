@@ -0,0 +1,54 @@
+// Golfer profiles: how much cold, wind and rain one golfer will put up with.
+
+import { parsePace, type Pace } from "@/lib/teeTime";
+
+export type Tolerance = "low" | "normal" | "high";
+
+export type GolferProfile = {
+  cold: Tolerance;
+  wind: Tolerance;
+  rain: Tolerance;
+  pace: Pace; // walking vs. riding
+};
+
+export const DEFAULT_PROFILE: GolferProfile = {
+  cold: "normal",
+  wind: "normal",
+  rain: "normal",
+  pace: "walk",
+};
+
+// Saved profiles selectable by id (`?profile=hardy`). Individual params override them.
+export const PROFILE_PRESETS: Record<string, GolferProfile> = {
+  default: DEFAULT_PROFILE,
+  hardy: { cold: "high", wind: "high", rain: "high", pace: "walk" },
+  fairWeather: { cold: "low", wind: "low", rain: "low", pace: "cart" },
+};
+
+// °C added to every cold threshold: a hardy golfer's "too cold" line sits 5° lower.
+export const COLD_SHIFT_C: Record<Tolerance, number> = { low: 4, normal: 0, high: -5 };
+
+// Multiplier on the wind bands (15/20/30/40/50 km/h).
+export const WIND_BAND_SCALE: Record<Tolerance, number> = { low: 0.7, normal: 1, high: 1.3 };
+
+// Multiplier on the points lost to rain chance and rain amount.
+export const RAIN_POINTS_SCALE: Record<Tolerance, number> = { low: 1.3, normal: 1, high: 0.6 };
+
+// Riding cuts the exertion half of heat stress.
+export const HEAT_POINTS_SCALE: Record<Pace, number> = { walk: 1, cart: 0.7 };
+
+export function parseTolerance(v: string | null | undefined): Tolerance | null {
+  return v === "low" || v === "normal" || v === "high" ? v : null;
+}
+
+// Build a profile from query params: `profile=<preset id>`, then `cold`, `wind`, `rain`, `pace`.
+export function parseProfile(params: URLSearchParams): GolferProfile {
+  const id = params.get("profile");
+  const base = id && Object.hasOwn(PROFILE_PRESETS, id) ? PROFILE_PRESETS[id] : DEFAULT_PROFILE;
+  return {
+    cold: parseTolerance(params.get("cold")) ?? base.cold,
+    wind: parseTolerance(params.get("wind")) ?? base.wind,
+    rain: parseTolerance(params.get("rain")) ?? base.rain,
+    pace: parsePace(params.get("pace")) ?? base.pace,
+  };
+}
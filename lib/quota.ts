@@ -0,0 +1,65 @@
+// Daily budgets for paid upstream APIs. Counted per server process and reset at UTC midnight;
+// once a budget is spent, callers fall back to cached or free (Open‑Meteo) data instead of failing.
+
+export type QuotaName = "places" | "routing";
+
+// Per UTC day: Places requests, Distance Matrix elements (one per destination).
+// PLACES_DAILY_BUDGET / ROUTING_DAILY_BUDGET override; 0 turns the guard off.
+const DEFAULT_DAILY_BUDGET: Record<QuotaName, number> = { places: 2000, routing: 5000 };
+
+const ENV_KEYS: Record<QuotaName, string> = { places: "PLACES_DAILY_BUDGET", routing: "ROUTING_DAILY_BUDGET" };
+
+export class QuotaExhaustedError extends Error {
+  constructor(
+    public quota: QuotaName,
+    public retryAfterSec: number
+  ) {
+    super(`Daily ${quota} quota exhausted`);
+  }
+}
+
+const usage = new Map<QuotaName, { day: string; used: number }>();
+
+const utcDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+function dailyBudget(name: QuotaName, env: Record<string, string | undefined>) {
+  const raw = env[ENV_KEYS[name]];
+  const n = raw != null && raw.trim() !== "" ? Number(raw) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_DAILY_BUDGET[name];
+}
+
+export function secondsUntilUtcMidnight(nowMs = Date.now()): number {
+  const next = new Date(nowMs);
+  next.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((next.getTime() - nowMs) / 1000));
+}
+
+export function quotaStatus(name: QuotaName, env: Record<string, string | undefined> = process.env, nowMs = Date.now()) {
+  const budget = dailyBudget(name, env);
+  const u = usage.get(name);
+  const used = u && u.day === utcDay(nowMs) ? u.used : 0;
+  return {
+    budget,
+    used,
+    remaining: budget === 0 ? Infinity : Math.max(0, budget - used),
+    resetsInSec: secondsUntilUtcMidnight(nowMs),
+  };
+}
+
+/** Spend `units` of today's budget; false (and nothing spent) when they aren't there. */
+export function spendQuota(
+  name: QuotaName,
+  units = 1,
+  env: Record<string, string | undefined> = process.env,
+  nowMs = Date.now()
+): boolean {
+  const { remaining, used } = quotaStatus(name, env, nowMs);
+  if (remaining < units) return false;
+  usage.set(name, { day: utcDay(nowMs), used: used + units });
+  return true;
+}
+
+/** spendQuota for code paths that can't degrade locally: throws QuotaExhaustedError instead. */
+export function requireQuota(name: QuotaName, units = 1): void {
+  if (!spendQuota(name, units)) throw new QuotaExhaustedError(name, secondsUntilUtcMidnight());
+}
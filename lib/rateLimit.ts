@@ -0,0 +1,102 @@
+// Per-IP token buckets for the public API routes. State lives in the server process,
+// which is enough to blunt a runaway client or a scraper on a single instance.
+
+export type Budget = {
+  limit: number; // bucket size: requests allowed in a burst
+  windowSec: number; // time to refill a full bucket
+};
+
+// Routes that fan out to paid Google calls get the tightest budgets.
+export const DEFAULT_BUDGETS: Record<string, Budget> = {
+  "/api/location/suggest": { limit: 40, windowSec: 60 }, // debounced typing, two Places calls each
+  "/api/location/resolve": { limit: 20, windowSec: 60 },
+  "/api/courses": { limit: 10, windowSec: 60 },
+  "/api/simulators": { limit: 10, windowSec: 60 },
+  "/api/compare": { limit: 6, windowSec: 60 },
+  "/api/weather": { limit: 60, windowSec: 60 },
+  "/api/teetime": { limit: 60, windowSec: 60 },
+};
+
+const FALLBACK_BUDGET: Budget = { limit: 60, windowSec: 60 };
+
+// Past this many buckets, drop the ones that have refilled (they'd behave identically if recreated).
+const MAX_BUCKETS = 10_000;
+
+/**
+ * RATE_LIMITS="location/suggest=30/60,courses=5/60" overrides budgets per route
+ * (path after /api/, requests per window in seconds). Malformed entries are ignored.
+ */
+export function parseBudgets(raw: string | undefined): Record<string, Budget> {
+  const out: Record<string, Budget> = { ...DEFAULT_BUDGETS };
+  for (const part of (raw ?? "").split(",")) {
+    const m = part.trim().match(/^\/?(?:api\/)?([\w/-]+)=(\d+)\/(\d+)$/);
+    if (!m) continue;
+    const limit = Number(m[2]);
+    const windowSec = Number(m[3]);
+    if (limit > 0 && windowSec > 0) out[`/api/${m[1]}`] = { limit, windowSec };
+  }
+  return out;
+}
+
+export type RateLimitResult = {
+  ok: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSec: number; // 0 when ok
+};
+
+export function createRateLimiter(budgets: Record<string, Budget> = parseBudgets(process.env.RATE_LIMITS)) {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  function prune(nowMs: number) {
+    for (const [key, b] of buckets) {
+      const budget = budgets[key.slice(0, key.indexOf("|"))] ?? FALLBACK_BUDGET;
+      const refilled = b.tokens + ((nowMs - b.updatedAt) / 1000) * (budget.limit / budget.windowSec);
+      if (refilled >= budget.limit) buckets.delete(key);
+    }
+  }
+
+  return {
+    /** Take one token for `ip` on `route`. */
+    take(ip: string, route: string, nowMs = Date.now()): RateLimitResult {
+      const budget = budgets[route] ?? FALLBACK_BUDGET;
+      const ratePerSec = budget.limit / budget.windowSec;
+      const key = `${route}|${ip}`;
+
+      const b = buckets.get(key) ?? { tokens: budget.limit, updatedAt: nowMs };
+      const tokens = Math.min(budget.limit, b.tokens + ((nowMs - b.updatedAt) / 1000) * ratePerSec);
+
+      if (tokens < 1) {
+        buckets.set(key, { tokens, updatedAt: nowMs });
+        return { ok: false, limit: budget.limit, remaining: 0, retryAfterSec: Math.ceil((1 - tokens) / ratePerSec) };
+      }
+
+      buckets.set(key, { tokens: tokens - 1, updatedAt: nowMs });
+      if (buckets.size > MAX_BUCKETS) prune(nowMs);
+      return { ok: true, limit: budget.limit, remaining: Math.floor(tokens - 1), retryAfterSec: 0 };
+    },
+  };
+}
+
+/** TRUSTED_PROXIES: how many proxies in front of the app append to X-Forwarded-For (default 1). */
+export function parseTrustedProxies(raw: string | undefined): number {
+  const n = Number(raw ?? "1");
+  return Number.isInteger(n) && n >= 0 ? n : 1;
+}
+
+/**
+ * The caller's IP as the nearest trusted proxy saw it. Each proxy appends the address it received
+ * from, so with N trusted proxies the client is the Nth hop from the right; anything to the left of
+ * that was written by the caller and can be rotated at will. With no trusted proxy the forwarding
+ * headers are ignored (every caller shares one bucket) rather than believed.
+ */
+export function clientIp(headers: Headers, trustedProxies = parseTrustedProxies(process.env.TRUSTED_PROXIES)): string {
+  if (trustedProxies === 0) return "unknown";
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - trustedProxies)];
+  // A single platform proxy that sets X-Real-IP instead overwrites whatever the caller sent.
+  return headers.get("x-real-ip")?.trim() || "unknown";
+}
@@ -0,0 +1,26 @@
+import { haversineKm } from "@/lib/geo";
+import type { DriveTime, RoutingProvider } from "./types";
+
+// Offline stand-in: roads run ~30% longer than the crow flies, at a mixed town/highway average speed.
+export const ROAD_FACTOR = 1.3;
+export const AVERAGE_KPH = 60;
+
+export function estimateDriveTime(straightKm: number): DriveTime {
+  const distanceKm = straightKm * ROAD_FACTOR;
+  return {
+    minutes: Math.round((distanceKm / AVERAGE_KPH) * 60),
+    distanceKm: Math.round(distanceKm * 10) / 10,
+  };
+}
+
+/** Inverse of the estimate: how far (straight line) `minutes` of driving reaches. */
+export function estimateReachKm(minutes: number): number {
+  return ((minutes / 60) * AVERAGE_KPH) / ROAD_FACTOR;
+}
+
+export function createEstimateRoutingProvider(): RoutingProvider {
+  return {
+    id: "estimate",
+    getDriveTimes: async (origin, destinations) => destinations.map((d) => estimateDriveTime(haversineKm(origin, d))),
+  };
+}
@@ -0,0 +1,64 @@
+import { cached, gridCell } from "@/lib/cache";
+import { requireQuota } from "@/lib/quota";
+import type { DriveTime, LatLon, RoutingProvider } from "./types";
+
+// Distance Matrix allows 25 destinations per request from a single origin.
+const BATCH = 25;
+
+const point = (p: LatLon) => `${p.lat.toFixed(5)},${p.lon.toFixed(5)}`;
+
+async function fetchDriveTimes(origin: LatLon, destinations: LatLon[], key: string): Promise<(DriveTime | null)[]> {
+  const out: (DriveTime | null)[] = [];
+  for (let i = 0; i < destinations.length; i += BATCH) {
+    const batch = destinations.slice(i, i + BATCH);
+    // Billed per element; throws once today's budget is spent, so the caller falls back to the estimate
+    requireQuota("routing", batch.length);
+    const url =
+      `https://maps.googleapis.com/maps/api/distancematrix/json` +
+      `?origins=${encodeURIComponent(point(origin))}` +
+      `&destinations=${encodeURIComponent(batch.map(point).join("|"))}` +
+      `&mode=driving` +
+      `&key=${encodeURIComponent(key)}`;
+
+    const r = await fetch(url, { cache: "no-store" });
+    if (!r.ok) throw new Error(`Distance Matrix fetch failed (${r.status})`);
+    const j = await r.json();
+    if (j?.status !== "OK") throw new Error(`Distance Matrix error (${j?.status})`);
+
+    const elements = j.rows?.[0]?.elements ?? [];
+    for (let k = 0; k < batch.length; k++) {
+      const e = elements[k];
+      const sec = e?.duration?.value;
+      const m = e?.distance?.value;
+      out.push(
+        e?.status === "OK" && Number.isFinite(sec) && Number.isFinite(m)
+          ? { minutes: Math.round(sec / 60), distanceKm: Math.round(m / 100) / 10 }
+          : null
+      );
+    }
+  }
+  return out;
+}
+
+export function createGoogleRoutingProvider(key: string): RoutingProvider {
+  return {
+    id: "google",
+
+    /**
+     * Cached per origin grid cell and destination, so golfers in the same part of town share drive
+     * times; any miss sends the whole list upstream (from the cell centre) in one batch.
+     */
+    async getDriveTimes(origin: LatLon, destinations: LatLon[]): Promise<(DriveTime | null)[]> {
+      const cell = gridCell(origin.lat, origin.lon);
+      let all: Promise<(DriveTime | null)[]> | null = null;
+      const fetchAll = () => (all ??= fetchDriveTimes(cell, destinations, key));
+      return Promise.all(
+        destinations.map((d, i) =>
+          cached("driveTime", `${cell.key}>${d.lat.toFixed(4)},${d.lon.toFixed(4)}`, async () => (await fetchAll())[i] ?? null, {
+            cacheIf: (t) => t != null,
+          }).then((r) => r.value)
+        )
+      );
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { createEstimateRoutingProvider } from "./estimate";
+import { createGoogleRoutingProvider } from "./google";
+import type { DriveTime, LatLon, RoutingProvider, RoutingProviderId } from "./types";
+
+export type { DriveTime, LatLon, RoutingProvider, RoutingProviderId } from "./types";
+export { createEstimateRoutingProvider, estimateDriveTime, estimateReachKm } from "./estimate";
+
+/**
+ * Pick the routing source from config.
+ * ROUTING_PROVIDER=google|estimate; defaults to the offline straight-line estimate.
+ * `google` uses the Distance Matrix API with GOOGLE_MAPS_API_KEY (or the Places key).
+ */
+export function getRoutingProvider(env: Record<string, string | undefined> = process.env): RoutingProvider {
+  const id = (env.ROUTING_PROVIDER ?? "estimate").trim().toLowerCase();
+  const key = env.GOOGLE_MAPS_API_KEY || env.GOOGLE_PLACES_API_KEY;
+
+  if (id === "google" && key) return createGoogleRoutingProvider(key);
+  return createEstimateRoutingProvider();
+}
+
+/** A routing outage falls back to the estimate so courses still get a (rougher) drive time. */
+export async function getDriveTimes(
+  origin: LatLon,
+  destinations: LatLon[],
+  provider = getRoutingProvider()
+): Promise<{ source: RoutingProviderId; times: (DriveTime | null)[] }> {
+  if (destinations.length === 0) return { source: provider.id, times: [] };
+  try {
+    return { source: provider.id, times: await provider.getDriveTimes(origin, destinations) };
+  } catch {
+    const fallback = createEstimateRoutingProvider();
+    return { source: fallback.id, times: await fallback.getDriveTimes(origin, destinations) };
+  }
+}
+
+/** `?maxDrive=` query param: minutes, up to a long day trip. */
+export function parseDriveMinutes(v: string | null | undefined): number | null {
+  if (v == null || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 && n <= 240 ? Math.round(n) : null;
+}
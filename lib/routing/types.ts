@@ -0,0 +1,18 @@
+// Drive time from the golfer to candidate courses, normalized across sources.
+
+import type { LatLon } from "@/lib/geo";
+
+export type { LatLon };
+
+export type RoutingProviderId = "google" | "estimate";
+
+export type DriveTime = {
+  minutes: number;
+  distanceKm: number; // by road (or the estimate of it)
+};
+
+export interface RoutingProvider {
+  id: RoutingProviderId;
+  // One per destination, null where no route was found.
+  getDriveTimes(origin: LatLon, destinations: LatLon[]): Promise<(DriveTime | null)[]>;
+}
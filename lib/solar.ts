@@ -0,0 +1,82 @@
+// Sunrise, sunset and civil twilight for any date and place, computed locally
+// (the sunrise equation with the usual refraction / solar-disc correction).
+// Good to about a minute away from the poles, which is plenty for tee times.
+
+import { localDateKey } from "@/lib/timezone";
+
+const DAY_SEC = 24 * 60 * 60;
+const J2000 = 2451545.0; // Julian date of 2000-01-01 12:00 UTC
+const UNIX_EPOCH_JD = 2440587.5;
+const OBLIQUITY_DEG = 23.4397;
+
+// Altitude of the sun's centre at the event: refraction + half the disc, and the civil twilight line.
+const SUNRISE_ALT_DEG = -0.833;
+const CIVIL_ALT_DEG = -6;
+
+const rad = (d: number) => (d * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+const toUnix = (jd: number) => Math.round((jd - UNIX_EPOCH_JD) * DAY_SEC);
+
+export type SolarDay = {
+  solarNoon: number; // unix seconds
+  sunrise: number | null; // null when the sun doesn't cross the horizon that day (see `polar`)
+  sunset: number | null;
+  civilDawn: number | null; // sun 6° below the horizon: first usable light
+  civilDusk: number | null;
+  polar: "day" | "night" | null; // midnight sun / polar night; null on ordinary days
+};
+
+/**
+ * Solar events for the local calendar day `dateKey` (YYYY-MM-DD) at a point.
+ * Longitude is east-positive; the day is the one whose solar noon falls on that date there.
+ */
+export function solarDay(dateKey: string, lat: number, lon: number): SolarDay {
+  const noonUtcMs = Date.parse(`${dateKey}T12:00:00Z`);
+  const n = Math.round(noonUtcMs / 1000 / DAY_SEC + UNIX_EPOCH_JD - J2000);
+
+  // Mean solar time, anomaly, equation of centre and ecliptic longitude.
+  const jStar = n - lon / 360;
+  const m = (357.5291 + 0.98560028 * jStar) % 360;
+  const c = 1.9148 * Math.sin(rad(m)) + 0.02 * Math.sin(rad(2 * m)) + 0.0003 * Math.sin(rad(3 * m));
+  const lambda = (m + c + 180 + 102.9372) % 360;
+  const transit = J2000 + jStar + 0.0053 * Math.sin(rad(m)) - 0.0069 * Math.sin(rad(2 * lambda));
+  const sinDecl = Math.sin(rad(lambda)) * Math.sin(rad(OBLIQUITY_DEG));
+  const cosDecl = Math.cos(Math.asin(sinDecl));
+
+  // Hour angle at which the sun's centre reaches `altDeg`; ±Infinity when it never does.
+  const hourAngle = (altDeg: number) => {
+    const cosW = (Math.sin(rad(altDeg)) - Math.sin(rad(lat)) * sinDecl) / (Math.cos(rad(lat)) * cosDecl);
+    if (cosW > 1) return -Infinity; // stays below
+    if (cosW < -1) return Infinity; // stays above
+    return deg(Math.acos(cosW));
+  };
+
+  const events = (altDeg: number) => {
+    const w = hourAngle(altDeg);
+    if (!Number.isFinite(w)) return { rise: null, set: null, always: w > 0 };
+    return { rise: toUnix(transit - w / 360), set: toUnix(transit + w / 360), always: null };
+  };
+
+  const sun = events(SUNRISE_ALT_DEG);
+  const civil = events(CIVIL_ALT_DEG);
+
+  return {
+    solarNoon: toUnix(transit),
+    sunrise: sun.rise,
+    sunset: sun.set,
+    civilDawn: civil.rise,
+    civilDusk: civil.set,
+    polar: sun.always == null ? null : sun.always ? "day" : "night",
+  };
+}
+
+/**
+ * Sunrise lookup for predictFrostDelays: local midnight (unix seconds) -> that morning's sunrise.
+ * Polar night falls back to solar noon (the lightest it gets); the midnight sun to midnight itself.
+ */
+export function sunriseFor(lat: number, lon: number, timeZone: string) {
+  return (localMidnightDt: number) => {
+    const s = solarDay(localDateKey(localMidnightDt, timeZone), lat, lon);
+    return s.sunrise ?? (s.polar === "day" ? localMidnightDt : s.solarNoon);
+  };
+}
@@ -0,0 +1,106 @@
+// Project a round hole by hole from a tee time across an hourly scored series.
+
+import type { HolesOption, ScoredSlot } from "@/lib/bestWindow";
+
+export type Pace = "walk" | "cart";
+
+// Minutes per hole: walking ≈ 4.5h for eighteen, riding a little quicker.
+export const PACE_MIN_PER_HOLE: Record<Pace, number> = {
+  walk: 15,
+  cart: 13,
+};
+
+// Length (in holes) of the stretch we report as "worst stretch".
+const STRETCH_HOLES = 3;
+
+export function parsePace(v: string | null | undefined): Pace | null {
+  if (v === "walk" || v === "walking") return "walk";
+  if (v === "cart" || v === "riding") return "cart";
+  return null;
+}
+
+export type HoleSegment = {
+  hole: number; // 1-based
+  startDt: number;
+  endDt: number;
+  score: number;
+};
+
+export type RoundProjection = {
+  startDt: number;
+  endDt: number;
+  holes: HolesOption;
+  pace: Pace;
+  minutesPerHole: number;
+  segments: HoleSegment[];
+  avgScore: number;
+  minScore: number;
+  worstStretch: { fromHole: number; toHole: number; startDt: number; endDt: number; avgScore: number } | null;
+};
+
+/**
+ * Score at an arbitrary instant by interpolating between the two surrounding slots.
+ * Returns null when `dt` falls outside the series.
+ */
+function scoreAt(slots: ScoredSlot[], stepSec: number, dt: number): number | null {
+  for (let i = 0; i < slots.length; i++) {
+    const a = slots[i];
+    if (dt < a.dt || dt >= a.dt + stepSec) continue;
+    const b = slots[i + 1];
+    if (!b || b.dt - a.dt > stepSec) return a.score;
+    const t = (dt - a.dt) / (b.dt - a.dt);
+    return a.score + (b.score - a.score) * t;
+  }
+  return null;
+}
+
+/**
+ * Walk the round hole by hole. Each hole is scored at its midpoint.
+ * Returns null if the forecast doesn't cover the whole round.
+ */
+export function projectRound(
+  slots: ScoredSlot[],
+  opts: { stepSec: number; startDt: number; holes: HolesOption; pace: Pace }
+): RoundProjection | null {
+  const { stepSec, startDt, holes, pace } = opts;
+  const sorted = [...slots].sort((a, b) => a.dt - b.dt);
+  const holeSec = PACE_MIN_PER_HOLE[pace] * 60;
+
+  const segments: HoleSegment[] = [];
+  for (let i = 0; i < holes; i++) {
+    const s = startDt + i * holeSec;
+    const score = scoreAt(sorted, stepSec, s + holeSec / 2);
+    if (score == null) return null;
+    segments.push({ hole: i + 1, startDt: s, endDt: s + holeSec, score: Math.round(score) });
+  }
+
+  const scores = segments.map((s) => s.score);
+  const avgScore = Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
+
+  let worstStretch: RoundProjection["worstStretch"] = null;
+  for (let i = 0; i + STRETCH_HOLES <= segments.length; i++) {
+    const run = segments.slice(i, i + STRETCH_HOLES);
+    const avg = Math.round(run.reduce((a, s) => a + s.score, 0) / run.length);
+    if (!worstStretch || avg < worstStretch.avgScore) {
+      worstStretch = {
+        fromHole: run[0].hole,
+        toHole: run[run.length - 1].hole,
+        startDt: run[0].startDt,
+        endDt: run[run.length - 1].endDt,
+        avgScore: avg,
+      };
+    }
+  }
+
+  return {
+    startDt,
+    endDt: startDt + holes * holeSec,
+    holes,
+    pace,
+    minutesPerHole: PACE_MIN_PER_HOLE[pace],
+    segments,
+    avgScore,
+    minScore: Math.min(...scores),
+    worstStretch,
+  };
+}
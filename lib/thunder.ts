@@ -0,0 +1,92 @@
+// Thunderstorm risk as a time window rather than a per-block regex.
+// Produces an hourly storm probability, the expected first strike,
+// and an "off the course by" time that honours the 30-minute lightning rule.
+
+import type { HourlyPoint } from "@/lib/weather/types";
+
+// At or above this per-hour probability we treat the hour as a lightning hard stop.
+export const STORM_STOP_PROB = 0.3;
+
+// 30-minute rule: be off the course 30 min before the first strike, and stay off
+// until 30 min after the last one.
+export const LIGHTNING_BUFFER_SEC = 30 * 60;
+
+function clamp01(n: number) {
+  return Math.max(0, Math.min(1, n));
+}
+
+/** Storm probability for one hour, from conditions, precip probability and (when known) CAPE. */
+export function stormProbability(p: HourlyPoint): number {
+  const isStormy = p.conditions ? /thunderstorm/i.test(p.conditions) : false;
+  if (isStormy) return Math.max(0.7, p.pop);
+
+  // Convective energy available: scale pop by how unstable the air is.
+  if (p.cape != null) {
+    return clamp01(p.pop * clamp01((p.cape - 500) / 2000));
+  }
+
+  // No CAPE: only warm, showery hours carry any (small) pop-up storm risk.
+  if (p.tempC >= 22 && p.pop >= 0.5) return clamp01(0.2 * p.pop);
+  return 0;
+}
+
+/**
+ * Hourly storm probabilities for a series. Lightning can strike well ahead of the rain,
+ * so each hour also inherits half the risk of the hour after it.
+ */
+export function stormSeries(points: HourlyPoint[]): number[] {
+  const own = points.map(stormProbability);
+  return own.map((p, i) => {
+    const next = own[i + 1] ?? 0;
+    return Math.round(Math.max(p, next * 0.5) * 100) / 100;
+  });
+}
+
+export type StormWindow = {
+  firstStrikeDt: number; // start of the first hour at/above STORM_STOP_PROB
+  offCourseBy: number; // firstStrikeDt - 30 min
+  lastStrikeDt: number; // end of the last consecutive storm hour
+  allClearDt: number; // lastStrikeDt + 30 min
+  peakProb: number;
+};
+
+/**
+ * First storm cluster in a (single-day) series, or null if no hour reaches STORM_STOP_PROB.
+ * A cluster is a run of storm hours; gaps of one step or less are bridged.
+ */
+export function stormTiming(
+  slots: { dt: number; stormProb: number }[],
+  stepSec: number
+): StormWindow | null {
+  const sorted = [...slots].sort((a, b) => a.dt - b.dt);
+  const first = sorted.findIndex((s) => s.stormProb >= STORM_STOP_PROB);
+  if (first < 0) return null;
+
+  let last = first;
+  let peakProb = sorted[first].stormProb;
+  for (let i = first + 1; i < sorted.length; i++) {
+    if (sorted[i].stormProb < STORM_STOP_PROB) {
+      const nextStorm = sorted[i + 1]?.stormProb ?? 0;
+      if (nextStorm < STORM_STOP_PROB) break;
+      continue;
+    }
+    last = i;
+    peakProb = Math.max(peakProb, sorted[i].stormProb);
+  }
+
+  const firstStrikeDt = sorted[first].dt;
+  const lastStrikeDt = sorted[last].dt + stepSec;
+  return {
+    firstStrikeDt,
+    offCourseBy: firstStrikeDt - LIGHTNING_BUFFER_SEC,
+    lastStrikeDt,
+    allClearDt: lastStrikeDt + LIGHTNING_BUFFER_SEC,
+    peakProb,
+  };
+}
+
+/** True if [startDt, endDt) overlaps the no-golf span of a storm window. */
+export function overlapsStorm(w: StormWindow | null, startDt: number, endDt: number) {
+  if (!w) return false;
+  return startDt < w.allClearDt && endDt > w.offCourseBy;
+}
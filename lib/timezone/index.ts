@@ -0,0 +1,88 @@
+// Local time at a course by IANA zone, not one fixed UTC offset: a DST change inside the
+// forecast window moves labels and day boundaries by an hour, and a fixed offset can't follow it.
+// Pure Intl, so the page can use it too; the coordinate lookup lives in ./lookup.
+
+const DAY_SEC = 24 * 60 * 60;
+
+// Labels are built server-side too; never inherit the server's locale. Callers pass one to localize.
+export const TIME_LOCALE = "en-US";
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string) {
+  let f = partsFormatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat(TIME_LOCALE, {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export type LocalParts = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+/** Wall-clock fields of a unix time in `timeZone` (month 1–12). */
+export function localParts(dt: number, timeZone: string): LocalParts {
+  const out: Record<string, number> = {};
+  for (const p of partsFormatter(timeZone).formatToParts(new Date(dt * 1000))) {
+    if (p.type !== "literal") out[p.type] = Number(p.value);
+  }
+  return { year: out.year, month: out.month, day: out.day, hour: out.hour, minute: out.minute, second: out.second };
+}
+
+/** UTC offset (seconds east) in force in `timeZone` at unix time `dt`. */
+export function utcOffsetSec(dt: number, timeZone: string): number {
+  const whole = Math.floor(dt);
+  const p = localParts(whole, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) / 1000 - whole;
+}
+
+/** Local calendar date (YYYY-MM-DD) of a unix time. */
+export function localDateKey(dt: number, timeZone: string): string {
+  const p = localParts(dt, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+export function localHour(dt: number, timeZone: string): number {
+  return localParts(dt, timeZone).hour;
+}
+
+/**
+ * Unix time of a local wall-clock time ("YYYY-MM-DDTHH:MM[:SS]") in `timeZone`.
+ * A time skipped by a spring-forward jump resolves an hour early; a repeated one takes the first occurrence.
+ */
+export function zonedToUnix(localIso: string, timeZone: string): number | null {
+  const naive = Date.parse(`${localIso}Z`) / 1000;
+  if (!Number.isFinite(naive)) return null;
+  // Two passes: the offset at the guess, then at the corrected instant.
+  const first = naive - utcOffsetSec(naive, timeZone);
+  return naive - utcOffsetSec(first, timeZone);
+}
+
+/** Unix time of local midnight starting `dateKey`. */
+export function localMidnight(dateKey: string, timeZone: string): number {
+  return zonedToUnix(`${dateKey}T00:00:00`, timeZone) ?? Date.parse(`${dateKey}T00:00:00Z`) / 1000;
+}
+
+/** Local dates (YYYY-MM-DD) are UTC-midnight anchored, so whole days between two keys is exact. */
+export function addDays(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_SEC * 1000).toISOString().split("T")[0];
+}
+
+/** "7:40 AM" at the course ("7 h 40" with locale fr-CA). */
+export function formatTime(dt: number, timeZone: string, locale = TIME_LOCALE): string {
+  return new Date(dt * 1000).toLocaleTimeString(locale, { hour: "numeric", minute: "2-digit", timeZone });
+}
+
+/** "Sat" at the course ("sam." with locale fr-CA). */
+export function formatDay(dt: number, timeZone: string, locale = TIME_LOCALE): string {
+  return new Date(dt * 1000).toLocaleDateString(locale, { weekday: "short", timeZone });
+}
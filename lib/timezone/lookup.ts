@@ -0,0 +1,13 @@
+// Coordinates -> IANA zone from tz-lookup's bundled boundary data: offline, no API call.
+// Server-side only; the page gets the zone name in API responses.
+
+import tzlookup from "tz-lookup";
+
+/** IANA zone at a point ("America/Toronto"); "UTC" for coordinates the lookup rejects. */
+export function timeZoneAt(lat: number, lon: number): string {
+  try {
+    return tzlookup(lat, lon);
+  } catch {
+    return "UTC";
+  }
+}
@@ -0,0 +1,92 @@
+// Unit systems for everything we show a golfer. Data stays metric end to end (°C, km/h, mm);
+// these helpers only convert at the edge, so the server's detail strings and the page agree.
+
+export type UnitSystem = "metric" | "imperial" | "mixed"; // mixed: UK-style °C and mm, but mph and miles
+
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ["metric", "imperial", "mixed"];
+
+export const DEFAULT_UNITS: UnitSystem = "metric";
+
+// Regions that default to imperial (US and its territories, Liberia, Myanmar) or mixed units.
+const IMPERIAL_REGIONS = new Set(["US", "PR", "GU", "VI", "AS", "MP", "UM", "LR", "MM"]);
+const MIXED_REGIONS = new Set(["GB", "IM", "JE", "GG"]);
+
+export function parseUnits(v: string | null | undefined): UnitSystem | null {
+  return v === "metric" || v === "imperial" || v === "mixed" ? v : null;
+}
+
+/** Default unit system for a BCP 47 locale (e.g. navigator.language): "en-US" -> imperial. */
+export function unitsForLocale(locale: string | null | undefined): UnitSystem {
+  if (!locale) return DEFAULT_UNITS;
+  let region: string | undefined;
+  try {
+    region = new Intl.Locale(locale).maximize().region;
+  } catch {
+    return DEFAULT_UNITS;
+  }
+  if (region && IMPERIAL_REGIONS.has(region)) return "imperial";
+  if (region && MIXED_REGIONS.has(region)) return "mixed";
+  return DEFAULT_UNITS;
+}
+
+export const cToF = (c: number) => (c * 9) / 5 + 32;
+export const kphToMph = (kph: number) => kph / 1.609344;
+export const kmToMi = (km: number) => km / 1.609344;
+export const mmToIn = (mm: number) => mm / 25.4;
+export const mToFt = (m: number) => m / 0.3048;
+
+const round = (n: number, digits = 0) => {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+};
+
+// Converted, rounded values plus their unit label, for places that lay out number and unit separately.
+export function tempIn(c: number, units: UnitSystem) {
+  return units === "imperial" ? { value: round(cToF(c)), unit: "°F" } : { value: round(c), unit: "°C" };
+}
+
+export function windIn(kph: number, units: UnitSystem) {
+  return units === "metric" ? { value: round(kph), unit: "km/h" } : { value: round(kphToMph(kph)), unit: "mph" };
+}
+
+export function precipIn(mm: number, units: UnitSystem) {
+  return units === "imperial" ? { value: round(mmToIn(mm), 2), unit: "in" } : { value: round(mm, 1), unit: "mm" };
+}
+
+export function distanceIn(km: number, units: UnitSystem) {
+  return units === "metric" ? { value: round(km, 1), unit: "km" } : { value: round(kmToMi(km), 1), unit: "mi" };
+}
+
+export function elevationIn(m: number, units: UnitSystem) {
+  return units === "imperial" ? { value: round(mToFt(m)), unit: "ft" } : { value: round(m), unit: "m" };
+}
+
+// "18°C" / "64°F"
+export function formatTemp(c: number, units: UnitSystem) {
+  const t = tempIn(c, units);
+  return `${t.value}${t.unit}`;
+}
+
+// "25 km/h" / "16 mph"
+export function formatWind(kph: number, units: UnitSystem) {
+  const w = windIn(kph, units);
+  return `${w.value} ${w.unit}`;
+}
+
+// "4.2mm" / "0.17in"
+export function formatPrecip(mm: number, units: UnitSystem) {
+  const p = precipIn(mm, units);
+  return `${p.value}${p.unit}`;
+}
+
+// "12.4 km" / "7.7 mi"
+export function formatDistance(km: number, units: UnitSystem) {
+  const d = distanceIn(km, units);
+  return `${d.value} ${d.unit}`;
+}
+
+// "210 m" / "689 ft"
+export function formatElevation(m: number, units: UnitSystem) {
+  const e = elevationIn(m, units);
+  return `${e.value} ${e.unit}`;
+}
@@ -0,0 +1,33 @@
+// Single source of truth for turning a 0–100 score into GREEN / YELLOW / RED.
+// The scorer, the API rollups, the page and the About copy all read from here.
+
+export type GolfVerdict = "GREEN" | "YELLOW" | "RED";
+
+export type VerdictThresholds = {
+  green: number; // score >= green -> GREEN
+  yellow: number; // score >= yellow -> YELLOW, below -> RED
+};
+
+export const DEFAULT_VERDICT_THRESHOLDS: VerdictThresholds = { green: 80, yellow: 60 };
+
+function resolveThresholds(raw: { green?: string; yellow?: string }): VerdictThresholds {
+  const green = Number(raw.green ?? DEFAULT_VERDICT_THRESHOLDS.green);
+  const yellow = Number(raw.yellow ?? DEFAULT_VERDICT_THRESHOLDS.yellow);
+
+  // Ignore nonsense config rather than colouring everything red.
+  const valid =
+    Number.isFinite(green) && Number.isFinite(yellow) && yellow > 0 && yellow < green && green <= 100;
+  return valid ? { green, yellow } : DEFAULT_VERDICT_THRESHOLDS;
+}
+
+// Site config: NEXT_PUBLIC_ so the same values are inlined on the server and in the browser.
+export const VERDICT_THRESHOLDS: VerdictThresholds = resolveThresholds({
+  green: process.env.NEXT_PUBLIC_VERDICT_GREEN_MIN,
+  yellow: process.env.NEXT_PUBLIC_VERDICT_YELLOW_MIN,
+});
+
+export function verdictForScore(score: number, t: VerdictThresholds = VERDICT_THRESHOLDS): GolfVerdict {
+  if (score >= t.green) return "GREEN";
+  if (score >= t.yellow) return "YELLOW";
+  return "RED";
+}
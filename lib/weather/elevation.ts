@@ -0,0 +1,44 @@
+import { dewPointC, humidityFromDewPoint } from "@/lib/heatStress";
+import type { CurrentConditions, HourlyPoint, NormalizedForecast } from "./types";
+
+// Standard atmosphere: air cools ~6.5°C per km of climb; dew point only ~1.8°C per km.
+export const LAPSE_RATE_C_PER_M = 0.0065;
+const DEW_LAPSE_C_PER_M = 0.0018;
+
+function shift<T extends HourlyPoint | CurrentConditions>(p: T, dz: number): T {
+  const dT = -LAPSE_RATE_C_PER_M * dz;
+  const tempC = p.tempC + dT;
+
+  // Carry moisture through the dew point so humidity rises as the air cools.
+  const knownDew = "dewPointC" in p ? p.dewPointC : null;
+  const dew0 = knownDew ?? (p.humidityPct != null ? dewPointC(p.tempC, p.humidityPct) : null);
+  const dew = dew0 != null ? Math.min(tempC, dew0 - DEW_LAPSE_C_PER_M * dz) : null;
+
+  return {
+    ...p,
+    tempC,
+    feelsLikeC: p.feelsLikeC + dT,
+    ...(knownDew != null ? { dewPointC: dew } : {}),
+    ...(p.humidityPct != null && dew != null ? { humidityPct: humidityFromDewPoint(tempC, dew) } : {}),
+  };
+}
+
+/**
+ * Re-home a forecast at the course's elevation. Temperatures (and humidity) are corrected by the
+ * lapse rate from the forecast point's height (the provider's, or looked up by getCachedForecast);
+ * when neither knows it we can't correct, but still record the course elevation for ball-flight math.
+ */
+export function applyElevation(fc: NormalizedForecast, elevationM: number | null | undefined): NormalizedForecast {
+  if (elevationM == null || !Number.isFinite(elevationM)) return fc;
+  if (fc.elevationM == null) return { ...fc, elevationM };
+
+  const dz = elevationM - fc.elevationM;
+  if (Math.abs(dz) < 1) return { ...fc, elevationM };
+
+  return {
+    ...fc,
+    elevationM,
+    current: shift(fc.current, dz),
+    hourly: fc.hourly.map((p) => shift(p, dz)),
+  };
+}
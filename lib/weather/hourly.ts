@@ -0,0 +1,62 @@
+import type { HourlyPoint, NormalizedForecast } from "./types";
+
+const HOUR_SEC = 60 * 60;
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+// Interpolate optional fields only when both ends are known.
+function lerpOpt(a: number | null | undefined, b: number | null | undefined, t: number) {
+  if (a == null) return null;
+  return b == null ? a : lerp(a, b, t);
+}
+
+// Directions turn the short way round: 350° → 10° passes through north, not south.
+function lerpDeg(a: number | null | undefined, b: number | null | undefined, t: number) {
+  if (a == null) return null;
+  if (b == null) return a;
+  const diff = ((b - a + 540) % 360) - 180;
+  return (a + diff * t + 360) % 360;
+}
+
+/**
+ * Resample a coarse series (OpenWeather's 3h blocks) to true hourly points.
+ * Temperature and wind are linearly interpolated toward the next block; precip totals are
+ * spread evenly across the hours of their block; pop and conditions apply to the whole block.
+ * Already-hourly series are returned unchanged.
+ */
+export function toHourlySeries(fc: NormalizedForecast): NormalizedForecast {
+  if (fc.stepSec <= HOUR_SEC || fc.hourly.length === 0) return fc;
+
+  const perBlock = Math.max(1, Math.round(fc.stepSec / HOUR_SEC));
+  const hourly: HourlyPoint[] = [];
+
+  for (let i = 0; i < fc.hourly.length; i++) {
+    const a = fc.hourly[i];
+    const b = fc.hourly[i + 1] ?? a;
+
+    for (let k = 0; k < perBlock; k++) {
+      const t = k / perBlock;
+      hourly.push({
+        dt: a.dt + k * HOUR_SEC,
+        tempC: lerp(a.tempC, b.tempC, t),
+        feelsLikeC: lerp(a.feelsLikeC, b.feelsLikeC, t),
+        windKph: lerp(a.windKph, b.windKph, t),
+        gustKph: lerp(a.gustKph, b.gustKph, t),
+        windDeg: lerpDeg(a.windDeg, b.windDeg, t),
+        precipMm: a.precipMm / perBlock, // unrounded: 0.1 mm over 3h must not vanish
+        pop: a.pop,
+        conditions: a.conditions,
+        cape: lerpOpt(a.cape, b.cape, t),
+        humidityPct: lerpOpt(a.humidityPct, b.humidityPct, t),
+        dewPointC: lerpOpt(a.dewPointC, b.dewPointC, t),
+        uvIndex: lerpOpt(a.uvIndex, b.uvIndex, t),
+        cloudPct: lerpOpt(a.cloudPct, b.cloudPct, t),
+        pressureHpa: lerpOpt(a.pressureHpa, b.pressureHpa, t),
+      });
+    }
+  }
+
+  return { ...fc, stepSec: HOUR_SEC, hourly };
+}
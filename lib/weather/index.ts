@@ -0,0 +1,14 @@
+export type { HourlyPoint, NormalizedForecast, WeatherProvider, WeatherProviderId } from "./types";
+export { getPastPrecipMm, getRecentHours, pastPrecipMm } from "./openmeteo";
+export { toHourlySeries } from "./hourly";
+export { applyElevation, LAPSE_RATE_C_PER_M } from "./elevation";
+export { scoreSeries, type ScoredPoint } from "./scoring";
+export { getCachedForecast, getWeatherProvider } from "./provider";
+export {
+  buildWeatherReport,
+  type ForecastBlock,
+  type GolfScore,
+  type GroundSignals,
+  type WeatherReport,
+  type WeatherReportOptions,
+} from "./report";
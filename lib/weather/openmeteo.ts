@@ -0,0 +1,241 @@
+import { cached, gridCell } from "@/lib/cache";
+import { timeZoneAt } from "@/lib/timezone/lookup";
+import type { WeatherSample } from "@/lib/ground";
+import type { HourlyPoint, NormalizedForecast, WeatherProvider } from "./types";
+
+// Open‑Meteo needs no API key. We request unix timestamps so the series lines up with OpenWeather's.
+type OmForecast = {
+  utc_offset_seconds?: number;
+  elevation?: number;
+  current?: {
+    temperature_2m?: number;
+    apparent_temperature?: number;
+    wind_speed_10m?: number;
+    wind_gusts_10m?: number;
+    wind_direction_10m?: number;
+    weather_code?: number;
+    relative_humidity_2m?: number;
+    uv_index?: number;
+    pressure_msl?: number;
+  };
+  hourly?: {
+    time?: number[];
+    temperature_2m?: number[];
+    apparent_temperature?: number[];
+    wind_speed_10m?: number[];
+    wind_gusts_10m?: number[];
+    wind_direction_10m?: (number | null)[];
+    precipitation?: number[];
+    precipitation_probability?: (number | null)[];
+    weather_code?: number[];
+    cape?: (number | null)[];
+    relative_humidity_2m?: (number | null)[];
+    dew_point_2m?: (number | null)[];
+    uv_index?: (number | null)[];
+    cloud_cover?: (number | null)[];
+    pressure_msl?: (number | null)[];
+  };
+  daily?: {
+    time?: number[];
+    sunrise?: number[];
+    sunset?: number[];
+  };
+};
+
+// WMO weather interpretation codes -> OpenWeather-style "main" strings,
+// so golfabilityScore's condition checks work the same for both providers.
+export function wmoToConditions(code: number | null | undefined): string | null {
+  if (code == null || !Number.isFinite(code)) return null;
+  if (code === 0) return "Clear";
+  if (code <= 3) return "Clouds";
+  if (code === 45 || code === 48) return "Fog";
+  if (code >= 51 && code <= 57) return "Drizzle";
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return "Rain";
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "Snow";
+  if (code >= 95) return "Thunderstorm";
+  return null;
+}
+
+const HOURLY_FIELDS = [
+  "temperature_2m",
+  "apparent_temperature",
+  "wind_speed_10m",
+  "wind_gusts_10m",
+  "wind_direction_10m",
+  "precipitation",
+  "precipitation_probability",
+  "weather_code",
+  "cape",
+  "relative_humidity_2m",
+  "dew_point_2m",
+  "uv_index",
+  "cloud_cover",
+  "pressure_msl",
+].join(",");
+
+const CURRENT_FIELDS = [
+  "temperature_2m",
+  "apparent_temperature",
+  "wind_speed_10m",
+  "wind_gusts_10m",
+  "wind_direction_10m",
+  "weather_code",
+  "relative_humidity_2m",
+  "uv_index",
+  "pressure_msl",
+].join(",");
+
+export function createOpenMeteoProvider(): WeatherProvider {
+  return {
+    id: "openmeteo",
+
+    async getForecast(lat: number, lon: number): Promise<NormalizedForecast> {
+      const url =
+        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}` +
+        `&hourly=${HOURLY_FIELDS}` +
+        `&current=${CURRENT_FIELDS}` +
+        `&daily=sunrise,sunset` +
+        `&forecast_days=6&timezone=auto&timeformat=unixtime`;
+
+      const r = await fetch(url, { headers: { "Accept": "application/json" } });
+      if (!r.ok) throw new Error(`Open-Meteo fetch failed (${r.status})`);
+      const j = (await r.json()) as OmForecast;
+
+      const h = j.hourly ?? {};
+      const times = Array.isArray(h.time) ? h.time : [];
+      // Missing values stay null: a gap in the series is not 0°C or a calm hour.
+      const at = (arr: (number | null)[] | undefined, i: number) => {
+        const v = arr?.[i];
+        return v != null && Number.isFinite(Number(v)) ? Number(v) : null;
+      };
+
+      const stepSec = 60 * 60;
+      const nowSec = Date.now() / 1000;
+
+      const hourly: HourlyPoint[] = [];
+      for (let i = 0; i < times.length; i++) {
+        const dt = Number(times[i]);
+        // Open‑Meteo starts at local midnight; drop hours that are already over.
+        if (!Number.isFinite(dt) || dt + stepSec <= nowSec) continue;
+        // An hour without temperature or wind can't be scored; leave it out rather than invent it.
+        const tempC = at(h.temperature_2m, i);
+        const windKph = at(h.wind_speed_10m, i);
+        if (tempC == null || windKph == null) continue;
+        hourly.push({
+          dt,
+          tempC,
+          feelsLikeC: at(h.apparent_temperature, i) ?? tempC,
+          windKph,
+          gustKph: at(h.wind_gusts_10m, i) ?? windKph,
+          windDeg: h.wind_direction_10m?.[i] ?? null,
+          precipMm: at(h.precipitation, i) ?? 0,
+          pop: Math.max(0, Math.min(1, (at(h.precipitation_probability, i) ?? 0) / 100)),
+          conditions: wmoToConditions(h.weather_code?.[i]),
+          cape: h.cape?.[i] ?? null,
+          humidityPct: h.relative_humidity_2m?.[i] ?? null,
+          dewPointC: h.dew_point_2m?.[i] ?? null,
+          uvIndex: h.uv_index?.[i] ?? null,
+          cloudPct: h.cloud_cover?.[i] ?? null,
+          pressureHpa: h.pressure_msl?.[i] ?? null,
+        });
+      }
+
+      const c = j.current ?? {};
+      return {
+        source: "openmeteo",
+        stepSec,
+        timeZone: timeZoneAt(lat, lon),
+        sunrise: Number(j.daily?.sunrise?.[0] ?? 0),
+        sunset: Number(j.daily?.sunset?.[0] ?? 0),
+        elevationM: j.elevation ?? null,
+        current: {
+          tempC: Number(c.temperature_2m ?? hourly[0]?.tempC ?? 0),
+          feelsLikeC: Number(c.apparent_temperature ?? hourly[0]?.feelsLikeC ?? 0),
+          windKph: Number(c.wind_speed_10m ?? hourly[0]?.windKph ?? 0),
+          gustKph: Number(c.wind_gusts_10m ?? hourly[0]?.gustKph ?? 0),
+          windDeg: c.wind_direction_10m ?? hourly[0]?.windDeg ?? null,
+          conditions: wmoToConditions(c.weather_code) ?? hourly[0]?.conditions ?? null,
+          humidityPct: c.relative_humidity_2m ?? hourly[0]?.humidityPct ?? null,
+          uvIndex: c.uv_index ?? hourly[0]?.uvIndex ?? null,
+          pressureHpa: c.pressure_msl ?? hourly[0]?.pressureHpa ?? null,
+        },
+        hourly,
+      };
+    },
+  };
+}
+
+type RecentHistory = {
+  time: number[];
+  precipitation: (number | null)[];
+  temperature_2m: (number | null)[];
+  wind_speed_10m: (number | null)[];
+  relative_humidity_2m: (number | null)[];
+  cloud_cover: (number | null)[];
+};
+
+// A week of history seeds the ground water balance (lib/ground); the last 48h also feed the rain totals.
+const HISTORY_FIELDS = "precipitation,temperature_2m,wind_speed_10m,relative_humidity_2m,cloud_cover";
+
+async function fetchRecentHistory(lat: number, lon: number): Promise<RecentHistory> {
+  const url =
+    `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=${HISTORY_FIELDS}` +
+    `&past_days=7&forecast_days=1&timezone=UTC&timeformat=unixtime`;
+  const r = await fetch(url, { headers: { "Accept": "application/json" } });
+  if (!r.ok) throw new Error(`Open-Meteo history fetch failed (${r.status})`);
+  const h = ((await r.json()) as { hourly?: Partial<RecentHistory> })?.hourly ?? {};
+  return {
+    time: h.time ?? [],
+    precipitation: h.precipitation ?? [],
+    temperature_2m: h.temperature_2m ?? [],
+    wind_speed_10m: h.wind_speed_10m ?? [],
+    relative_humidity_2m: h.relative_humidity_2m ?? [],
+    cloud_cover: h.cloud_cover ?? [],
+  };
+}
+
+/**
+ * Observed hours up to now, oldest first. Open‑Meteo (no key) serves the history for either
+ * provider, since OpenWeather's free endpoints don't expose one. Empty when it can't be had.
+ */
+export async function getRecentHours(lat: number, lon: number): Promise<WeatherSample[]> {
+  try {
+    // The hourly history is cached rather than totals, so windows stay anchored to now.
+    const cell = gridCell(lat, lon);
+    const { value } = await cached("recentWeather", cell.key, () => fetchRecentHistory(cell.lat, cell.lon));
+    const nowSec = Date.now() / 1000;
+    const at = (arr: (number | null)[], i: number) => (arr[i] != null && Number.isFinite(Number(arr[i])) ? Number(arr[i]) : null);
+
+    const hours: WeatherSample[] = [];
+    for (let i = 0; i < value.time.length; i++) {
+      const dt = Number(value.time[i]);
+      const tempC = at(value.temperature_2m, i);
+      // Only hours that are over; the tail of the request is today's forecast.
+      if (!Number.isFinite(dt) || dt + 3600 > nowSec || tempC == null) continue;
+      hours.push({
+        dt,
+        tempC,
+        windKph: at(value.wind_speed_10m, i) ?? 0,
+        precipMm: at(value.precipitation, i) ?? 0,
+        humidityPct: at(value.relative_humidity_2m, i),
+        cloudPct: at(value.cloud_cover, i),
+      });
+    }
+    return hours;
+  } catch {
+    return [];
+  }
+}
+
+/** Rain over the last 24h / 48h of `hours`, null when the history doesn't reach back that far. */
+export function pastPrecipMm(hours: WeatherSample[], nowSec = Date.now() / 1000): { past24: number | null; past48: number | null } {
+  const sum = (ageHrs: number) => {
+    const inWindow = hours.filter((p) => nowSec - p.dt <= ageHrs * 3600);
+    return inWindow.length > 0 ? Math.round(inWindow.reduce((a, p) => a + p.precipMm, 0) * 10) / 10 : null;
+  };
+  return { past24: sum(24), past48: sum(48) };
+}
+
+export async function getPastPrecipMm(lat: number, lon: number): Promise<{ past24: number | null; past48: number | null }> {
+  return pastPrecipMm(await getRecentHours(lat, lon));
+}
@@ -0,0 +1,93 @@
+import { timeZoneAt } from "@/lib/timezone/lookup";
+import type { HourlyPoint, NormalizedForecast, WeatherProvider } from "./types";
+
+// Only the fields we read from OpenWeather's /weather and /forecast payloads.
+type OwWind = { speed?: number; gust?: number; deg?: number };
+type OwMain = { temp: number; feels_like: number; humidity?: number; pressure?: number };
+type OwCondition = { main?: string };
+
+type OwCurrent = {
+  main: OwMain;
+  wind?: OwWind;
+  weather?: OwCondition[];
+  sys?: { sunrise?: number; sunset?: number };
+  timezone?: number;
+};
+
+type OwForecastItem = {
+  dt: number;
+  main: OwMain;
+  wind?: OwWind;
+  weather?: OwCondition[];
+  pop?: number;
+  clouds?: { all?: number };
+  rain?: { "3h"?: number };
+  snow?: { "3h"?: number };
+};
+
+type OwForecast = {
+  list?: OwForecastItem[];
+  city?: { timezone?: number };
+};
+
+function msToKph(ms: number) {
+  return ms * 3.6;
+}
+
+export function createOpenWeatherProvider(apiKey: string): WeatherProvider {
+  return {
+    id: "openweather",
+
+    async getForecast(lat: number, lon: number): Promise<NormalizedForecast> {
+      const weatherUrl = `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&units=metric&appid=${apiKey}`;
+      const forecastUrl = `https://api.openweathermap.org/data/2.5/forecast?lat=${lat}&lon=${lon}&units=metric&appid=${apiKey}`;
+
+      const [curRes, fcRes] = await Promise.all([fetch(weatherUrl), fetch(forecastUrl)]);
+      if (!curRes.ok || !fcRes.ok) {
+        throw new Error(`OpenWeather fetch failed (${curRes.status}/${fcRes.status})`);
+      }
+
+      const current = (await curRes.json()) as OwCurrent;
+      const forecast = (await fcRes.json()) as OwForecast;
+
+      const hourly: HourlyPoint[] = (forecast.list ?? []).slice(0, 40).map((b) => {
+        const precipRaw = Number(b?.rain?.["3h"] ?? 0) + Number(b?.snow?.["3h"] ?? 0);
+        return {
+          dt: Number(b.dt),
+          tempC: b.main.temp,
+          feelsLikeC: b.main.feels_like,
+          windKph: msToKph(b.wind?.speed ?? 0),
+          gustKph: msToKph(b.wind?.gust ?? 0),
+          windDeg: b.wind?.deg ?? null,
+          precipMm: precipRaw,
+          // OpenWeather's `pop` is the probability of precipitation for the 3h block (0..1).
+          pop: Math.max(0, Math.min(1, Number(b?.pop ?? 0) || 0)),
+          conditions: b.weather?.[0]?.main ?? null,
+          // The free 2.5 endpoints have humidity but no dew point or UV.
+          humidityPct: b.main.humidity ?? null,
+          cloudPct: b.clouds?.all ?? null,
+          pressureHpa: b.main.pressure ?? null,
+        };
+      });
+
+      return {
+        source: "openweather",
+        stepSec: 3 * 60 * 60,
+        timeZone: timeZoneAt(lat, lon),
+        sunrise: Number(current.sys?.sunrise ?? 0),
+        sunset: Number(current.sys?.sunset ?? 0),
+        current: {
+          tempC: current.main.temp,
+          feelsLikeC: current.main.feels_like,
+          windKph: msToKph(current.wind?.speed ?? 0),
+          gustKph: msToKph(current.wind?.gust ?? 0),
+          windDeg: current.wind?.deg ?? null,
+          conditions: current.weather?.[0]?.main ?? null,
+          humidityPct: current.main.humidity ?? null,
+          pressureHpa: current.main.pressure ?? null,
+        },
+        hourly,
+      };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { cached, gridCell, type Cached } from "@/lib/cache";
+import { getElevations, type LatLon } from "@/lib/elevation";
+import { createOpenMeteoProvider } from "./openmeteo";
+import { createOpenWeatherProvider } from "./openweather";
+import type { NormalizedForecast, WeatherProvider } from "./types";
+
+/**
+ * Pick the forecast provider from config.
+ * WEATHER_PROVIDER=openweather|openmeteo forces one; otherwise OpenWeather when a key is set,
+ * Open‑Meteo (no key needed) when it isn't. Returns null if the forced provider is misconfigured.
+ */
+export function getWeatherProvider(env: Record<string, string | undefined> = process.env): WeatherProvider | null {
+  const forced = (env.WEATHER_PROVIDER ?? "").trim().toLowerCase();
+  const owKey = env.OPENWEATHER_API_KEY;
+
+  if (forced === "openmeteo") return createOpenMeteoProvider();
+  if (forced === "openweather") return owKey ? createOpenWeatherProvider(owKey) : null;
+
+  return owKey ? createOpenWeatherProvider(owKey) : createOpenMeteoProvider();
+}
+
+// OpenWeather doesn't say how high its forecast point sits; look it up so applyElevation has a
+// height to lapse-rate correct from. Open‑Meteo reports its own.
+async function withPointElevation(fc: NormalizedForecast, point: LatLon): Promise<NormalizedForecast> {
+  if (fc.elevationM != null) return fc;
+  const [elevationM] = await getElevations([point]);
+  return elevationM != null ? { ...fc, elevationM } : fc;
+}
+
+/** Forecast for the grid cell around a point, shared by every request that lands in the same cell. */
+export function getCachedForecast(provider: WeatherProvider, lat: number, lon: number): Promise<Cached<NormalizedForecast>> {
+  const cell = gridCell(lat, lon);
+  return cached("forecast", `${provider.id}:${cell.key}`, async () =>
+    withPointElevation(await provider.getForecast(cell.lat, cell.lon), cell)
+  );
+}
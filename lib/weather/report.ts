@@ -0,0 +1,597 @@
+// The full forecast report behind /api/weather: scored hourly blocks, today's best window,
+// a five-day rollup and ground signals. Shared by every route that needs "how's golf there?".
+
+import {
+  DEFAULT_WINDOW_SEC,
+  ROUND_WINDOW_SEC,
+  slideBestWindow,
+  type BestWindow,
+  type HolesOption,
+} from "@/lib/bestWindow";
+import { verdictForScore, type GolfVerdict } from "@/lib/verdict";
+import { getActiveAlerts } from "@/lib/alerts";
+import { overlapsStorm, stormTiming, type StormWindow } from "@/lib/thunder";
+import { isFrostDelayed, predictFrostDelays, type FrostDelay } from "@/lib/frost";
+import { rollupBreakdown, type Deduction, type HardStop } from "@/lib/golfability";
+import { DEFAULT_PROFILE, type GolferProfile } from "@/lib/profile";
+import { DEFAULT_SOIL, groundOn, waterBalance, type GroundDay, type SoilClass } from "@/lib/ground";
+import { DEFAULT_UNITS, type UnitSystem } from "@/lib/units";
+import { DEFAULT_LOCALE, TIME_LOCALES, msg, t, type Locale, type Message, type MessageCode } from "@/lib/i18n";
+import { solarDay, sunriseFor, type SolarDay } from "@/lib/solar";
+import { addDays, formatDay, formatTime, localDateKey, localHour, localMidnight, utcOffsetSec } from "@/lib/timezone";
+import { applyElevation } from "./elevation";
+import { toHourlySeries } from "./hourly";
+import { getRecentHours, pastPrecipMm } from "./openmeteo";
+import { scoreSeries } from "./scoring";
+import type { NormalizedForecast } from "./types";
+import { getCachedForecast, getWeatherProvider } from "./provider";
+
+export type GolfScore = {
+  score: number;
+  verdict: GolfVerdict;
+  reason: string; // rendered in the report's locale
+  reasonMessage: Message; // the same reason as a catalog code + params (lib/i18n)
+  notes?: string[]; // heat / UV advisories from golfabilityScore
+  noteCodes?: MessageCode[];
+  deductions?: Deduction[];
+  hardStop?: HardStop | null;
+};
+
+export type ForecastBlock = {
+  dt: number;
+  label: string;
+  dayKey: string;
+  dayLabel: string;
+  temp: number;
+  feels: number;
+  windKph: number;
+  gustKph: number;
+  windDeg: number | null; // meteorological: where the wind blows from
+  precipMm: number;
+  pop: number; // 0..1 probability of precipitation from the provider
+  humidityPct: number | null;
+  uvIndex: number | null;
+  pressureHpa: number | null; // mean sea-level
+  conditions: string | null;
+  inDaylight: boolean;
+  alertBlocked: boolean;
+  stormProb: number;
+  frostBlocked: boolean;
+  golf: GolfScore;
+};
+
+type GroundSignal<K extends string> = {
+  key: K;
+  label: string;
+  detail: string;
+  detailMessage: Message;
+  confidence: "LOW" | "MEDIUM" | "HIGH";
+};
+
+export type GroundSignals = {
+  past24hPrecipMm: number | null;
+  past48hPrecipMm: number | null;
+  // Forecast days: rain over that day and the one before (partly forecast). Null for today.
+  forecast48hWetnessMm?: number | null;
+  moisturePct: number; // surface moisture from the water balance, 0 dry .. 100 saturated
+  soil: SoilClass;
+  greensSpeed: GroundSignal<GroundDay["greens"]>;
+  fairwayRollout: GroundSignal<GroundDay["rollout"]>;
+  firmness: GroundSignal<GroundDay["firmness"]>;
+  cartPathOnly: GroundSignal<GroundDay["cartPathOnly"]>;
+};
+
+// Badge colour per ground key: soft / slow reads green, firm / quick red; for carts, restrictions read red.
+const GROUND_DOTS = {
+  greens: { SLOW: "🟢", MEDIUM: "🟡", QUICK: "🔴" },
+  rollout: { LOW: "🟢", MEDIUM: "🟡", HIGH: "🔴" },
+  firmness: { SOFT: "🟢", NORMAL: "🟡", FIRM: "🔴" },
+  cartPath: { UNLIKELY: "🟢", POSSIBLE: "🟡", LIKELY: "🔴" },
+} as const;
+
+const GROUND_TITLES = {
+  greens: "ground.greensTitle",
+  rollout: "ground.rolloutTitle",
+  firmness: "ground.firmnessTitle",
+  cartPath: "ground.cartPathTitle",
+} as const satisfies Record<keyof typeof GROUND_DOTS, MessageCode>;
+
+type GroundText = { locale: Locale; units: UnitSystem };
+
+function groundSignal<G extends keyof typeof GROUND_DOTS, K extends keyof (typeof GROUND_DOTS)[G] & string>(
+  kind: G,
+  key: K,
+  detailMessage: Message,
+  confidence: GroundSignal<K>["confidence"],
+  { locale, units }: GroundText
+): GroundSignal<K> {
+  const dot = (GROUND_DOTS[kind] as Record<string, string>)[key];
+  return {
+    key,
+    label: `${t(locale, GROUND_TITLES[kind])}: ${dot} ${t(locale, `ground.${kind}.${key}` as MessageCode)}`,
+    detail: t(locale, detailMessage, { units }),
+    detailMessage,
+    confidence,
+  };
+}
+
+/**
+ * Ground signals for one day, read off the water balance (lib/ground). Today is grounded in
+ * observed rain when the history came back; forecast days lean on forecast rain, so say so.
+ */
+function groundSignals(args: {
+  day: GroundDay;
+  isToday: boolean;
+  past24: number | null;
+  past48: number | null;
+  soil: SoilClass;
+  text: GroundText;
+}): GroundSignals {
+  const { day, isToday, past24, past48, soil, text } = args;
+  const observed = isToday && past48 != null;
+  const confidence = observed ? "MEDIUM" : "LOW";
+  const mm = observed ? past48 : day.rain48hMm;
+
+  let greensDetail: Message;
+  let rollDetail: Message;
+  if (isToday && !observed) {
+    greensDetail = msg("greens.noRecentData");
+    rollDetail = msg("rollout.noRecentData");
+  } else if (observed) {
+    greensDetail =
+      day.greens === "SLOW"
+        ? msg(day.moisturePct >= 65 ? "greens.slowWet" : "greens.slowCool", { mm })
+        : msg(day.greens === "QUICK" ? "greens.quickDry" : "greens.normal", { mm });
+    rollDetail = msg(day.rollout === "LOW" ? "rollout.low" : day.rollout === "HIGH" ? "rollout.high" : "rollout.moderate", { mm });
+  } else {
+    greensDetail = msg(
+      day.greens === "SLOW" ? "greens.forecastSlow" : day.greens === "QUICK" ? "greens.forecastQuick" : "greens.forecastNormal",
+      { mm }
+    );
+    rollDetail = msg(
+      day.rollout === "LOW" ? "rollout.forecastLow" : day.rollout === "HIGH" ? "rollout.forecastHigh" : "rollout.forecastModerate",
+      { mm }
+    );
+  }
+
+  const firmDetail = day.frozen
+    ? msg("firmness.frozen")
+    : msg(day.firmness === "SOFT" ? "firmness.soft" : day.firmness === "FIRM" ? "firmness.firm" : "firmness.normal");
+
+  const cartDetail =
+    day.runoffMm > 0
+      ? msg("cartPath.runoff", { mm: day.runoffMm })
+      : day.cartPathOnly === "LIKELY"
+        ? msg("cartPath.saturated")
+        : day.cartPathOnly === "POSSIBLE"
+          ? msg(day.frozen ? "cartPath.frozen" : "cartPath.wet")
+          : msg("cartPath.ok");
+
+  return {
+    past24hPrecipMm: isToday ? past24 : null,
+    past48hPrecipMm: isToday ? past48 : null,
+    forecast48hWetnessMm: isToday ? null : day.rain48hMm,
+    moisturePct: day.moisturePct,
+    soil,
+    greensSpeed: groundSignal("greens", day.greens, greensDetail, confidence, text),
+    fairwayRollout: groundSignal("rollout", day.rollout, rollDetail, confidence, text),
+    firmness: groundSignal("firmness", day.firmness, firmDetail, confidence, text),
+    cartPathOnly: groundSignal("cartPath", day.cartPathOnly, cartDetail, confidence, text),
+  };
+}
+
+export type WeatherReportOptions = {
+  lat: number;
+  lon: number;
+  holes?: HolesOption | null; // round length for the best window; omitted = legacy 3-hour window
+  profile?: GolferProfile;
+  courseElevationM?: number | null; // lapse-rate corrects temperatures to the course
+  units?: UnitSystem; // for the human-readable strings only; numeric fields stay metric
+  locale?: Locale; // language of reasons, ground details and time labels; codes ride along regardless
+  soil?: SoilClass; // drainage class for the ground water balance
+};
+
+export type WeatherReport = Extract<Awaited<ReturnType<typeof buildWeatherReport>>, { ok: true }>["report"];
+
+/**
+ * Fetch, score and roll up the forecast for one location.
+ * Failures come back as `{ ok: false, status, error }` for the caller to turn into a response.
+ */
+export async function buildWeatherReport({
+  lat,
+  lon,
+  holes = null,
+  profile = DEFAULT_PROFILE,
+  courseElevationM = null,
+  units = DEFAULT_UNITS,
+  locale = DEFAULT_LOCALE,
+  soil = DEFAULT_SOIL,
+}: WeatherReportOptions) {
+  const provider = getWeatherProvider();
+  if (!provider) {
+    return { ok: false as const, status: 500, error: "Missing API key" };
+  }
+
+  // Alerts never fail the request (getActiveAlerts swallows provider errors).
+  const alertsPromise = getActiveAlerts(lat, lon);
+
+  let fc: NormalizedForecast;
+  let cache: { cachedAt: number; stale: boolean };
+  try {
+    // Score at hourly resolution regardless of the provider's native step.
+    const { value, cachedAt, stale } = await getCachedForecast(provider, lat, lon);
+    fc = applyElevation(toHourlySeries(value), courseElevationM);
+    cache = { cachedAt, stale };
+  } catch {
+    return { ok: false as const, status: 502, error: "Weather fetch failed" };
+  }
+
+  const alerts = await alertsPromise;
+
+  const { timeZone } = fc;
+  const timeLocale = TIME_LOCALES[locale];
+  const todayKey = localDateKey(Date.now() / 1000, timeZone);
+
+  // Sun times per local day at the course; the provider only reports today's.
+  const solarByDay = new Map<string, SolarDay>();
+  const solarFor = (key: string) => {
+    if (!solarByDay.has(key)) solarByDay.set(key, solarDay(key, lat, lon));
+    return solarByDay.get(key)!;
+  };
+
+  // "Golf daylight": 1 hour after sunrise to 1 hour before sunset.
+  // Under the midnight sun that's the whole day; in polar night, none of it (an empty range).
+  const golfDaylight = (key: string) => {
+    const s = solarFor(key);
+    if (s.sunrise != null && s.sunset != null) return { start: s.sunrise + 60 * 60, end: s.sunset - 60 * 60 };
+    const midnight = localMidnight(key, timeZone);
+    return s.polar === "day"
+      ? { start: midnight, end: localMidnight(addDays(key, 1), timeZone) }
+      : { start: midnight, end: midnight - 1 };
+  };
+
+  // Observed hours: last night for today's frost outlook, and a week of rain for the ground.
+  const recent = await getRecentHours(lat, lon);
+
+  // Overnight frost outlook per local day; blocks before the expected clear time are unplayable.
+  const frostByDay = predictFrostDelays(fc, sunriseFor(lat, lon, timeZone), recent);
+
+  // Sunrise/sunset for today (unix seconds); the provider's only when the sun doesn't cross the horizon
+  const sunrise = solarFor(todayKey).sunrise ?? fc.sunrise;
+  const sunset = solarFor(todayKey).sunset ?? fc.sunset;
+  const { start: daylightStart, end: daylightEnd } = golfDaylight(todayKey);
+
+  // Best window (round length) must finish by our daylightEnd
+  const WINDOW_SEC = holes ? ROUND_WINDOW_SEC[holes] : DEFAULT_WINDOW_SEC;
+  const latestStart = daylightEnd - WINDOW_SEC;
+
+  const blocks: ForecastBlock[] = scoreSeries(fc, { lat, alerts, frost: frostByDay, profile, units, locale }).map((p) => {
+    const golf = p.golf as GolfScore;
+    const daylight = golfDaylight(localDateKey(p.dt, timeZone));
+
+    return {
+      dt: p.dt,
+      label: formatTime(p.dt, timeZone, timeLocale),
+      dayKey: localDateKey(p.dt, timeZone),
+      dayLabel: formatDay(p.dt, timeZone, timeLocale),
+      temp: Math.round(p.tempC),
+      feels: Math.round(p.feelsLikeC),
+      windKph: Math.round(p.windKph),
+      gustKph: Math.round(p.gustKph),
+      windDeg: p.windDeg != null ? Math.round(p.windDeg) : null,
+      precipMm: p.precipMm,
+      pop: p.pop,
+      humidityPct: p.humidityPct != null ? Math.round(p.humidityPct) : null,
+      uvIndex: p.uvIndex != null ? Math.round(p.uvIndex * 10) / 10 : null,
+      pressureHpa: p.pressureHpa != null ? Math.round(p.pressureHpa) : null,
+      conditions: p.conditions,
+      inDaylight: p.dt >= daylight.start && p.dt <= daylight.end,
+      alertBlocked: p.alertBlocked,
+      stormProb: p.stormProb,
+      frostBlocked: p.frostBlocked,
+      golf,
+    };
+  });
+
+  // Thunderstorm window per local day (first strike, off-course-by, all clear).
+  const stormCache = new Map<string, StormWindow | null>();
+  const stormFor = (key: string) => {
+    if (!stormCache.has(key)) {
+      const slots = blocks.filter((b) => b.dayKey === key).map((b) => ({ dt: b.dt, stormProb: b.stormProb }));
+      stormCache.set(key, stormTiming(slots, fc.stepSec));
+    }
+    return stormCache.get(key) ?? null;
+  };
+
+  // ---------- TODAY: best daylight block + best daylight window ----------
+  const todayAll = blocks.filter((b) => b.dayKey === todayKey);
+  const todayDaylight = todayAll.filter((b) => b.inDaylight);
+
+  // Ground: a week of observed weather seeds the water balance, the forecast carries it forward.
+  const { past24, past48 } = pastPrecipMm(recent);
+  const groundDays = waterBalance({
+    observed: recent,
+    forecast: fc.hourly,
+    forecastStepSec: fc.stepSec,
+    timeZone,
+    lat,
+    lon,
+    soil,
+  });
+  const groundFor = (key: string) =>
+    groundSignals({ day: groundOn(groundDays, key), isToday: key === todayKey, past24, past48, soil, text: { locale, units } });
+  const ground = groundFor(todayKey);
+
+  // Tee-time window constraints (location-local time):
+  // the "best window" must START between 6am and 3pm.
+  const isInTeeWindow = (dt: number) => {
+    const hr = localHour(dt, timeZone);
+    return hr >= 6 && hr <= 15;
+  };
+
+  const todayTeeBlocks = (todayDaylight.length > 0 ? todayDaylight : todayAll).filter((b) =>
+    isInTeeWindow(b.dt) && b.dt <= latestStart
+  );
+
+  const bestTodayBlock =
+    todayTeeBlocks.length > 0
+      ? todayTeeBlocks.reduce((a, b) => (b.golf.score > a.golf.score ? b : a))
+      : null;
+
+  const labelWindow = (w: BestWindow | null) =>
+    w
+      ? {
+          ...w,
+          startLabel: formatTime(w.startDt, timeZone, timeLocale),
+          endLabel: formatTime(w.endDt, timeZone, timeLocale),
+          holes,
+          durationMin: Math.round(WINDOW_SEC / 60),
+        }
+      : null;
+
+  const toSlots = (bs: ForecastBlock[]) => bs.map((b) => ({ dt: b.dt, score: b.golf.score }));
+
+  const labelStorm = (w: StormWindow | null) =>
+    w
+      ? {
+          firstStrikeDt: w.firstStrikeDt,
+          firstStrikeLabel: formatTime(w.firstStrikeDt, timeZone, timeLocale),
+          offCourseBy: w.offCourseBy,
+          offCourseByLabel: formatTime(w.offCourseBy, timeZone, timeLocale),
+          allClearDt: w.allClearDt,
+          allClearLabel: formatTime(w.allClearDt, timeZone, timeLocale),
+          peakProbPct: Math.round(w.peakProb * 100),
+        }
+      : null;
+
+  const labelFrost = (f: FrostDelay | null) =>
+    f && f.risk !== "NONE"
+      ? {
+          risk: f.risk,
+          likely: f.likely,
+          surfaceMinC: f.surfaceMinC,
+          allDay: f.allDay,
+          expectedClearDt: f.expectedClearDt,
+          expectedClearLabel: f.expectedClearDt != null ? formatTime(f.expectedClearDt, timeZone, timeLocale) : null,
+        }
+      : null;
+
+  const labelDaylight = (s: SolarDay) => {
+    const label = (dt: number | null) => (dt != null ? formatTime(dt, timeZone, timeLocale) : null);
+    return {
+      sunrise: s.sunrise,
+      sunset: s.sunset,
+      civilDawn: s.civilDawn,
+      civilDusk: s.civilDusk,
+      sunriseLabel: label(s.sunrise),
+      sunsetLabel: label(s.sunset),
+      civilDawnLabel: label(s.civilDawn),
+      civilDuskLabel: label(s.civilDusk),
+      polar: s.polar,
+    };
+  };
+
+  // Best window: slide a round-length window hour by hour across today's golfing hours,
+  // finishing before any lightning window. If no window fits, keep it null.
+  const todayStorm = stormFor(todayKey);
+  const todayTeeStarts = new Set(todayTeeBlocks.map((b) => b.dt));
+  const bestWindow = labelWindow(
+    slideBestWindow(toSlots(todayDaylight.length > 0 ? todayDaylight : todayAll), {
+      windowSec: WINDOW_SEC,
+      stepSec: fc.stepSec,
+      canStart: (dt) =>
+        todayTeeStarts.has(dt) &&
+        !overlapsStorm(todayStorm, dt, dt + WINDOW_SEC) &&
+        !isFrostDelayed(frostByDay.get(todayKey), dt),
+    })
+  );
+
+  // ---------- GROUP into days (next 5 unique day keys) ----------
+  const grouped: Record<string, ForecastBlock[]> = {};
+  for (const b of blocks) {
+    if (!grouped[b.dayKey]) grouped[b.dayKey] = [];
+    grouped[b.dayKey].push(b);
+  }
+
+  const dayKeys = Object.keys(grouped).slice(0, 5);
+
+  const daily = dayKeys.map((key) => {
+    const dayBlocks = grouped[key];
+
+    const minTemp = Math.min(...dayBlocks.map((b) => b.temp));
+    const maxTemp = Math.max(...dayBlocks.map((b) => b.temp));
+    const windMax = Math.max(...dayBlocks.map((b) => b.windKph));
+    const gustMax = Math.max(...dayBlocks.map((b) => b.gustKph));
+    const precipTotal = dayBlocks.reduce((sum, b) => sum + (b.precipMm ?? 0), 0);
+    const popMax = Math.max(...dayBlocks.map((b) => b.pop));
+    const maxOf = (xs: (number | null)[]) => {
+      const known = xs.filter((x): x is number => x != null);
+      return known.length > 0 ? Math.max(...known) : null;
+    };
+
+    const rep = dayBlocks[Math.floor(dayBlocks.length / 2)];
+    const conditions = rep?.conditions ?? null;
+
+    // Score the day using ONLY daylight blocks if there are any; else use all blocks
+    const dayDaylight = dayBlocks.filter((b) => b.inDaylight);
+    const scoreBlocks = dayDaylight.length > 0 ? dayDaylight : dayBlocks;
+    const storm = stormFor(key);
+    const frost = frostByDay.get(key) ?? null;
+
+    // Best window for THIS day: round-length window starting between 6am and 3pm.
+    const dayBestWindow = key === todayKey
+      ? bestWindow
+      : labelWindow(
+          slideBestWindow(toSlots(scoreBlocks), {
+            windowSec: WINDOW_SEC,
+            stepSec: fc.stepSec,
+            canStart: (dt) =>
+              isInTeeWindow(dt) && !overlapsStorm(storm, dt, dt + WINDOW_SEC) && !isFrostDelayed(frost, dt),
+          })
+        );
+
+    // Storm days: if a round fits around the lightning window, judge the day on the
+    // storm-free hours (capped at YELLOW) instead of letting the storm hours sink it.
+    const clearBlocks = storm
+      ? scoreBlocks.filter((b) => !overlapsStorm(storm, b.dt, b.dt + fc.stepSec))
+      : scoreBlocks;
+    const playAroundStorm = storm != null && dayBestWindow != null && clearBlocks.length > 0;
+    const rollupBlocks = playAroundStorm ? clearBlocks : scoreBlocks;
+
+    const avg =
+      rollupBlocks.length > 0
+        ? Math.round(rollupBlocks.reduce((sum, b) => sum + (b.golf?.score ?? 0), 0) / rollupBlocks.length)
+        : 0;
+
+    let verdict = verdictForScore(avg);
+    if (storm && verdict === "GREEN") verdict = "YELLOW";
+
+    const dayReason =
+      playAroundStorm && verdict !== "RED" && storm && dayBestWindow
+        ? dayBestWindow.endDt <= storm.offCourseBy
+          ? msg("day.playEarly", { dt: storm.firstStrikeDt })
+          : msg("day.playLate", { dt: storm.allClearDt })
+        : verdict === "GREEN"
+          ? msg("day.great")
+          : verdict === "YELLOW"
+            ? msg("day.playable")
+            : msg("day.poor");
+
+    return {
+      dateKey: key,
+      dayLabel: dayBlocks[0]?.dayLabel ?? key,
+      minTemp: Number.isFinite(minTemp) ? minTemp : null,
+      maxTemp: Number.isFinite(maxTemp) ? maxTemp : null,
+      windMax: Number.isFinite(windMax) ? windMax : null,
+      gustMax: Number.isFinite(gustMax) ? gustMax : null,
+      precipTotalMm: Math.round(precipTotal * 10) / 10,
+      rainChancePct: Number.isFinite(popMax) ? Math.round(popMax * 100) : null,
+      humidityMax: maxOf(scoreBlocks.map((b) => b.humidityPct)),
+      uvMax: maxOf(scoreBlocks.map((b) => b.uvIndex)),
+      // Heat / UV advisories seen during golfing hours
+      notes: [...new Set(scoreBlocks.flatMap((b) => b.golf.notes ?? []))],
+      noteCodes: [...new Set(scoreBlocks.flatMap((b) => b.golf.noteCodes ?? []))],
+      // What cost the day its points, over the same hours the score averages
+      breakdown: rollupBreakdown(rollupBlocks.map((b) => b.golf)),
+      conditions,
+      ground: groundFor(key),
+      golf: { score: avg, verdict, reason: t(locale, dayReason, { units, timeZone }), reasonMessage: dayReason },
+      bestWindow: verdict === "RED" ? null : dayBestWindow,
+      thunder: labelStorm(storm),
+      frostDelay: labelFrost(frost),
+      daylight: labelDaylight(solarFor(key)),
+
+      // blocks for tee-time scoring + reason chips
+      blocks: dayBlocks.map((b) => ({
+        dt: b.dt,
+        label: b.label,
+        temp: b.temp,
+        feels: b.feels,
+        windKph: b.windKph,
+        gustKph: b.gustKph,
+        windDeg: b.windDeg,
+        precipMm: b.precipMm,
+        rainChancePct: Math.round(b.pop * 100),
+        humidityPct: b.humidityPct,
+        uvIndex: b.uvIndex,
+        pressureHpa: b.pressureHpa,
+        conditions: b.conditions,
+        inDaylight: b.inDaylight,
+        alertBlocked: b.alertBlocked,
+        stormPct: Math.round(b.stormProb * 100),
+        frostBlocked: b.frostBlocked,
+        score: b.golf.score,
+        verdict: b.golf.verdict,
+        reason: b.golf.reason,
+        reasonMessage: b.golf.reasonMessage,
+        notes: b.golf.notes ?? [],
+        noteCodes: b.golf.noteCodes ?? [],
+        deductions: b.golf.deductions ?? [],
+        hardStop: b.golf.hardStop ?? null,
+      })),
+    };
+  });
+
+  const report = {
+    source: fc.source,
+    // When the forecast was fetched upstream; `stale` means the refresh failed and this is an older copy.
+    cachedAt: cache.cachedAt,
+    stale: cache.stale,
+    // Course IANA zone: labels, day keys and hours are all in it, DST changes included.
+    timeZone,
+    // UTC offset in force right now (older clients); use timeZone for any other instant.
+    tzOffsetSec: utcOffsetSec(Date.now() / 1000, timeZone),
+    profile,
+    units,
+    locale,
+
+    current: {
+      temp: Math.round(fc.current.tempC),
+      feels: Math.round(fc.current.feelsLikeC),
+      windKph: Math.round(fc.current.windKph),
+      gustKph: Math.round(fc.current.gustKph),
+      windDeg: fc.current.windDeg != null ? Math.round(fc.current.windDeg) : null,
+      conditions: fc.current.conditions,
+      humidityPct: fc.current.humidityPct ?? null,
+      uvIndex: fc.current.uvIndex ?? null,
+      pressureHpa: fc.current.pressureHpa != null ? Math.round(fc.current.pressureHpa) : null,
+    },
+
+    // Course elevation when one was given, else the forecast point's; ball-flight math uses it
+    elevationM: fc.elevationM ?? null,
+
+    golf: bestTodayBlock?.golf ?? null,
+
+    bestTime: {
+      bestBlock: bestTodayBlock,
+      bestWindow,
+    },
+
+    daylight: {
+      sunrise,
+      sunset,
+      sunriseLabel: formatTime(sunrise, timeZone, timeLocale),
+      sunsetLabel: formatTime(sunset, timeZone, timeLocale),
+      daylightStartLabel: formatTime(daylightStart, timeZone, timeLocale),
+      daylightEndLabel: formatTime(daylightEnd, timeZone, timeLocale),
+    },
+
+    alerts: alerts.map((a) => ({
+      title: a.title,
+      severity: a.severity,
+      source: a.source,
+      start: a.start,
+      end: a.end,
+      startLabel: formatTime(a.start, timeZone, timeLocale),
+      endLabel: formatTime(a.end, timeZone, timeLocale),
+      startDayLabel: formatDay(a.start, timeZone, timeLocale),
+      endDayLabel: formatDay(a.end, timeZone, timeLocale),
+    })),
+
+    forecast: blocks,
+    daily,
+    ground,
+  };
+
+  return { ok: true as const, report };
+}
@@ -0,0 +1,65 @@
+import { golfabilityScore } from "@/lib/golfability";
+import type { GolferProfile } from "@/lib/profile";
+import type { UnitSystem } from "@/lib/units";
+import type { Locale } from "@/lib/i18n";
+import { alertBlocks, type WeatherAlert } from "@/lib/alerts";
+import { stormSeries } from "@/lib/thunder";
+import { isFrostDelayed, predictFrostDelays, type FrostDelay } from "@/lib/frost";
+import { localDateKey, localParts } from "@/lib/timezone";
+import type { HourlyPoint, NormalizedForecast } from "./types";
+
+export type ScoredPoint = HourlyPoint & {
+  alertBlocked: boolean;
+  stormProb: number; // 0..1, includes lightning-proximity spill-over from the next hour
+  frostBlocked: boolean;
+  golf: ReturnType<typeof golfabilityScore>;
+};
+
+/**
+ * Run golfabilityScore over every point of a normalized series.
+ * Points overlapped by a blocking alert hit the `hasAlert` hard stop.
+ */
+export function scoreSeries(
+  fc: NormalizedForecast,
+  opts: { lat: number; alerts?: WeatherAlert[]; frost?: Map<string, FrostDelay>; profile?: GolferProfile; units?: UnitSystem; locale?: Locale }
+): ScoredPoint[] {
+  const alerts = opts.alerts ?? [];
+  const frost = opts.frost ?? predictFrostDelays(fc);
+  const dayKeyOf = (dt: number) => localDateKey(dt, fc.timeZone);
+
+  // Month-based season logic used by golfabilityScore (use location-local date, 0-based)
+  const month = localParts(Date.now() / 1000, fc.timeZone).month - 1;
+
+  const storm = stormSeries(fc.hourly);
+
+  return fc.hourly.map((p, i) => {
+    const alertBlocked = alertBlocks(alerts, p.dt, p.dt + fc.stepSec);
+    const frostBlocked = isFrostDelayed(frost.get(dayKeyOf(p.dt)), p.dt);
+    return {
+      ...p,
+      alertBlocked,
+      stormProb: storm[i],
+      frostBlocked,
+      golf: golfabilityScore({
+        tempC: p.tempC,
+        feelsLikeC: p.feelsLikeC,
+        windKph: p.windKph,
+        gustKph: p.gustKph,
+        pop: p.pop,
+        precipMm: p.precipMm,
+        hasAlert: alertBlocked,
+        frostDelay: frostBlocked,
+        conditions: p.conditions,
+        stormProb: storm[i],
+        humidityPct: p.humidityPct,
+        dewPointC: p.dewPointC,
+        uvIndex: p.uvIndex,
+        lat: opts.lat,
+        month,
+        profile: opts.profile,
+        units: opts.units,
+        locale: opts.locale,
+      }),
+    };
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Normalized forecast shape shared by every weather provider.
+ * Routes build ForecastBlocks / ground signals from this — never from raw provider JSON.
+ */
+
+export type WeatherProviderId = "openweather" | "openmeteo";
+
+export type HourlyPoint = {
+  dt: number; // unix seconds (UTC), start of the step
+  tempC: number;
+  feelsLikeC: number;
+  windKph: number;
+  gustKph: number;
+  windDeg?: number | null; // direction the wind blows FROM, degrees clockwise from north
+  precipMm: number; // total for the step (rain + snow)
+  pop: number; // 0..1 probability of precipitation
+  conditions: string | null; // OpenWeather-style "main": "Rain", "Snow", "Clouds"...
+  cape?: number | null; // J/kg convective energy, when the provider has it
+  humidityPct?: number | null; // relative humidity 0..100
+  dewPointC?: number | null;
+  uvIndex?: number | null;
+  cloudPct?: number | null; // total cloud cover 0..100
+  pressureHpa?: number | null; // mean sea-level pressure
+};
+
+export type CurrentConditions = {
+  tempC: number;
+  feelsLikeC: number;
+  windKph: number;
+  gustKph: number;
+  windDeg?: number | null;
+  conditions: string | null;
+  humidityPct?: number | null;
+  uvIndex?: number | null;
+  pressureHpa?: number | null; // mean sea-level pressure
+};
+
+export type NormalizedForecast = {
+  source: WeatherProviderId;
+  // Spacing of the hourly series: 3600 for true hourly, 10800 for OpenWeather's 3h blocks.
+  stepSec: number;
+  timeZone: string; // IANA zone at the forecast point; local days and labels follow its DST changes
+  sunrise: number; // unix seconds, today
+  sunset: number; // unix seconds, today
+  elevationM?: number | null; // height of the forecast point, when the provider reports it
+  current: CurrentConditions;
+  hourly: HourlyPoint[];
+};
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  getForecast(lat: number, lon: number): Promise<NormalizedForecast>;
+}
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { clientIp, createRateLimiter } from "@/lib/rateLimit";
+
+const limiter = createRateLimiter();
+
+/** Per-IP rate limiting in front of every API route. */
+export function proxy(req: NextRequest) {
+  const result = limiter.take(clientIp(req.headers), req.nextUrl.pathname);
+
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Too many requests", retryAfterSec: result.retryAfterSec },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": String(result.retryAfterSec),
+          "RateLimit-Limit": String(result.limit),
+          "RateLimit-Remaining": "0",
+        },
+      }
+    );
+  }
+
+  const res = NextResponse.next();
+  res.headers.set("RateLimit-Limit", String(result.limit));
+  res.headers.set("RateLimit-Remaining", String(result.remaining));
+  return res;
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};